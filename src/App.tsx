@@ -10,6 +10,8 @@ import Dashboard from "./pages/Dashboard";
 import Projects from "./pages/Projects";
 import ProjectDetails from "./pages/ProjectDetails";
 import VideoPreview from "./pages/VideoPreview";
+import GuestReview from "./pages/GuestReview";
+import VersionCompare from "./pages/VersionCompare";
 import Profile from "./pages/Profile";
 import Chat from "./pages/Chat";
 import Admin from "./pages/Admin";
@@ -48,6 +50,8 @@ const App = () => (
           <Route path="/projects" element={<Projects />} />
           <Route path="/projects/:projectId" element={<ProjectDetails />} />
           <Route path="/video-preview/:versionId" element={<VideoPreview />} />
+          <Route path="/review/:token" element={<GuestReview />} />
+          <Route path="/projects/:projectId/compare" element={<VersionCompare />} />
           <Route path="/profile" element={<Profile />} />
           <Route path="/chat" element={<Chat />} />
           <Route path="/admin" element={<Admin />} />
@@ -25,6 +25,8 @@ import {
 } from "@/components/ui/sidebar";
 import { supabase } from "@/integrations/supabase/client";
 import { db } from "@/lib/database-config";
+import { SyncStatus } from "@/components/SyncStatus";
+import { NotificationsBell } from "@/components/NotificationsBell";
 
 type UserRole = "editor" | "client" | "agency";
 
@@ -177,6 +179,8 @@ export function AppSidebar() {
       </SidebarContent>
 
       <SidebarFooter className="border-t p-4">
+        <NotificationsBell />
+        <SyncStatus />
         <p className="text-xs text-muted-foreground text-center">
           © 2025 Xrozen
         </p>
@@ -0,0 +1,22 @@
+import { Button } from "@/components/ui/button";
+
+interface LoadMoreProps {
+  loaded: number;
+  total: number;
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+export const LoadMore = ({ loaded, total, hasMore, loading, onLoadMore }: LoadMoreProps) => (
+  <div className="flex items-center justify-between px-4 py-3 border-t text-sm text-muted-foreground">
+    <span>
+      Showing {loaded} of {total}
+    </span>
+    {hasMore && (
+      <Button variant="outline" size="sm" onClick={onLoadMore} disabled={loading}>
+        {loading ? "Loading..." : "Load more"}
+      </Button>
+    )}
+  </div>
+);
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { useCollection, useMutation } from "@/hooks/use-collection";
+import type { Row } from "@/lib/database-config";
+
+export const NotificationsBell = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  const { data: notifications = [] } = useCollection(
+    userId
+      ? {
+          collection: "notifications",
+          where: { user_id: userId },
+          orderBy: { column: "created_at", ascending: false },
+          limit: 30
+        }
+      : null
+  );
+  const { mutate } = useMutation("notifications");
+
+  const unread = notifications.filter((notification) => !notification.read_at).length;
+
+  const markAllRead = () => {
+    if (!userId) return;
+    mutate({
+      operation: "update",
+      where: { user_id: userId, read_at: null },
+      data: { read_at: new Date().toISOString() }
+    });
+  };
+
+  const handleOpen = (notification: Row<"notifications">) => {
+    if (!notification.read_at) {
+      mutate({
+        operation: "update",
+        where: { id: notification.id },
+        data: { read_at: new Date().toISOString() }
+      });
+    }
+    setOpen(false);
+    if (notification.link) navigate(notification.link);
+  };
+
+  if (!userId) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full h-8 mb-3 justify-start text-xs">
+          <Bell className="h-3.5 w-3.5 mr-2" />
+          Notifications
+          {unread > 0 && (
+            <span className="ml-auto rounded-full bg-primary px-1.5 text-[10px] font-medium text-primary-foreground">
+              {unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unread > 0 && (
+            <button type="button" className="text-xs text-primary hover:underline" onClick={markAllRead}>
+              Mark all read
+            </button>
+          )}
+        </div>
+        <ScrollArea className="max-h-96">
+          {notifications.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={`block w-full border-b px-3 py-2 text-left last:border-b-0 hover:bg-accent ${
+                  notification.read_at ? "" : "bg-primary/5"
+                }`}
+              >
+                <p className={`text-sm ${notification.read_at ? "" : "font-medium"}`}>{notification.title}</p>
+                {notification.body && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                )}
+                <p className="mt-1 text-[10px] text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </p>
+              </button>
+            ))
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { db } from "@/lib/database-config";
+import type { ConflictResolution, SyncStatus as SyncStatusValue } from "@/lib/offline-sync";
+
+const describeWrite = (write: { collection: string; operation: string }) =>
+  `${write.operation === "insert" ? "New" : "Updated"} ${write.collection.replace(/_/g, " ")}`;
+
+export const SyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatusValue>(db.offline.getStatus());
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+
+  useEffect(() => db.offline.subscribe(setStatus), []);
+
+  const handleResolve = async (id: number, resolution: ConflictResolution) => {
+    try {
+      await db.offline.resolveConflict(id, resolution);
+      toast.success(resolution === "overwrite" ? "Your change was saved" : "Your change was discarded");
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      toast.error("Failed to resolve conflict");
+    }
+  };
+
+  const { state, pending, conflicts } = status;
+  const Icon = state === "offline" ? CloudOff : state === "syncing" ? RefreshCw : Cloud;
+  const label =
+    state === "offline"
+      ? "Offline"
+      : state === "syncing"
+        ? "Syncing..."
+        : pending > 0
+          ? "Waiting to sync"
+          : "All changes synced";
+
+  return (
+    <div className="mb-3 space-y-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Icon className={`h-3.5 w-3.5 ${state === "syncing" ? "animate-spin" : ""} ${state === "offline" ? "text-destructive" : ""}`} />
+          <span>{label}</span>
+        </div>
+        {pending > 0 && (
+          <button
+            type="button"
+            className="text-primary hover:underline disabled:opacity-50"
+            disabled={state !== "online"}
+            onClick={() => db.offline.flush()}
+          >
+            {pending} queued
+          </button>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full h-7 text-xs text-destructive"
+          onClick={() => setConflictsOpen(true)}
+        >
+          <AlertTriangle className="h-3.5 w-3.5 mr-1" />
+          {conflicts.length} change{conflicts.length === 1 ? "" : "s"} need attention
+        </Button>
+      )}
+
+      <Dialog open={conflictsOpen && conflicts.length > 0} onOpenChange={setConflictsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Offline changes that could not be synced</DialogTitle>
+            <DialogDescription>
+              Keep your version to overwrite what is on the server, or discard it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {conflicts.map((conflict) => (
+              <div key={conflict.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium capitalize">{describeWrite(conflict.write)}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(conflict.queuedAt).toLocaleString()}
+                  </span>
+                </div>
+                {conflict.error && <p className="text-sm text-muted-foreground">{conflict.error}</p>}
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleResolve(conflict.id!, "discard")}>
+                    Discard
+                  </Button>
+                  <Button size="sm" onClick={() => handleResolve(conflict.id!, "overwrite")}>
+                    Keep mine
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
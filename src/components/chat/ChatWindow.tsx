@@ -4,8 +4,7 @@ import { Button } from "@/components/ui/button";
 import { MessageBubble } from "./MessageBubble";
 import { MessageInput } from "./MessageInput";
 import { MoreVertical, Search, Phone, Video } from "lucide-react";
-import { db } from "@/lib/database-config";
-import { supabase } from "@/integrations/supabase/client";
+import { useCollection, useMutation } from "@/hooks/use-collection";
 import { toast } from "sonner";
 import {
   DropdownMenu,
@@ -31,38 +30,26 @@ interface ChatWindowProps {
 }
 
 export const ChatWindow = ({ projectId, projectName, currentUserId }: ChatWindowProps) => {
-  const [messages, setMessages] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
   const [replyingTo, setReplyingTo] = useState<any>(null);
   const [editingMessage, setEditingMessage] = useState<any>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [messageToDelete, setMessageToDelete] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    loadMessages();
-
-    // Subscribe to new messages for this project
-    const channel = supabase
-      .channel(`messages-${projectId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "messages",
-          filter: `project_id=eq.${projectId}`
-        },
-        () => {
-          loadMessages();
-        }
-      )
-      .subscribe();
+  // Refetched by the shared realtime subscription on the messages table
+  const { data: messages = [], isLoading: loading, error } = useCollection({
+    collection: "messages",
+    where: { project_id: projectId },
+    orderBy: { column: "created_at", ascending: true }
+  });
+  const { mutateAsync: mutateMessages } = useMutation("messages");
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [projectId]);
+  useEffect(() => {
+    if (error) {
+      console.error("Failed to load messages:", error);
+      toast.error("Failed to load messages");
+    }
+  }, [error]);
 
   useEffect(() => {
     scrollToBottom();
@@ -72,24 +59,6 @@ export const ChatWindow = ({ projectId, projectName, currentUserId }: ChatWindow
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const loadMessages = async () => {
-    try {
-      const messagesData = await db.query({
-        collection: "messages",
-        operation: "select",
-        where: { project_id: projectId },
-        orderBy: { column: "created_at", ascending: true }
-      }) as any[];
-
-      setMessages(messagesData || []);
-    } catch (error) {
-      console.error("Failed to load messages:", error);
-      toast.error("Failed to load messages");
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleSendMessage = async (content: string, attachment?: File) => {
     try {
       let attachmentUrl = null;
@@ -104,8 +73,7 @@ export const ChatWindow = ({ projectId, projectName, currentUserId }: ChatWindow
 
       if (editingMessage) {
         // Update existing message
-        await db.query({
-          collection: "messages",
+        await mutateMessages({
           operation: "update",
           where: { id: editingMessage.id },
           data: {
@@ -116,10 +84,10 @@ export const ChatWindow = ({ projectId, projectName, currentUserId }: ChatWindow
         setEditingMessage(null);
       } else {
         // Create new message
-        await db.query({
-          collection: "messages",
+        await mutateMessages({
           operation: "insert",
           data: {
+            id: crypto.randomUUID(),
             project_id: projectId,
             sender_id: currentUserId,
             content,
@@ -141,8 +109,7 @@ export const ChatWindow = ({ projectId, projectName, currentUserId }: ChatWindow
     if (!messageToDelete) return;
 
     try {
-      await db.query({
-        collection: "messages",
+      await mutateMessages({
         operation: "delete",
         where: { id: messageToDelete }
       });
@@ -175,8 +142,7 @@ export const ChatWindow = ({ projectId, projectName, currentUserId }: ChatWindow
         reactions[emoji] = updatedReactions;
       }
 
-      await db.query({
-        collection: "messages",
+      await mutateMessages({
         operation: "update",
         where: { id: messageId },
         data: { reactions }
@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { db } from "@/lib/database-config";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 interface Project {
@@ -97,31 +98,20 @@ export default function EnhancedCreateInvoiceDialog({
       const totalAmount = calculateTotal();
       const invoiceNumber = `INV-${Date.now()}`;
 
-      // Create invoice
-      const { data: invoice, error: invoiceError } = await supabase
-        .from("invoices")
-        .insert({
+      // Create the invoice and link its projects in one atomic write
+      const invoiceId = crypto.randomUUID();
+      await db.transaction((tx) => {
+        tx.insert("invoices", {
+          id: invoiceId,
           editor_id: user.id,
           month: formData.month,
           total_amount: totalAmount,
           remaining_amount: totalAmount,
           invoice_number: invoiceNumber,
           notes: formData.notes || null,
-        })
-        .select()
-        .single();
-
-      if (invoiceError) throw invoiceError;
-
-      // Link projects to invoice - update each project individually
-      for (const projectId of selectedProjects) {
-        const { error: updateError } = await supabase
-          .from("projects")
-          .update({ invoice_id: invoice.id })
-          .eq("id", projectId);
-        
-        if (updateError) throw updateError;
-      }
+        });
+        tx.update("projects", { id: { in: Array.from(selectedProjects) } }, { invoice_id: invoiceId });
+      });
 
       toast.success("Invoice created successfully");
       setFormData({
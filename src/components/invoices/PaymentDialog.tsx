@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { db } from "@/lib/database-config";
 import { type Invoice } from "./InvoiceCard";
 
 interface PaymentDialogProps {
@@ -52,24 +53,16 @@ export default function PaymentDialog({
       const newRemainingAmount = Number(invoice.total_amount) - newPaidAmount;
       const newStatus = newRemainingAmount === 0 ? 'paid' : 'partial';
 
-      // Update invoice
-      const { error: invoiceError } = await supabase
-        .from("invoices")
-        .update({
+      // Record the payment on the invoice and in the ledger together
+      await db.transaction((tx) => {
+        tx.update("invoices", { id: invoice.id }, {
           paid_amount: newPaidAmount,
           remaining_amount: newRemainingAmount,
           status: newStatus,
           payment_method: formData.paymentMethod,
           paid_date: newStatus === 'paid' ? formData.paymentDate : null,
-        })
-        .eq("id", invoice.id);
-
-      if (invoiceError) throw invoiceError;
-
-      // Create transaction record
-      const { error: transactionError } = await supabase
-        .from("transactions")
-        .insert({
+        });
+        tx.insert("transactions", {
           editor_id: user.id,
           invoice_id: invoice.id,
           amount: paymentAmount,
@@ -78,8 +71,7 @@ export default function PaymentDialog({
           transaction_type: 'payment',
           payment_method: formData.paymentMethod,
         });
-
-      if (transactionError) throw transactionError;
+      });
 
       toast.success("Payment processed successfully");
       setFormData({
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import { db } from "@/lib/database-config";
+import { errorMessage } from "@/lib/utils";
+import { sortStages, type ApprovalStage } from "@/lib/approval-workflow";
+
+interface ApprovalStagesCardProps {
+  projectId: string;
+  stages: ApprovalStage[];
+  onStagesUpdate: () => void;
+  /** Creator and editor may change the stages; everyone else sees them */
+  canManage: boolean;
+  /** People on the project, offered as reviewers */
+  memberIds: string[];
+}
+
+export const ApprovalStagesCard = ({ projectId, stages, onStagesUpdate, canManage, memberIds }: ApprovalStagesCardProps) => {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingStage, setEditingStage] = useState<ApprovalStage | null>(null);
+  const [stageName, setStageName] = useState("");
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+  const [reviewerEmail, setReviewerEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const ordered = sortStages(stages);
+  const knownIds = [...new Set([...memberIds, ...stages.flatMap((stage) => stage.reviewer_ids)])];
+  const knownKey = knownIds.join(",");
+
+  useEffect(() => {
+    loadNames(knownKey ? knownKey.split(",") : []);
+  }, [knownKey]);
+
+  const loadNames = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+      const profiles = await db.query({
+        collection: "profiles",
+        operation: "select",
+        select: "id, full_name, email",
+        where: { id: { in: ids } }
+      });
+      setNames((current) => ({
+        ...current,
+        ...Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name || profile.email]))
+      }));
+    } catch (error) {
+      console.error("Error loading reviewer names:", error);
+    }
+  };
+
+  const openDialog = (stage: ApprovalStage | null) => {
+    setEditingStage(stage);
+    setStageName(stage?.name ?? "");
+    setReviewerIds(stage?.reviewer_ids ?? []);
+    setReviewerEmail("");
+    setDialogOpen(true);
+  };
+
+  const toggleReviewer = (userId: string, checked: boolean) => {
+    setReviewerIds((current) => (checked ? [...current, userId] : current.filter((id) => id !== userId)));
+  };
+
+  const handleAddByEmail = async () => {
+    const email = reviewerEmail.trim();
+    if (!email) return;
+
+    try {
+      const profiles = await db.query({
+        collection: "profiles",
+        operation: "select",
+        select: "id, full_name, email",
+        where: { email: { ilike: email } },
+        limit: 1
+      });
+      const profile = profiles?.[0];
+      if (!profile) {
+        toast.error("No account uses that email address");
+        return;
+      }
+      setNames((current) => ({ ...current, [profile.id]: profile.full_name || profile.email }));
+      setReviewerIds((current) => (current.includes(profile.id) ? current : [...current, profile.id]));
+      setReviewerEmail("");
+    } catch (error) {
+      console.error("Error looking up reviewer:", error);
+      toast.error("Failed to look up reviewer");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!stageName.trim()) {
+      toast.error("Please name the stage");
+      return;
+    }
+    if (reviewerIds.length === 0) {
+      toast.error("Choose at least one reviewer");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingStage) {
+        await db.query({
+          collection: "approval_stages",
+          operation: "update",
+          where: { id: editingStage.id },
+          data: { name: stageName.trim(), reviewer_ids: reviewerIds }
+        });
+        toast.success("Stage updated");
+      } else {
+        await db.query({
+          collection: "approval_stages",
+          operation: "insert",
+          data: {
+            project_id: projectId,
+            name: stageName.trim(),
+            position: ordered.length ? ordered[ordered.length - 1].position + 1 : 0,
+            reviewer_ids: reviewerIds
+          }
+        });
+        toast.success("Stage added");
+      }
+      setDialogOpen(false);
+      onStagesUpdate();
+    } catch (error) {
+      console.error("Error saving approval stage:", error);
+      toast.error(errorMessage(error, "Failed to save stage"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const reordered = [...ordered];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+
+    try {
+      // Renumber the lot so stages that share a position end up in a definite order
+      for (const [position, stage] of reordered.entries()) {
+        if (stage.position === position) continue;
+        await db.query({
+          collection: "approval_stages",
+          operation: "update",
+          where: { id: stage.id },
+          data: { position }
+        });
+      }
+      onStagesUpdate();
+    } catch (error) {
+      console.error("Error reordering approval stages:", error);
+      toast.error(errorMessage(error, "Failed to reorder stages"));
+    }
+  };
+
+  const handleDelete = async (stage: ApprovalStage) => {
+    if (!confirm(`Remove the "${stage.name}" stage? Past sign-offs stay in the approval log.`)) return;
+
+    try {
+      await db.query({
+        collection: "approval_stages",
+        operation: "delete",
+        where: { id: stage.id }
+      });
+      toast.success("Stage removed");
+      onStagesUpdate();
+    } catch (error) {
+      console.error("Error deleting approval stage:", error);
+      toast.error(errorMessage(error, "Failed to remove stage"));
+    }
+  };
+
+  return (
+    <>
+      <Card className="shadow-elegant mb-8">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Approval Stages</CardTitle>
+              <CardDescription>
+                {ordered.length
+                  ? "Versions are approved once every stage has signed off, in this order"
+                  : "No stages set up, so the client approves versions directly"}
+              </CardDescription>
+            </div>
+            {canManage && (
+              <Button variant="outline" onClick={() => openDialog(null)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Stage
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        {ordered.length > 0 && (
+          <CardContent>
+            <ol className="space-y-2">
+              {ordered.map((stage, index) => (
+                <li key={stage.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium">
+                      {index + 1}. {stage.name}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {stage.reviewer_ids.map((reviewerId) => (
+                        <Badge key={reviewerId} variant="secondary">
+                          {names[reviewerId] || "Unknown"}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="icon" variant="ghost" disabled={index === 0} onClick={() => handleMove(index, -1)} title="Move up">
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        disabled={index === ordered.length - 1}
+                        onClick={() => handleMove(index, 1)}
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => openDialog(stage)} title="Edit stage">
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleDelete(stage)} title="Remove stage">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        )}
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingStage ? "Edit Stage" : "Add Approval Stage"}</DialogTitle>
+            <DialogDescription>Every reviewer of the stage has to approve before the next stage is asked</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="stage_name">Stage name *</Label>
+              <Input
+                id="stage_name"
+                value={stageName}
+                onChange={(e) => setStageName(e.target.value)}
+                placeholder="e.g. Internal lead, Client, Brand legal"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reviewers *</Label>
+              {memberIds.map((userId) => (
+                <div key={userId} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`reviewer_${userId}`}
+                    checked={reviewerIds.includes(userId)}
+                    onCheckedChange={(checked) => toggleReviewer(userId, checked === true)}
+                  />
+                  <Label htmlFor={`reviewer_${userId}`} className="font-normal">
+                    {names[userId] || "Unknown"}
+                  </Label>
+                </div>
+              ))}
+              <div className="flex gap-2 pt-1">
+                <Input
+                  type="email"
+                  value={reviewerEmail}
+                  onChange={(e) => setReviewerEmail(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleAddByEmail();
+                    }
+                  }}
+                  placeholder="Add someone else by email"
+                />
+                <Button type="button" variant="outline" onClick={handleAddByEmail} disabled={!reviewerEmail.trim()}>
+                  <UserPlus className="w-4 h-4" />
+                </Button>
+              </div>
+              {reviewerIds.some((id) => !memberIds.includes(id)) && (
+                <div className="flex flex-wrap gap-1">
+                  {reviewerIds
+                    .filter((id) => !memberIds.includes(id))
+                    .map((id) => (
+                      <Badge key={id} variant="secondary" className="gap-1">
+                        {names[id] || "Unknown"}
+                        <button type="button" onClick={() => toggleReviewer(id, false)} title="Remove reviewer">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {editingStage ? "Save Stage" : "Add Stage"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChevronRight } from "lucide-react";
+import { db, type Row } from "@/lib/database-config";
+import { DEFAULT_FRAME_RATE, formatTimecode } from "@/lib/timecode";
+import { feedbackAuthorName } from "@/lib/review-links";
+
+type Feedback = Row<"video_feedback">;
+
+interface FeedbackHistoryProps {
+  versions: Pick<Row<"video_versions">, "id" | "version_number" | "frame_rate">[];
+}
+
+type StepStatus = "open" | "carried" | "awaiting" | "resolved" | "not_addressed";
+
+const STATUS_LABELS: Record<StepStatus, { label: string; className: string }> = {
+  open: { label: "Open", className: "" },
+  carried: { label: "Carried forward", className: "text-muted-foreground" },
+  not_addressed: { label: "Not addressed", className: "border-destructive/50 text-destructive" },
+  awaiting: { label: "Awaiting confirmation", className: "border-primary/50" },
+  resolved: { label: "Resolved", className: "bg-success/10" }
+};
+
+const stepStatus = (item: Feedback, carried: boolean): StepStatus => {
+  if (item.is_resolved) return "resolved";
+  if (item.resolved_by) return "awaiting";
+  if (carried) return "carried";
+  if (item.addressed === false) return "not_addressed";
+  return "open";
+};
+
+/** Every top-level comment of the project, followed through the versions it was carried into */
+export const FeedbackHistory = ({ versions }: FeedbackHistoryProps) => {
+  const navigate = useNavigate();
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
+  const [authorNames, setAuthorNames] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<"open" | "all">("open");
+
+  const versionIds = versions.map((version) => version.id).join(",");
+
+  useEffect(() => {
+    loadFeedback();
+  }, [versionIds]);
+
+  const loadFeedback = async () => {
+    if (versions.length === 0) {
+      setFeedback([]);
+      return;
+    }
+
+    try {
+      const feedbackData = await db.query({
+        collection: 'video_feedback',
+        operation: 'select',
+        where: { version_id: { in: versions.map((version) => version.id) }, parent_id: null },
+        orderBy: { column: 'created_at', ascending: true }
+      });
+      setFeedback(feedbackData || []);
+
+      const authorIds = [...new Set((feedbackData || []).map((item) => item.user_id).filter(Boolean))];
+      if (authorIds.length > 0) {
+        const profiles = await db.query({
+          collection: 'profiles',
+          operation: 'select',
+          select: 'id, full_name, email',
+          where: { id: { in: authorIds } }
+        });
+        setAuthorNames(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name || profile.email])));
+      }
+    } catch (error) {
+      console.error("Error loading feedback history:", error);
+    }
+  };
+
+  const versionNumbers: Record<string, number> = Object.fromEntries(
+    versions.map((version) => [version.id, version.version_number])
+  );
+  const frameRates: Record<string, number> = Object.fromEntries(
+    versions.map((version) => [version.id, Number(version.frame_rate) || DEFAULT_FRAME_RATE])
+  );
+
+  // A chain starts at a comment that was not carried from anything we can see
+  const ids = new Set(feedback.map((item) => item.id));
+  const carriedInto: Record<string, Feedback[]> = {};
+  for (const item of feedback) {
+    if (item.carried_from_id && ids.has(item.carried_from_id)) {
+      (carriedInto[item.carried_from_id] ||= []).push(item);
+    }
+  }
+
+  const chains = feedback
+    .filter((item) => !item.carried_from_id || !ids.has(item.carried_from_id))
+    .map((root) => {
+      const steps: Feedback[] = [];
+      const queue = [root];
+      while (queue.length) {
+        const step = queue.shift();
+        steps.push(step);
+        queue.push(...(carriedInto[step.id] || []));
+      }
+      return steps.sort((a, b) => (versionNumbers[a.version_id] ?? 0) - (versionNumbers[b.version_id] ?? 0));
+    });
+
+  const visibleChains = filter === "all"
+    ? chains
+    : chains.filter((steps) => stepStatus(steps[steps.length - 1], false) !== "resolved");
+
+  return (
+    <Card className="shadow-elegant mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Feedback History</CardTitle>
+            <CardDescription>Each comment and what happened to it across versions</CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={filter}
+            onValueChange={(value) => value && setFilter(value as "open" | "all")}
+          >
+            <ToggleGroupItem value="open">Open</ToggleGroupItem>
+            <ToggleGroupItem value="all">All</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visibleChains.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            {filter === "open" ? "No open feedback" : "No feedback yet"}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visibleChains.map((steps) => {
+              const root = steps[0];
+              const frameRate = frameRates[root.version_id] ?? DEFAULT_FRAME_RATE;
+              return (
+                <div key={root.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="text-sm whitespace-pre-wrap">{root.comment_text}</p>
+                    {root.timestamp_seconds !== null && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap font-mono">
+                        {formatTimecode(Number(root.timestamp_seconds), frameRate)}
+                        {root.end_seconds != null && ` - ${formatTimecode(Number(root.end_seconds), frameRate)}`}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {feedbackAuthorName(root, authorNames) || "Unknown"} · {new Date(root.created_at).toLocaleDateString()}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {steps.map((step, index) => {
+                      const status = STATUS_LABELS[stepStatus(step, !!carriedInto[step.id])];
+                      return (
+                        <div key={step.id} className="flex items-center gap-1">
+                          {index > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+                          <button
+                            type="button"
+                            onClick={() => navigate(`/video-preview/${step.version_id}`)}
+                            className="hover:opacity-80"
+                          >
+                            <Badge variant="outline" className={`text-xs ${status.className}`}>
+                              v{versionNumbers[step.version_id] ?? "?"} · {status.label}
+                            </Badge>
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, MapPin, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+import { db, type Row, type SelectRow } from "@/lib/database-config";
+import { errorMessage } from "@/lib/utils";
+import { feedbackAuthorName } from "@/lib/review-links";
+import { DEFAULT_FRAME_RATE, formatClock, formatTimecode } from "@/lib/timecode";
+import { detectMediaKind } from "@/lib/video-platform";
+import {
+  TASK_COLUMNS,
+  TASK_STATUS_LABELS,
+  taskProgress,
+  updateFeedbackTask,
+  type FeedbackTask,
+  type TaskStatus
+} from "@/lib/feedback-tasks";
+
+const COMMENT_COLUMNS = "id, user_id, guest_name, comment_text, timestamp_seconds, end_seconds, pin_x, created_at";
+
+type TaskComment = SelectRow<"video_feedback", typeof COMMENT_COLUMNS>;
+
+interface FeedbackTaskBoardProps {
+  version: Row<"video_versions"> | null;
+  onClose: () => void;
+  /** Called after a task changes, so progress elsewhere can be refreshed */
+  onTasksUpdate: () => void;
+  /** Creator and editor work through the tasks; everyone else sees them */
+  canManage: boolean;
+  /** People on the project, offered as assignees */
+  memberIds: string[];
+}
+
+const UNASSIGNED = "unassigned";
+
+export const FeedbackTaskBoard = ({ version, onClose, onTasksUpdate, canManage, memberIds }: FeedbackTaskBoardProps) => {
+  const navigate = useNavigate();
+  const [tasks, setTasks] = useState<FeedbackTask[]>([]);
+  const [comments, setComments] = useState<Record<string, TaskComment>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [waiving, setWaiving] = useState<FeedbackTask | null>(null);
+  const [waiveReason, setWaiveReason] = useState("");
+
+  const loadTasks = async (versionId: string) => {
+    setLoading(true);
+    try {
+      const taskRows = await db.query({
+        collection: "feedback_tasks",
+        operation: "select",
+        where: { version_id: versionId },
+        orderBy: { column: "created_at", ascending: true }
+      });
+      setTasks(taskRows || []);
+
+      const feedbackIds = (taskRows || []).map((task) => task.feedback_id);
+      const feedbackRows = feedbackIds.length
+        ? await db.query({
+            collection: "video_feedback",
+            operation: "select",
+            select: COMMENT_COLUMNS,
+            where: { id: { in: feedbackIds } }
+          })
+        : [];
+      setComments(Object.fromEntries((feedbackRows || []).map((item) => [item.id, item])));
+
+      const userIds = [
+        ...new Set([
+          ...memberIds,
+          ...(feedbackRows || []).map((item) => item.user_id),
+          ...(taskRows || []).map((task) => task.assignee_id)
+        ].filter(Boolean))
+      ];
+      if (userIds.length > 0) {
+        const profiles = await db.query({
+          collection: "profiles",
+          operation: "select",
+          select: "id, full_name, email",
+          where: { id: { in: userIds } }
+        });
+        setNames(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name || profile.email])));
+      }
+    } catch (error) {
+      console.error("Error loading feedback tasks:", error);
+      toast.error("Failed to load feedback tasks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (version) loadTasks(version.id);
+  }, [version]);
+
+  const saveTask = async (task: FeedbackTask, data: Parameters<typeof updateFeedbackTask>[1]) => {
+    try {
+      await updateFeedbackTask(task.id, data);
+      // The server drops the waiver reason once a task is no longer waived
+      const reason = data.status && data.status !== "waived" ? { waived_reason: null } : {};
+      setTasks((current) => current.map((item) => (item.id === task.id ? { ...item, ...data, ...reason } : item)));
+      onTasksUpdate();
+    } catch (error) {
+      console.error("Error updating feedback task:", error);
+      toast.error(errorMessage(error, "Failed to update task"));
+    }
+  };
+
+  const handleStatusChange = (task: FeedbackTask, status: TaskStatus) => {
+    if (status === "waived") {
+      setWaiving(task);
+      setWaiveReason("");
+      return;
+    }
+    saveTask(task, { status });
+  };
+
+  const handleWaive = async () => {
+    if (!waiving) return;
+    if (!waiveReason.trim()) {
+      toast.error("Please say why this is being waived");
+      return;
+    }
+    await saveTask(waiving, { status: "waived", waived_reason: waiveReason.trim() });
+    setWaiving(null);
+  };
+
+  const frameRate = Number(version?.frame_rate) || DEFAULT_FRAME_RATE;
+  const kind = detectMediaKind(version?.preview_url);
+  const formatTime = (seconds: number) => (kind === "video" ? formatTimecode(seconds, frameRate) : formatClock(seconds));
+  const progress = taskProgress(tasks);
+  const assignees = [...new Set([...memberIds, ...tasks.map((task) => task.assignee_id).filter(Boolean)])];
+
+  const renderTask = (task: FeedbackTask) => {
+    const comment = comments[task.feedback_id];
+    const status = task.status as TaskStatus;
+
+    return (
+      <div key={task.id} className="space-y-2 rounded-lg border bg-card p-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium truncate">{comment ? feedbackAuthorName(comment, names) : "Comment removed"}</span>
+          {comment && (comment.timestamp_seconds !== null || comment.pin_x !== null) && (
+            // Opens the preview at the comment: its time on the timeline or its pin on the still
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs shrink-0"
+              onClick={() => navigate(`/video-preview/${version.id}?feedback=${task.feedback_id}`)}
+            >
+              {comment.timestamp_seconds !== null ? (
+                <>
+                  <Clock className="w-3 h-3 mr-1" />
+                  {formatTime(Number(comment.timestamp_seconds))}
+                  {comment.end_seconds !== null && ` - ${formatTime(Number(comment.end_seconds))}`}
+                </>
+              ) : (
+                <>
+                  <MapPin className="w-3 h-3 mr-1" />
+                  Pin
+                </>
+              )}
+            </Button>
+          )}
+        </div>
+        <p className="text-sm whitespace-pre-wrap line-clamp-4">{comment?.comment_text}</p>
+        {status === "waived" && task.waived_reason && (
+          <p className="text-xs text-muted-foreground italic">Waived: {task.waived_reason}</p>
+        )}
+        {canManage ? (
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={status} onValueChange={(value) => handleStatusChange(task, value as TaskStatus)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {TASK_STATUS_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={task.assignee_id || UNASSIGNED}
+              onValueChange={(value) => saveTask(task, { assignee_id: value === UNASSIGNED ? null : value })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees.map((userId) => (
+                  <SelectItem key={userId} value={userId}>
+                    {names[userId] || "Unknown"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {status === "waived" && <Badge variant="secondary">Waived</Badge>}
+            {task.assignee_id && <span>Assigned to {names[task.assignee_id] || "Unknown"}</span>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={!!version} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Feedback Tasks · v{version?.version_number}</DialogTitle>
+            <DialogDescription>
+              Each comment on this version is a task. The next version goes to review once all of them are done or waived.
+            </DialogDescription>
+          </DialogHeader>
+
+          {progress.total > 0 && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {progress.addressed}/{progress.total} addressed
+                </span>
+                <span className="text-muted-foreground">{Math.round((progress.addressed / progress.total) * 100)}%</span>
+              </div>
+              <Progress value={(progress.addressed / progress.total) * 100} />
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading tasks...</p>
+          ) : tasks.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+              <MessageSquare className="w-6 h-6" />
+              <p className="text-sm">No feedback on this version yet</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-h-[60vh] overflow-y-auto">
+              {TASK_COLUMNS.map((column) => {
+                const columnTasks = tasks.filter((task) => column.statuses.includes(task.status as TaskStatus));
+                return (
+                  <div key={column.title} className="space-y-2 rounded-lg bg-muted/50 p-3">
+                    <h4 className="text-sm font-medium">
+                      {column.title} ({columnTasks.length})
+                    </h4>
+                    {columnTasks.map(renderTask)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!waiving} onOpenChange={(open) => !open && setWaiving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive Task</DialogTitle>
+            <DialogDescription>The task stops holding up the next version; everyone on the project can see why</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="waive_reason">Reason *</Label>
+            <Textarea
+              id="waive_reason"
+              value={waiveReason}
+              onChange={(e) => setWaiveReason(e.target.value)}
+              placeholder="e.g. Agreed with the client to leave as is"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setWaiving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleWaive}>Waive</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
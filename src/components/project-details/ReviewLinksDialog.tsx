@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Copy, Download, Link as LinkIcon, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { db, type Row, type SelectRow } from "@/lib/database-config";
+import { errorMessage } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { LINK_EXPIRY_OPTIONS, reviewLinkStatus, reviewLinkUrl } from "@/lib/review-links";
+
+// password_hash stays on the server
+const LINK_COLUMNS = "id, token, has_password, expires_at, allow_download, created_at, revoked_at";
+
+type ReviewLink = SelectRow<"review_links", typeof LINK_COLUMNS>;
+
+interface ReviewLinksDialogProps {
+  version: Row<"video_versions"> | null;
+  onClose: () => void;
+}
+
+const STATUS_BADGES = {
+  active: <Badge className="bg-success">Active</Badge>,
+  expired: <Badge variant="secondary">Expired</Badge>,
+  revoked: <Badge variant="destructive">Revoked</Badge>
+};
+
+export const ReviewLinksDialog = ({ version, onClose }: ReviewLinksDialogProps) => {
+  const [links, setLinks] = useState<ReviewLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [password, setPassword] = useState("");
+  const [expiry, setExpiry] = useState("7");
+  const [allowDownload, setAllowDownload] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const loadLinks = async (versionId: string) => {
+    setLoading(true);
+    try {
+      const data = await db.query({
+        collection: "review_links",
+        operation: "select",
+        select: LINK_COLUMNS,
+        where: { version_id: versionId },
+        orderBy: { column: "created_at", ascending: false }
+      });
+      setLinks(data || []);
+    } catch (error) {
+      console.error("Error loading review links:", error);
+      toast.error("Failed to load review links");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (version) {
+      setPassword("");
+      setExpiry("7");
+      setAllowDownload(false);
+      loadLinks(version.id);
+    }
+  }, [version]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(reviewLinkUrl(token));
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!version) return;
+
+    const days = LINK_EXPIRY_OPTIONS.find((option) => String(option.days) === expiry)?.days ?? null;
+    setCreating(true);
+    try {
+      const { data, error } = await supabase.rpc("create_review_link", {
+        _version_id: version.id,
+        _password: password || null,
+        _expires_at: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+        _allow_download: allowDownload
+      });
+      if (error) throw error;
+
+      setPassword("");
+      await copyLink(data.token);
+      loadLinks(version.id);
+    } catch (error) {
+      console.error("Error creating review link:", error);
+      toast.error(errorMessage(error, "Failed to create review link"));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ReviewLink) => {
+    if (!confirm("Revoke this link? Anyone using it will lose access.")) return;
+
+    try {
+      await db.query({
+        collection: "review_links",
+        operation: "update",
+        where: { id: link.id },
+        data: { revoked_at: new Date().toISOString() }
+      });
+      toast.success("Link revoked");
+      loadLinks(version.id);
+    } catch (error) {
+      console.error("Error revoking review link:", error);
+      toast.error(errorMessage(error, "Failed to revoke link"));
+    }
+  };
+
+  return (
+    <Dialog open={!!version} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share Version {version?.version_number}</DialogTitle>
+          <DialogDescription>
+            Anyone with a review link can watch this version and leave comments under their name, without an account
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-4 rounded-lg border p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="review_link_password">Password (optional)</Label>
+              <Input
+                id="review_link_password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="No password"
+              />
+            </div>
+            <div>
+              <Label htmlFor="review_link_expiry">Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="review_link_expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINK_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.label} value={String(option.days)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="review_link_download" checked={allowDownload} onCheckedChange={setAllowDownload} />
+              <Label htmlFor="review_link_download">Allow download</Label>
+            </div>
+            <Button type="submit" disabled={creating}>
+              <LinkIcon className="w-4 h-4 mr-2" />
+              {creating ? "Creating..." : "Create & Copy Link"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Loading links...</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No review links for this version yet</p>
+          ) : (
+            links.map((link) => {
+              const status = reviewLinkStatus(link);
+              return (
+                <div key={link.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {STATUS_BADGES[status]}
+                      {link.has_password && <Lock className="w-3 h-3 text-muted-foreground" aria-label="Password protected" />}
+                      {link.allow_download && <Download className="w-3 h-3 text-muted-foreground" aria-label="Downloads allowed" />}
+                      <span className="text-xs text-muted-foreground">
+                        Created {new Date(link.created_at).toLocaleDateString()}
+                        {link.expires_at && ` · expires ${new Date(link.expires_at).toLocaleString()}`}
+                      </span>
+                    </div>
+                    <p className="text-xs font-mono text-muted-foreground truncate">{reviewLinkUrl(link.token)}</p>
+                  </div>
+                  {status === "active" && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button size="sm" variant="outline" onClick={() => copyLink(link.token)}>
+                        <Copy className="w-3 h-3 mr-1" />
+                        Copy
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => handleRevoke(link)}>
+                        <Ban className="w-3 h-3 mr-1" />
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
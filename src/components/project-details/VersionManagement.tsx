@@ -1,17 +1,47 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Edit, Trash2, CheckCircle, XCircle, AlertCircle, Eye, Link as LinkIcon, Play } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Trash2, CheckCircle, XCircle, AlertCircle, Eye, Link as LinkIcon, Play, Columns2, Image as ImageIcon, Share2, History, ListChecks, Send } from "lucide-react";
 import { toast } from "sonner";
-import { db } from "@/lib/database-config";
+import { db, type Row } from "@/lib/database-config";
+import { errorMessage } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_FRAME_RATE, FRAME_RATES, formatFrameRate } from "@/lib/timecode";
+import { getPlaybackUrl, isStoredVideo, removeStoredVideos } from "@/lib/video-storage";
+import { canGenerateMedia, generateVersionMedia, mediaFiles, parseVersionMedia } from "@/lib/version-media";
+import { detectMediaKind } from "@/lib/video-platform";
+import { VideoSourceField } from "./VideoSourceField";
+import { VersionThumbnail } from "./VersionThumbnail";
+import { ReviewLinksDialog } from "./ReviewLinksDialog";
+import { FeedbackTaskBoard } from "./FeedbackTaskBoard";
+import {
+  APPROVAL_DECISION_LABELS,
+  approvalProgress,
+  currentStage,
+  recordApprovalDecision,
+  type ApprovalDecision,
+  type ApprovalLogEntry,
+  type ApprovalStage
+} from "@/lib/approval-workflow";
+import { openTasksBefore, taskProgress, type FeedbackTask } from "@/lib/feedback-tasks";
+
+type Version = Row<"video_versions">;
+
+const emptyForm = {
+  preview_url: "",
+  preview_sha256: null as string | null,
+  final_url: "",
+  final_sha256: null as string | null,
+  frame_rate: String(DEFAULT_FRAME_RATE)
+};
 
 interface VersionManagementProps {
   projectId: string;
@@ -19,16 +49,36 @@ interface VersionManagementProps {
   onVersionsUpdate: () => void;
   userRole: string | null;
   isProjectCreator?: boolean;
+  currentUserId?: string | null;
+  approvalStages?: ApprovalStage[];
+  /** People on the project, offered as task assignees */
+  memberIds?: string[];
 }
 
-export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userRole, isProjectCreator = false }: VersionManagementProps) => {
+export const VersionManagement = ({
+  projectId,
+  versions,
+  onVersionsUpdate,
+  userRole,
+  isProjectCreator = false,
+  currentUserId = null,
+  approvalStages = [],
+  memberIds = []
+}: VersionManagementProps) => {
   const navigate = useNavigate();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingVersion, setEditingVersion] = useState<any>(null);
-  const [formData, setFormData] = useState({
-    preview_url: "",
-    final_url: ""
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  // Files uploaded from the open dialog, deleted again unless the version is saved with them
+  const [pendingUploads, setPendingUploads] = useState<string[]>([]);
+  const [previewUploading, setPreviewUploading] = useState(false);
+  const [finalUploading, setFinalUploading] = useState(false);
+  // Versions whose thumbnails and waveform are being generated in this tab
+  const [generatingMedia, setGeneratingMedia] = useState<string[]>([]);
+  // Unresolved comments on the latest version, offered for carrying over to a new one
+  const [openFeedbackCount, setOpenFeedbackCount] = useState(0);
+  const [carryForward, setCarryForward] = useState(true);
+  const [sendToReview, setSendToReview] = useState(true);
   
   const [feedbackDialogOpen, setFeedbackDialogOpen] = useState(false);
   const [feedbackText, setFeedbackText] = useState("");
@@ -39,8 +89,89 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
   
   const [finalLinkDialogOpen, setFinalLinkDialogOpen] = useState(false);
   const [finalLinkInput, setFinalLinkInput] = useState("");
+  const [finalLinkSha256, setFinalLinkSha256] = useState<string | null>(null);
   const [selectedVersionForFinalLink, setSelectedVersionForFinalLink] = useState<any>(null);
 
+  const [sharingVersion, setSharingVersion] = useState<Version | null>(null);
+
+  const [approvalLog, setApprovalLog] = useState<ApprovalLogEntry[]>([]);
+  const [peopleNames, setPeopleNames] = useState<Record<string, string>>({});
+  const [logVersion, setLogVersion] = useState<Version | null>(null);
+
+  const [tasks, setTasks] = useState<Pick<FeedbackTask, 'id' | 'version_id' | 'status'>[]>([]);
+  const [taskVersion, setTaskVersion] = useState<Version | null>(null);
+
+  useEffect(() => {
+    loadApprovalLog();
+  }, [versions, approvalStages]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [versions]);
+
+  const loadTasks = async () => {
+    if (versions.length === 0) {
+      setTasks([]);
+      return;
+    }
+
+    try {
+      const rows = await db.query({
+        collection: 'feedback_tasks',
+        operation: 'select',
+        select: 'id, version_id, status',
+        where: { version_id: { in: versions.map((version) => version.id) } }
+      });
+      setTasks(rows || []);
+    } catch (error) {
+      console.error("Error loading feedback tasks:", error);
+    }
+  };
+
+  const loadApprovalLog = async () => {
+    if (versions.length === 0) {
+      setApprovalLog([]);
+      return;
+    }
+
+    try {
+      const log = await db.query({
+        collection: 'approval_log',
+        operation: 'select',
+        where: { version_id: { in: versions.map((version) => version.id) } },
+        orderBy: { column: 'created_at', ascending: true }
+      });
+      setApprovalLog(log || []);
+
+      // Reviewers still to sign off are named as well as those in the log
+      const userIds = [...new Set([...(log || []).map((entry) => entry.user_id), ...approvalStages.flatMap((stage) => stage.reviewer_ids)])];
+      if (userIds.length > 0) {
+        const profiles = await db.query({
+          collection: 'profiles',
+          operation: 'select',
+          select: 'id, full_name, email',
+          where: { id: { in: userIds } }
+        });
+        setPeopleNames(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name || profile.email])));
+      }
+    } catch (error) {
+      console.error("Error loading approval log:", error);
+    }
+  };
+
+  // The stage a pending version waits on, and whether the current user is one of those it waits for
+  const approvalState = (version: Version) => {
+    const progress = approvalProgress(approvalStages, approvalLog, version.id);
+    const stage = currentStage(progress);
+    const canDecide =
+      version.approval_status === 'pending' &&
+      !!version.ready_for_review_at &&
+      (approvalStages.length
+        ? !!stage && !!currentUserId && stage.stage.reviewer_ids.includes(currentUserId) && !stage.approvedBy.includes(currentUserId)
+        : userRole === 'client');
+    return { progress, stage, canDecide };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -59,42 +190,81 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
       return;
     }
 
+    if (previewUploading || finalUploading) {
+      toast.error("Please wait for the upload to finish");
+      return;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
       if (editingVersion) {
+        const previewChanged = editingVersion.preview_url !== formData.preview_url;
         await db.query({
           collection: 'video_versions',
           operation: 'update',
           where: { id: editingVersion.id },
           data: {
             preview_url: formData.preview_url,
-            final_url: formData.final_url || null
+            preview_sha256: formData.preview_sha256,
+            final_url: formData.final_url || null,
+            final_sha256: formData.final_url ? formData.final_sha256 : null,
+            frame_rate: Number(formData.frame_rate),
+            ...(previewChanged && { media: null })
           }
         });
+        // Files replaced by this edit are no longer referenced anywhere
+        discardStoredVideos([editingVersion.preview_url, editingVersion.final_url].filter(
+          (url) => url !== formData.preview_url && url !== formData.final_url
+        ));
+        if (previewChanged) {
+          discardStoredVideos(mediaFiles(parseVersionMedia(editingVersion.media)));
+          generateMedia({ ...editingVersion, preview_url: formData.preview_url, media: null });
+        }
         toast.success("Version updated successfully");
       } else {
         const nextVersionNumber = versions.length > 0 
           ? Math.max(...versions.map(v => v.version_number)) + 1 
           : 1;
+        const previousVersion = getLatestVersion();
 
-        await db.query({
+        const inserted = await db.query({
           collection: 'video_versions',
           operation: 'insert',
           data: {
             project_id: projectId,
             version_number: nextVersionNumber,
             preview_url: formData.preview_url,
+            preview_sha256: formData.preview_sha256,
             final_url: formData.final_url || null,
+            final_sha256: formData.final_url ? formData.final_sha256 : null,
+            frame_rate: Number(formData.frame_rate),
             uploaded_by: user.id,
-            approval_status: 'pending'
+            approval_status: 'pending',
+            // Held back as a draft while earlier feedback is still open; the server checks this too
+            ready_for_review_at: reviewAvailable && sendToReview && blockingTasks.length === 0 ? new Date().toISOString() : null
           }
         });
-        toast.success("Version added successfully");
+        generateMedia(inserted);
+
+        if (previousVersion && carryForward && openFeedbackCount > 0) {
+          try {
+            const carried = await db.rpc('carry_forward_feedback', {
+              _from_version_id: previousVersion.id,
+              _to_version_id: inserted.id
+            });
+            toast.success(`Version added with ${carried} open comment${carried === 1 ? "" : "s"} from v${previousVersion.version_number}`);
+          } catch (carryError) {
+            console.error("Error carrying feedback forward:", carryError);
+            toast.error("Version added, but its feedback could not be carried over");
+          }
+        } else {
+          toast.success("Version added successfully");
+        }
       }
 
-      handleDialogClose();
+      handleDialogClose([formData.preview_url, formData.final_url]);
       onVersionsUpdate();
     } catch (error: any) {
       console.error("Error saving version:", error);
@@ -102,22 +272,57 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
     }
   };
 
+  const getLatestVersion = () =>
+    versions.reduce<Version | null>((latest, version) => (!latest || version.version_number > latest.version_number ? version : latest), null);
+
+  // Open tasks that keep a version numbered after every existing one out of review
+  const blockingTasks = openTasksBefore(tasks, versions, Infinity);
+
+  // Review and sign-off run in Supabase's database functions, so other providers keep versions as drafts
+  const reviewAvailable = db.getCurrentProvider() === 'supabase';
+
+  const openAddDialog = async () => {
+    const latest = getLatestVersion();
+    setCarryForward(true);
+    setSendToReview(true);
+    setOpenFeedbackCount(0);
+    // New cuts usually keep the frame rate of the one before
+    if (latest?.frame_rate) setFormData((current) => ({ ...current, frame_rate: String(Number(latest.frame_rate)) }));
+    setDialogOpen(true);
+
+    if (!latest) return;
+    try {
+      const count = await db.query({
+        collection: 'video_feedback',
+        operation: 'count',
+        where: { version_id: latest.id, parent_id: null, is_resolved: false }
+      });
+      setOpenFeedbackCount(count || 0);
+    } catch (error) {
+      console.error("Error counting open feedback:", error);
+    }
+  };
+
   const handleEdit = (version: any) => {
     setEditingVersion(version);
     setFormData({
       preview_url: version.preview_url || "",
-      final_url: version.final_url || ""
+      preview_sha256: version.preview_sha256 || null,
+      final_url: version.final_url || "",
+      final_sha256: version.final_sha256 || null,
+      frame_rate: String(Number(version.frame_rate) || DEFAULT_FRAME_RATE)
     });
     setDialogOpen(true);
   };
 
-  const handleDelete = async (versionId: string) => {
+  const handleDelete = async (version: Version) => {
     try {
       await db.query({
         collection: 'video_versions',
         operation: 'delete',
-        where: { id: versionId }
+        where: { id: version.id }
       });
+      discardStoredVideos([version.preview_url, version.final_url, ...mediaFiles(parseVersionMedia(version.media))]);
       toast.success("Version deleted successfully");
       onVersionsUpdate();
     } catch (error) {
@@ -126,51 +331,44 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
     }
   };
 
-  const handleApprovalAction = async (versionId: string, status: 'approved' | 'rejected' | 'corrections_needed') => {
+  const handleMarkReady = async (version: Version) => {
+    try {
+      await db.query({
+        collection: 'video_versions',
+        operation: 'update',
+        where: { id: version.id },
+        data: { ready_for_review_at: new Date().toISOString() }
+      });
+      toast.success(`v${version.version_number} is ready for review`);
+      onVersionsUpdate();
+    } catch (error) {
+      console.error("Error marking version ready:", error);
+      toast.error(errorMessage(error, "Failed to send version to review"));
+    }
+  };
+
+  const handleApprovalAction = async (versionId: string, status: ApprovalDecision) => {
     if (status === 'corrections_needed') {
       const version = versions.find(v => v.id === versionId);
       setSelectedVersionForFeedback(version);
-      setFeedbackText(version?.correction_notes || "");
+      setFeedbackText("");
       setFeedbackDialogOpen(true);
       return;
     }
 
-    if (status === 'approved') {
-      try {
-        await db.query({
-          collection: 'video_versions',
-          operation: 'update',
-          where: { id: versionId },
-          data: { 
-            approval_status: status,
-            is_approved: true,
-            final_link_requested: true
-          }
-        });
+    try {
+      const updated = await recordApprovalDecision(versionId, status);
+      if (updated.approval_status === 'approved') {
         toast.success("Version approved! Editor can now add final link.");
-        onVersionsUpdate();
-      } catch (error) {
-        console.error("Error updating approval status:", error);
-        toast.error("Failed to update approval status");
+      } else if (status === 'approved') {
+        toast.success("Your approval has been recorded");
+      } else {
+        toast.success(`Version ${status}`);
       }
-      return;
-    }
-
-    try {
-      await db.query({
-        collection: 'video_versions',
-        operation: 'update',
-        where: { id: versionId },
-        data: { 
-          approval_status: status,
-          is_approved: false
-        }
-      });
-      toast.success(`Version ${status}`);
       onVersionsUpdate();
     } catch (error) {
-      console.error("Error updating approval status:", error);
-      toast.error("Failed to update approval status");
+      console.error("Error recording approval decision:", error);
+      toast.error(errorMessage(error, "Failed to update approval status"));
     }
   };
 
@@ -181,16 +379,7 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
     }
 
     try {
-      await db.query({
-        collection: 'video_versions',
-        operation: 'update',
-        where: { id: selectedVersionForFeedback.id },
-        data: {
-          approval_status: 'corrections_needed',
-          correction_notes: feedbackText,
-          is_approved: false
-        }
-      });
+      await recordApprovalDecision(selectedVersionForFeedback.id, 'corrections_needed', feedbackText);
       toast.success("Feedback submitted successfully");
       setFeedbackDialogOpen(false);
       setFeedbackText("");
@@ -198,7 +387,7 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
       onVersionsUpdate();
     } catch (error) {
       console.error("Error submitting feedback:", error);
-      toast.error("Failed to submit feedback");
+      toast.error(errorMessage(error, "Failed to submit feedback"));
     }
   };
 
@@ -210,9 +399,19 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
   const handleOpenFinalLinkDialog = (version: any) => {
     setSelectedVersionForFinalLink(version);
     setFinalLinkInput(version.final_url || "");
+    setFinalLinkSha256(version.final_sha256 || null);
     setFinalLinkDialogOpen(true);
   };
 
+  const handleFinalLinkDialogClose = (kept: string[] = []) => {
+    discardStoredVideos(pendingUploads.filter((url) => !kept.includes(url)));
+    setPendingUploads([]);
+    setFinalLinkDialogOpen(false);
+    setFinalLinkInput("");
+    setFinalLinkSha256(null);
+    setSelectedVersionForFinalLink(null);
+  };
+
   const handleSubmitFinalLink = async () => {
     if (!finalLinkInput.trim()) {
       toast.error("Please enter final link");
@@ -224,6 +423,11 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
       return;
     }
 
+    if (finalUploading) {
+      toast.error("Please wait for the upload to finish");
+      return;
+    }
+
     try {
       await db.query({
         collection: 'video_versions',
@@ -231,13 +435,15 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
         where: { id: selectedVersionForFinalLink.id },
         data: {
           final_url: finalLinkInput,
+          final_sha256: finalLinkSha256,
           final_link_requested: false
         }
       });
+      if (selectedVersionForFinalLink.final_url !== finalLinkInput) {
+        discardStoredVideos([selectedVersionForFinalLink.final_url]);
+      }
       toast.success("Final link added successfully");
-      setFinalLinkDialogOpen(false);
-      setFinalLinkInput("");
-      setSelectedVersionForFinalLink(null);
+      handleFinalLinkDialogClose([finalLinkInput]);
       onVersionsUpdate();
     } catch (error) {
       console.error("Error adding final link:", error);
@@ -254,10 +460,63 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
     }
   };
 
-  const handleDialogClose = () => {
+  const discardStoredVideos = (urls: (string | null | undefined)[]) => {
+    removeStoredVideos(urls).catch((error) => console.error("Error removing stored videos:", error));
+  };
+
+  /** Reads thumbnails and a waveform from the version's video in the background */
+  const generateMedia = async (version: Version) => {
+    if (!canGenerateMedia(version.preview_url)) return;
+
+    setGeneratingMedia((current) => [...current, version.id]);
+    try {
+      const media = await generateVersionMedia(version.preview_url, projectId, version.id);
+      await db.query({
+        collection: 'video_versions',
+        operation: 'update',
+        where: { id: version.id },
+        data: { media }
+      });
+      discardStoredVideos(mediaFiles(parseVersionMedia(version.media)));
+      onVersionsUpdate();
+    } catch (error) {
+      console.error("Error generating version thumbnails:", error);
+      toast.error(`Thumbnails could not be generated for v${version.version_number}`);
+    } finally {
+      setGeneratingMedia((current) => current.filter((id) => id !== version.id));
+    }
+  };
+
+  const trackUpload = (url: string) => setPendingUploads((current) => [...current, url]);
+
+  // Stored files need a fresh signed URL; the tab is opened first so popup blockers allow it
+  const openVideo = async (url: string) => {
+    if (!isStoredVideo(url)) {
+      window.open(url, "_blank", "noopener,noreferrer");
+      return;
+    }
+
+    const tab = window.open("about:blank", "_blank");
+    try {
+      const signedUrl = await getPlaybackUrl(url);
+      if (tab) {
+        tab.opener = null;
+        tab.location.href = signedUrl;
+      }
+    } catch (error) {
+      tab?.close();
+      console.error("Error signing video URL:", error);
+      toast.error("Failed to open video");
+    }
+  };
+
+  /** `kept` are the URLs just saved; any other file uploaded from the dialog is deleted */
+  const handleDialogClose = (kept: string[] = []) => {
+    discardStoredVideos(pendingUploads.filter((url) => !kept.includes(url)));
+    setPendingUploads([]);
     setDialogOpen(false);
     setEditingVersion(null);
-    setFormData({ preview_url: "", final_url: "" });
+    setFormData(emptyForm);
   };
 
   const getApprovalBadge = (status: string) => {
@@ -279,6 +538,14 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
     );
   };
 
+  const approvalStates = Object.fromEntries(versions.map((version) => [version.id, approvalState(version)]));
+  const taskProgresses = Object.fromEntries(
+    versions.map((version) => [version.id, taskProgress(tasks.filter((task) => task.version_id === version.id))])
+  );
+  const blockingCounts = Object.fromEntries(
+    versions.map((version) => [version.id, openTasksBefore(tasks, versions, version.version_number).length])
+  );
+
   return (
     <>
       <Card className="shadow-elegant">
@@ -288,12 +555,20 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
               <CardTitle>Video Versions</CardTitle>
               <CardDescription>Manage different versions of the project video</CardDescription>
             </div>
-            {(userRole === 'editor' || isProjectCreator) && (
-              <Button onClick={() => setDialogOpen(true)}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Version
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {versions.length >= 2 && (
+                <Button variant="outline" onClick={() => navigate(`/projects/${projectId}/compare`)}>
+                  <Columns2 className="w-4 h-4 mr-2" />
+                  Compare
+                </Button>
+              )}
+              {(userRole === 'editor' || isProjectCreator) && (
+                <Button onClick={openAddDialog}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Version
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -314,7 +589,16 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
               <TableBody>
                 {versions.map((version) => (
                   <TableRow key={version.id}>
-                    <TableCell className="font-medium">v{version.version_number}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-3">
+                        <VersionThumbnail
+                          media={parseVersionMedia(version.media)}
+                          generating={generatingMedia.includes(version.id)}
+                          kind={detectMediaKind(version.preview_url)}
+                        />
+                        v{version.version_number}
+                      </div>
+                    </TableCell>
                     <TableCell>{new Date(version.created_at).toLocaleDateString()}</TableCell>
                     <TableCell>
                       {version.preview_url ? (
@@ -327,14 +611,13 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
                             <Play className="w-3 h-3 mr-1" />
                             Watch & Review
                           </Button>
-                          <a 
-                            href={version.preview_url} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
+                          <button
+                            type="button"
+                            onClick={() => openVideo(version.preview_url)}
                             className="text-primary hover:underline text-xs flex items-center"
                           >
-                            Open Direct Link
-                          </a>
+                            {isStoredVideo(version.preview_url) ? "Open File" : "Open Direct Link"}
+                          </button>
                         </div>
                       ) : (
                         <span className="text-muted-foreground">Not added</span>
@@ -342,14 +625,13 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
                     </TableCell>
                     <TableCell>
                       {version.final_url ? (
-                        <a 
-                          href={version.final_url} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
+                        <button
+                          type="button"
+                          onClick={() => openVideo(version.final_url)}
                           className="text-primary hover:underline font-semibold bg-success/10 px-2 py-1 rounded"
                         >
-                          View Final Link
-                        </a>
+                          {isStoredVideo(version.final_url) ? "View Final File" : "View Final Link"}
+                        </button>
                       ) : version.final_link_requested && (userRole === 'editor' || isProjectCreator) ? (
                         <Button 
                           size="sm" 
@@ -363,10 +645,57 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
                         <span className="text-muted-foreground">Not added</span>
                       )}
                     </TableCell>
-                    <TableCell>{getApprovalBadge(version.approval_status)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        {version.ready_for_review_at ? (
+                          getApprovalBadge(version.approval_status)
+                        ) : (
+                          <Badge variant="outline">Draft</Badge>
+                        )}
+                        {version.ready_for_review_at && version.approval_status === 'pending' && approvalStates[version.id].stage && (
+                          <p className="text-xs text-muted-foreground">
+                            Stage {approvalStates[version.id].progress.indexOf(approvalStates[version.id].stage!) + 1} of{" "}
+                            {approvalStages.length}: {approvalStates[version.id].stage!.stage.name}
+                            <br />
+                            Waiting on{" "}
+                            {approvalStates[version.id].stage!.stage.reviewer_ids
+                              .filter((id) => !approvalStates[version.id].stage!.approvedBy.includes(id))
+                              .map((id) => peopleNames[id] || "Unknown")
+                              .join(", ")}
+                          </p>
+                        )}
+                        {taskProgresses[version.id].total > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setTaskVersion(version)}
+                            className="flex items-center text-xs text-primary hover:underline"
+                          >
+                            <ListChecks className="w-3 h-3 mr-1" />
+                            {taskProgresses[version.id].addressed}/{taskProgresses[version.id].total} addressed
+                          </button>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex gap-2 flex-wrap">
-                        {userRole === 'client' && version.approval_status === 'pending' && (
+                        {reviewAvailable && (userRole === 'editor' || isProjectCreator) && !version.ready_for_review_at && (
+                          <Button
+                            size="sm"
+                            variant="default"
+                            disabled={blockingCounts[version.id] > 0}
+                            title={
+                              blockingCounts[version.id] > 0
+                                ? `${blockingCounts[version.id]} feedback task${blockingCounts[version.id] === 1 ? " is" : "s are"} still open on earlier versions`
+                                : undefined
+                            }
+                            onClick={() => handleMarkReady(version)}
+                          >
+                            <Send className="w-3 h-3 mr-1" />
+                            Ready for Review
+                          </Button>
+                        )}
+
+                        {approvalStates[version.id].canDecide && (
                           <>
                             <Button 
                               size="sm" 
@@ -396,6 +725,17 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
                           </>
                         )}
                         
+                        {approvalLog.some((entry) => entry.version_id === version.id) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setLogVersion(version)}
+                          >
+                            <History className="w-3 h-3 mr-1" />
+                            Approval Log
+                          </Button>
+                        )}
+
                         {version.correction_notes && (
                           <Button 
                             size="sm" 
@@ -407,6 +747,31 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
                           </Button>
                         )}
 
+                        {(userRole === 'editor' || isProjectCreator) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setSharingVersion(version)}
+                          >
+                            <Share2 className="w-3 h-3 mr-1" />
+                            Share
+                          </Button>
+                        )}
+
+                        {(userRole === 'editor' || isProjectCreator) &&
+                          !version.media &&
+                          canGenerateMedia(version.preview_url) &&
+                          !generatingMedia.includes(version.id) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => generateMedia(version)}
+                          >
+                            <ImageIcon className="w-3 h-3 mr-1" />
+                            Generate Thumbnails
+                          </Button>
+                        )}
+
                         {(userRole === 'editor' || isProjectCreator) && version.approval_status === 'pending' && (
                           <>
                             <Button 
@@ -420,7 +785,7 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
                             <Button 
                               size="sm" 
                               variant="destructive"
-                              onClick={() => handleDelete(version.id)}
+                              onClick={() => handleDelete(version)}
                             >
                               <Trash2 className="w-3 h-3 mr-1" />
                               Delete
@@ -438,7 +803,7 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
       </Card>
 
       {/* Add/Edit Version Dialog */}
-      <Dialog open={dialogOpen} onOpenChange={handleDialogClose}>
+      <Dialog open={dialogOpen} onOpenChange={() => handleDialogClose()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>{editingVersion ? "Edit Version" : "Add New Version"}</DialogTitle>
@@ -448,33 +813,81 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
           </DialogHeader>
           <form onSubmit={handleSubmit}>
             <div className="space-y-4">
+              <VideoSourceField
+                id="preview_url"
+                label="Preview URL *"
+                projectId={projectId}
+                value={formData.preview_url}
+                onChange={(url, sha256) => setFormData((current) => ({ ...current, preview_url: url, preview_sha256: sha256 }))}
+                onUploaded={trackUpload}
+                onBusyChange={setPreviewUploading}
+                required
+              />
+              <VideoSourceField
+                id="final_url"
+                label="Final URL (Optional)"
+                projectId={projectId}
+                value={formData.final_url}
+                onChange={(url, sha256) => setFormData((current) => ({ ...current, final_url: url, final_sha256: sha256 }))}
+                onUploaded={trackUpload}
+                onBusyChange={setFinalUploading}
+              />
               <div>
-                <Label htmlFor="preview_url">Preview URL *</Label>
-                <Input
-                  id="preview_url"
-                  type="url"
-                  placeholder="https://..."
-                  value={formData.preview_url}
-                  onChange={(e) => setFormData({ ...formData, preview_url: e.target.value })}
-                  required
-                />
-              </div>
-              <div>
-                <Label htmlFor="final_url">Final URL (Optional)</Label>
-                <Input
-                  id="final_url"
-                  type="url"
-                  placeholder="https://..."
-                  value={formData.final_url}
-                  onChange={(e) => setFormData({ ...formData, final_url: e.target.value })}
-                />
+                <Label htmlFor="frame_rate">Frame Rate</Label>
+                <Select value={formData.frame_rate} onValueChange={(value) => setFormData({ ...formData, frame_rate: value })}>
+                  <SelectTrigger id="frame_rate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FRAME_RATES.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>
+                        {formatFrameRate(rate)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+              {!editingVersion && openFeedbackCount > 0 && (
+                <div className="flex items-start gap-2 rounded-md border p-3">
+                  <Checkbox
+                    id="carry_forward"
+                    checked={carryForward}
+                    onCheckedChange={(checked) => setCarryForward(checked === true)}
+                  />
+                  <div className="grid gap-1">
+                    <Label htmlFor="carry_forward">
+                      Carry {openFeedbackCount} unresolved comment{openFeedbackCount === 1 ? "" : "s"} from v{getLatestVersion()?.version_number}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      Reviewers can then check off what was addressed in the new version
+                    </p>
+                  </div>
+                </div>
+              )}
+              {!editingVersion && reviewAvailable && (
+                <div className="flex items-start gap-2 rounded-md border p-3">
+                  <Checkbox
+                    id="send_to_review"
+                    checked={sendToReview && blockingTasks.length === 0}
+                    disabled={blockingTasks.length > 0}
+                    onCheckedChange={(checked) => setSendToReview(checked === true)}
+                  />
+                  <div className="grid gap-1">
+                    <Label htmlFor="send_to_review">Ready for review</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {blockingTasks.length > 0
+                        ? `${blockingTasks.length} feedback task${blockingTasks.length === 1 ? " is" : "s are"} still open on earlier versions, so this version is saved as a draft until they are done or waived`
+                        : "Reviewers are asked to sign off straight away; leave unticked to keep it as a draft"}
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
             <DialogFooter className="mt-6">
-              <Button type="button" variant="outline" onClick={handleDialogClose}>
+              <Button type="button" variant="outline" onClick={() => handleDialogClose()}>
                 Cancel
               </Button>
-              <Button type="submit">
+              <Button type="submit" disabled={previewUploading || finalUploading}>
                 {editingVersion ? "Update" : "Add"} Version
               </Button>
             </DialogFooter>
@@ -534,7 +947,7 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
       </Dialog>
 
       {/* Final Link Dialog */}
-      <Dialog open={finalLinkDialogOpen} onOpenChange={setFinalLinkDialogOpen}>
+      <Dialog open={finalLinkDialogOpen} onOpenChange={() => handleFinalLinkDialogClose()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Add Final Link</DialogTitle>
@@ -543,27 +956,76 @@ export const VersionManagement = ({ projectId, versions, onVersionsUpdate, userR
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div>
-              <Label htmlFor="final_link">Final Video URL *</Label>
-              <Input
+            {selectedVersionForFinalLink && (
+              <VideoSourceField
                 id="final_link"
-                type="url"
-                placeholder="https://..."
+                label="Final Video URL *"
+                projectId={projectId}
                 value={finalLinkInput}
-                onChange={(e) => setFinalLinkInput(e.target.value)}
+                onChange={(url, sha256) => {
+                  setFinalLinkInput(url);
+                  setFinalLinkSha256(sha256);
+                }}
+                onUploaded={trackUpload}
+                onBusyChange={setFinalUploading}
               />
-            </div>
+            )}
           </div>
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => setFinalLinkDialogOpen(false)}>
+            <Button type="button" variant="outline" onClick={() => handleFinalLinkDialogClose()}>
               Cancel
             </Button>
-            <Button onClick={handleSubmitFinalLink}>
+            <Button onClick={handleSubmitFinalLink} disabled={finalUploading}>
               Add Final Link
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Approval Log Dialog */}
+      <Dialog open={!!logVersion} onOpenChange={(open) => !open && setLogVersion(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Approval Log for Version {logVersion?.version_number}</DialogTitle>
+            <DialogDescription>
+              Every sign-off and decision, in the order they were made
+            </DialogDescription>
+          </DialogHeader>
+          <ol className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {approvalLog
+              .filter((entry) => entry.version_id === logVersion?.id)
+              .map((entry) => (
+                <li key={entry.id} className="rounded-lg border p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      {peopleNames[entry.user_id] || "Unknown"} · {entry.stage_name}
+                    </span>
+                    {getApprovalBadge(entry.decision)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {APPROVAL_DECISION_LABELS[entry.decision as ApprovalDecision]} on {new Date(entry.created_at).toLocaleString()}
+                  </p>
+                  {entry.notes && <p className="text-sm whitespace-pre-wrap">{entry.notes}</p>}
+                </li>
+              ))}
+          </ol>
+          <DialogFooter>
+            <Button onClick={() => setLogVersion(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ReviewLinksDialog version={sharingVersion} onClose={() => setSharingVersion(null)} />
+
+      <FeedbackTaskBoard
+        version={taskVersion}
+        onClose={() => setTaskVersion(null)}
+        onTasksUpdate={loadTasks}
+        canManage={userRole === 'editor' || isProjectCreator}
+        memberIds={memberIds}
+      />
     </>
   );
 };
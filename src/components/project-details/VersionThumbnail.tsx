@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Film, Image as ImageIcon, Loader2, Music } from "lucide-react";
+import { usePlaybackUrl } from "@/hooks/use-playback-url";
+import { fetchWaveform, spriteTileStyle, waveformPath, type VersionMedia } from "@/lib/version-media";
+import type { MediaKind } from "@/lib/video-platform";
+
+interface VersionThumbnailProps {
+  media: VersionMedia | null;
+  generating?: boolean;
+  /** Picks the placeholder icon while there is no poster */
+  kind?: MediaKind;
+}
+
+const THUMBNAIL_WIDTH = 128;
+
+const KIND_ICONS: Record<MediaKind, typeof Film> = {
+  video: Film,
+  image: ImageIcon,
+  audio: Music
+};
+
+export const VersionThumbnail = ({ media, generating = false, kind = "video" }: VersionThumbnailProps) => {
+  const KindIcon = KIND_ICONS[kind];
+  const poster = usePlaybackUrl(media?.poster);
+  const sprite = usePlaybackUrl(media?.sprite?.url);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+  const { data: waveform } = useQuery({
+    queryKey: ["waveform", media?.waveform],
+    queryFn: () => fetchWaveform(media!.waveform!),
+    enabled: !!media?.waveform,
+    staleTime: Infinity
+  });
+
+  if (!media) {
+    return (
+      <div
+        className="flex aspect-video items-center justify-center rounded bg-muted text-muted-foreground"
+        style={{ width: THUMBNAIL_WIDTH }}
+        title={generating ? "Generating thumbnails" : undefined}
+      >
+        {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <KindIcon className="w-4 h-4" />}
+      </div>
+    );
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setScrubTime(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * media.duration);
+  };
+
+  return (
+    <div style={{ width: THUMBNAIL_WIDTH }}>
+      {/* Moving across the poster scrubs through the sprite sheet */}
+      <div
+        className="relative flex aspect-video items-center justify-center overflow-hidden rounded bg-muted text-muted-foreground"
+        onPointerMove={media.sprite ? handlePointerMove : undefined}
+        onPointerLeave={() => setScrubTime(null)}
+      >
+        {scrubTime !== null && media.sprite && sprite.url ? (
+          <>
+            <div style={spriteTileStyle(media.sprite, sprite.url, scrubTime, THUMBNAIL_WIDTH)} />
+            <div
+              className="absolute inset-y-0 w-px bg-primary"
+              style={{ left: `${(scrubTime / media.duration) * 100}%` }}
+            />
+          </>
+        ) : (
+          poster.url && <img src={poster.url} alt="" className="h-full w-full object-cover" loading="lazy" />
+        )}
+        {!media.poster && <KindIcon className="w-4 h-4" />}
+      </div>
+      {waveform && (
+        <svg
+          viewBox={`0 0 ${waveform.peaks.length} 2`}
+          preserveAspectRatio="none"
+          className="mt-1 h-4 w-full text-primary/70"
+          aria-hidden
+        >
+          <path d={waveformPath(waveform.peaks)} stroke="currentColor" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        </svg>
+      )}
+    </div>
+  );
+};
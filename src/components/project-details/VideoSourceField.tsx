@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { FileVideo, Pause, Play, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { errorMessage } from "@/lib/utils";
+import { isStoredVideo, storedFileName, uploadVideo, UploadPhase, VideoUpload } from "@/lib/video-storage";
+
+interface VideoSourceFieldProps {
+  id: string;
+  label: string;
+  projectId: string;
+  value: string;
+  /** `sha256` is set for uploaded files and null for typed links */
+  onChange: (url: string, sha256: string | null) => void;
+  /** Called with the uploaded URL once the file is stored, so an unsaved form can clean it up */
+  onUploaded?: (url: string) => void;
+  onBusyChange?: (busy: boolean) => void;
+  required?: boolean;
+}
+
+const phaseLabels: Record<UploadPhase, string> = {
+  hashing: "Calculating checksum",
+  uploading: "Uploading",
+  paused: "Paused",
+  verifying: "Verifying checksum",
+  done: "Uploaded"
+};
+
+export const VideoSourceField = ({ id, label, projectId, value, onChange, onUploaded, onBusyChange, required }: VideoSourceFieldProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadRef = useRef<VideoUpload | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [phase, setPhase] = useState<UploadPhase | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const busy = phase !== null && phase !== "done";
+
+  useEffect(() => {
+    onBusyChange?.(busy);
+  }, [busy, onBusyChange]);
+
+  // Closing the dialog mid-upload shouldn't leave a partial file behind
+  useEffect(() => () => {
+    uploadRef.current?.cancel();
+  }, []);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setProgress(0);
+    const upload = uploadVideo(file, projectId, {
+      onPhase: (next) => {
+        setPhase(next);
+        if (next !== "paused") setProgress(0);
+      },
+      onProgress: setProgress
+    });
+    uploadRef.current = upload;
+
+    try {
+      const stored = await upload.done;
+      onChange(stored.url, stored.sha256);
+      onUploaded?.(stored.url);
+      toast.success(`${file.name} uploaded and verified`);
+    } catch (error) {
+      if ((error as { name?: string } | null)?.name !== "AbortError") {
+        console.error("Error uploading video:", error);
+        toast.error(errorMessage(error, "Failed to upload video"));
+      }
+    } finally {
+      if (uploadRef.current === upload) uploadRef.current = null;
+      setPhase(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    await uploadRef.current?.cancel();
+  };
+
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      {busy ? (
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate font-medium">{fileName}</span>
+            <span className="text-muted-foreground whitespace-nowrap">
+              {phaseLabels[phase]} {Math.round(progress * 100)}%
+            </span>
+          </div>
+          <Progress value={progress * 100} />
+          <div className="flex justify-end gap-2">
+            {phase === "paused" ? (
+              <Button type="button" size="sm" variant="outline" onClick={() => uploadRef.current?.resume()}>
+                <Play className="w-3 h-3 mr-1" />
+                Resume
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={phase !== "uploading"}
+                onClick={() => uploadRef.current?.pause()}
+              >
+                <Pause className="w-3 h-3 mr-1" />
+                Pause
+              </Button>
+            )}
+            <Button type="button" size="sm" variant="ghost" onClick={handleCancel}>
+              <X className="w-3 h-3 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : isStoredVideo(value) ? (
+        <div className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+          <span className="flex items-center gap-2 truncate">
+            <FileVideo className="w-4 h-4 shrink-0 text-primary" />
+            <span className="truncate">{storedFileName(value)}</span>
+          </span>
+          <Button type="button" size="sm" variant="ghost" onClick={() => onChange("", null)}>
+            Use a link instead
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            id={id}
+            type="url"
+            placeholder="https://..."
+            value={value}
+            onChange={(e) => onChange(e.target.value, null)}
+            required={required}
+          />
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Upload
+          </Button>
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*,audio/*,image/*"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+    </div>
+  );
+};
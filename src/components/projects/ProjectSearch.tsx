@@ -1,30 +1,19 @@
-import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { Search } from "lucide-react";
 
 interface ProjectSearchProps {
-  onSearch: (query: string) => void;
-  debounceMs?: number;
+  value: string;
+  onChange: (query: string) => void;
 }
 
-export const ProjectSearch = ({ onSearch, debounceMs = 300 }: ProjectSearchProps) => {
-  const [searchQuery, setSearchQuery] = useState("");
-
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      onSearch(searchQuery);
-    }, debounceMs);
-
-    return () => clearTimeout(timer);
-  }, [searchQuery, debounceMs, onSearch]);
-
+export const ProjectSearch = ({ value, onChange }: ProjectSearchProps) => {
   return (
     <div className="relative w-full max-w-md">
       <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
       <Input
         placeholder="Search projects by name, type, or status..."
-        value={searchQuery}
-        onChange={(e) => setSearchQuery(e.target.value)}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
         className="pl-10"
       />
     </div>
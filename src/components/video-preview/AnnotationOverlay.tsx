@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ANNOTATION_COLORS,
+  type AnnotationPoint,
+  type AnnotationShape,
+  type AnnotationTool
+} from "@/lib/annotations";
+
+// Shorter strokes are treated as accidental clicks
+const MIN_SHAPE_SIZE = 0.005;
+
+const isTooSmall = (shape: AnnotationShape) => {
+  if (shape.type === "freehand") return shape.points.length < 2;
+  return Math.abs(shape.to.x - shape.from.x) < MIN_SHAPE_SIZE && Math.abs(shape.to.y - shape.from.y) < MIN_SHAPE_SIZE;
+};
+
+interface AnnotationOverlayProps {
+  shapes: AnnotationShape[];
+  /** When set, pointer input draws new shapes with this tool */
+  tool?: AnnotationTool | null;
+  color?: string;
+  onChange?: (shapes: AnnotationShape[]) => void;
+}
+
+export const AnnotationOverlay = ({ shapes, tool, color = ANNOTATION_COLORS[0], onChange }: AnnotationOverlayProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [current, setCurrent] = useState<AnnotationShape | null>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  const toPoint = (event: React.PointerEvent): AnnotationPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!tool) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPoint(event);
+    setCurrent(tool === "freehand" ? { type: tool, color, points: [point] } : { type: tool, color, from: point, to: point });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!current) return;
+    const point = toPoint(event);
+    setCurrent(current.type === "freehand" ? { ...current, points: [...current.points, point] } : { ...current, to: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!current) return;
+    if (!isTooSmall(current)) onChange?.([...shapes, current]);
+    setCurrent(null);
+  };
+
+  const px = (point: AnnotationPoint) => ({ x: point.x * size.width, y: point.y * size.height });
+
+  const renderShape = (shape: AnnotationShape, key: number) => {
+    const stroke = { stroke: shape.color, strokeWidth: 3, fill: "none", strokeLinecap: "round" as const, strokeLinejoin: "round" as const };
+
+    if (shape.type === "freehand") {
+      return <polyline key={key} {...stroke} points={shape.points.map((point) => `${px(point).x},${px(point).y}`).join(" ")} />;
+    }
+
+    const from = px(shape.from);
+    const to = px(shape.to);
+
+    if (shape.type === "rect") {
+      return (
+        <rect
+          key={key}
+          {...stroke}
+          x={Math.min(from.x, to.x)}
+          y={Math.min(from.y, to.y)}
+          width={Math.abs(to.x - from.x)}
+          height={Math.abs(to.y - from.y)}
+        />
+      );
+    }
+
+    // Arrowhead drawn in pixels so it keeps its shape on non-square frames
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    const head = 14;
+    const wing = (offset: number) =>
+      `${to.x - head * Math.cos(angle + offset)},${to.y - head * Math.sin(angle + offset)}`;
+
+    return (
+      <g key={key}>
+        <line {...stroke} x1={from.x} y1={from.y} x2={to.x} y2={to.y} />
+        <polyline {...stroke} points={`${wing(Math.PI / 6)} ${to.x},${to.y} ${wing(-Math.PI / 6)}`} />
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`absolute inset-0 w-full h-full ${tool ? "cursor-crosshair touch-none" : "pointer-events-none"}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setCurrent(null)}
+    >
+      {size.width > 0 && shapes.map(renderShape)}
+      {size.width > 0 && current && renderShape(current, shapes.length)}
+    </svg>
+  );
+};
@@ -0,0 +1,261 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Music, Pause, Play, Repeat, RotateCcw, RotateCw, Volume2, VolumeX } from "lucide-react";
+import { TimelineMarkers } from "@/components/video-preview/TimelineMarkers";
+import type { RangeDraft, TimeRange, TimelineMarker } from "@/components/video-preview/UniversalVideoPlayer";
+import { computeWaveform, fetchWaveform, waveformPath } from "@/lib/version-media";
+import { formatClock } from "@/lib/timecode";
+
+interface AudioReviewerProps {
+  url: string;
+  /** Stored waveform of the version; read from the file itself when missing */
+  waveformUrl?: string | null;
+  onTimeUpdate?: (time: number) => void;
+  markers?: TimelineMarker[];
+  /** Called when a marker is clicked; seeks to it when omitted */
+  onMarkerSelect?: (marker: TimelineMarker) => void;
+  /** Passing onRangeDraftChange enables the I/O shortcuts */
+  rangeDraft?: RangeDraft | null;
+  onRangeDraftChange?: (range: RangeDraft | null) => void;
+  /** Playback repeats between start and end while set */
+  loopRange?: TimeRange | null;
+  onLoopRangeChange?: (range: TimeRange | null) => void;
+}
+
+/** The player controls VideoPreview drives through the ref */
+export interface AudioReviewerHandle {
+  seekTo: (seconds: number) => void;
+  getCurrentTime: () => number;
+  play: () => void;
+  pause: () => void;
+  setMuted: (muted: boolean) => void;
+  getDuration: () => number;
+  isPaused: () => boolean;
+}
+
+const SKIP_SECONDS = 5;
+
+/** Waveform player for audio versions, with the same ref API as UniversalVideoPlayer */
+export const AudioReviewer = forwardRef<AudioReviewerHandle, AudioReviewerProps>(
+  ({ url, waveformUrl, onTimeUpdate, markers = [], onMarkerSelect, rangeDraft, onRangeDraftChange, loopRange, onLoopRangeChange }, ref) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [isMuted, setIsMuted] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+
+    const { data: waveform, isLoading: waveformLoading } = useQuery({
+      queryKey: ["waveform", waveformUrl || url],
+      queryFn: () => (waveformUrl ? fetchWaveform(waveformUrl) : computeWaveform(url)),
+      staleTime: Infinity
+    });
+
+    useEffect(() => {
+      onTimeUpdate?.(currentTime);
+    }, [currentTime, onTimeUpdate]);
+
+    const seek = (seconds: number) => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.currentTime = Math.min(Math.max(0, seconds), duration || seconds);
+      setCurrentTime(audio.currentTime);
+    };
+
+    useImperativeHandle(ref, () => ({
+      seekTo: seek,
+      getCurrentTime: () => audioRef.current?.currentTime || 0,
+      play: () => {
+        audioRef.current?.play().catch(() => undefined);
+      },
+      pause: () => audioRef.current?.pause(),
+      setMuted: (muted: boolean) => {
+        if (audioRef.current) audioRef.current.muted = muted;
+        setIsMuted(muted);
+      },
+      getDuration: () => duration,
+      isPaused: () => audioRef.current?.paused ?? true
+    }));
+
+    const handleTimeUpdate = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (loopRange && audio.currentTime >= loopRange.end) {
+        audio.currentTime = loopRange.start;
+      }
+      setCurrentTime(audio.currentTime);
+    };
+
+    useEffect(() => {
+      if (loopRange && audioRef.current) {
+        audioRef.current.currentTime = loopRange.start;
+        audioRef.current.play().catch(() => undefined);
+      }
+    }, [loopRange]);
+
+    const handlePlayPause = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (audio.paused) {
+        audio.play().catch(() => undefined);
+      } else {
+        audio.pause();
+      }
+    };
+
+    const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (duration <= 0) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      seek(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const selectMarker = (marker: TimelineMarker) => {
+      if (onMarkerSelect) {
+        onMarkerSelect(marker);
+      } else {
+        seek(marker.start);
+      }
+    };
+
+    // Space plays and pauses; I and O mark a range comment at the playhead, as in the video player
+    useEffect(() => {
+      const onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null;
+        if (target?.closest("input, textarea, select, button, [contenteditable='true']")) return;
+        if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+        const key = event.key.toLowerCase();
+        const time = audioRef.current?.currentTime ?? currentTime;
+        if (key === " ") {
+          event.preventDefault();
+          handlePlayPause();
+        } else if (key === "arrowleft" || key === "arrowright") {
+          event.preventDefault();
+          seek(time + (key === "arrowright" ? SKIP_SECONDS : -SKIP_SECONDS));
+        } else if (onRangeDraftChange && key === "i") {
+          event.preventDefault();
+          onRangeDraftChange({ start: time, end: rangeDraft?.end != null && rangeDraft.end > time ? rangeDraft.end : null });
+        } else if (onRangeDraftChange && key === "o") {
+          event.preventDefault();
+          if (!rangeDraft || time < rangeDraft.start) {
+            onRangeDraftChange({ start: Math.min(rangeDraft?.start ?? 0, time), end: Math.max(rangeDraft?.start ?? 0, time) });
+          } else {
+            onRangeDraftChange({ ...rangeDraft, end: time });
+          }
+        }
+      };
+
+      window.addEventListener("keydown", onKeyDown);
+      return () => window.removeEventListener("keydown", onKeyDown);
+    });
+
+    const percent = (seconds: number) => `${duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0}%`;
+    const segmentStyle = (range: TimeRange) => ({
+      left: percent(range.start),
+      width: `${duration > 0 ? Math.max(0.5, ((range.end - range.start) / duration) * 100) : 0}%`
+    });
+
+    return (
+      <div className="rounded-lg bg-muted p-4 space-y-3">
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onLoadedMetadata={() => setDuration(audioRef.current?.duration || 0)}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+        />
+
+        <div className="relative mt-8">
+          <TimelineMarkers markers={markers} duration={duration} onSelect={selectMarker} />
+          <div className="relative h-32 cursor-pointer rounded-md bg-background overflow-hidden" onClick={handleWaveformClick}>
+            {waveform ? (
+              <>
+                <svg
+                  viewBox={`0 0 ${waveform.peaks.length} 2`}
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 h-full w-full text-muted-foreground/50"
+                >
+                  <path d={waveformPath(waveform.peaks)} stroke="currentColor" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                </svg>
+                {/* The played part of the waveform, clipped to the playhead */}
+                <svg
+                  viewBox={`0 0 ${waveform.peaks.length} 2`}
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 h-full w-full text-primary"
+                  style={{ clipPath: `inset(0 ${100 - parseFloat(percent(currentTime))}% 0 0)` }}
+                >
+                  <path d={waveformPath(waveform.peaks)} stroke="currentColor" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                </svg>
+              </>
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Music className="w-4 h-4" />
+                {waveformLoading ? "Reading waveform..." : "No waveform for this file"}
+              </div>
+            )}
+
+            {/* Range comments, the range being marked and the loop */}
+            {duration > 0 && (
+              <div className="absolute inset-0 pointer-events-none">
+                {markers.filter((marker) => marker.end != null).map((marker) => (
+                  <div
+                    key={marker.id}
+                    className={`absolute inset-y-0 ${marker.resolved ? "bg-muted-foreground/20" : "bg-primary/20"}`}
+                    style={segmentStyle({ start: marker.start, end: marker.end! })}
+                  />
+                ))}
+                {rangeDraft && (
+                  <div
+                    className="absolute inset-y-0 border-x-2 border-primary bg-primary/10"
+                    style={segmentStyle({ start: rangeDraft.start, end: rangeDraft.end ?? rangeDraft.start })}
+                  />
+                )}
+                {loopRange && <div className="absolute inset-y-0 border-2 border-foreground/60" style={segmentStyle(loopRange)} />}
+                <div className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-foreground" style={{ left: percent(currentTime) }} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="ghost" title={`Back ${SKIP_SECONDS}s (←)`} onClick={() => seek(currentTime - SKIP_SECONDS)}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="ghost" title="Play/pause (space)" onClick={handlePlayPause}>
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </Button>
+            <Button size="sm" variant="ghost" title={`Forward ${SKIP_SECONDS}s (→)`} onClick={() => seek(currentTime + SKIP_SECONDS)}>
+              <RotateCw className="w-4 h-4" />
+            </Button>
+            <span className="text-sm tabular-nums text-muted-foreground">
+              {formatClock(currentTime)} / {formatClock(duration)}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {loopRange && (
+              <Button size="sm" variant="ghost" title="Stop looping" onClick={() => onLoopRangeChange?.(null)}>
+                <Repeat className="w-4 h-4 text-primary" />
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                if (audioRef.current) audioRef.current.muted = !isMuted;
+                setIsMuted(!isMuted);
+              }}
+            >
+              {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+
+AudioReviewer.displayName = "AudioReviewer";
@@ -1,21 +1,58 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { MessageSquare, Clock, CheckCircle, XCircle, Send, Timer } from "lucide-react";
+import { MessageSquare, Clock, Send, Timer, PenLine, X, Repeat, MapPin } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { AnnotationDraft } from "@/lib/annotations";
+import type { RangeDraft } from "@/components/video-preview/UniversalVideoPlayer";
+import type { PinDraft } from "@/components/video-preview/ImageReviewer";
+import { FeedbackThread, type ResolutionAction } from "@/components/video-preview/FeedbackThread";
+import { MentionTextarea } from "@/components/video-preview/MentionTextarea";
+import type { ProjectMember } from "@/lib/mentions";
+import { formatTimecode, parseTimecode } from "@/lib/timecode";
+import type { MediaKind } from "@/lib/video-platform";
+import type { Row } from "@/lib/database-config";
 
 interface FeedbackCommentsProps {
   feedback: any[];
   currentTime: number;
-  onAddFeedback: (comment: string, timestamp?: number) => void;
+  onAddFeedback: (comment: string, timestamp?: number, endTimestamp?: number) => void;
   onSeekToTimestamp: (seconds: number) => void;
-  onResolveFeedback: (feedbackId: string, resolved: boolean) => void;
+  /** Loops playback over a range comment */
+  onPlayRange?: (start: number, end: number) => void;
+  onResolveFeedback: (feedbackId: string, action: ResolutionAction) => void;
+  onReply: (parentId: string, comment: string) => Promise<void> | void;
+  /** People who can be @mentioned */
+  members?: ProjectMember[];
+  currentUserId?: string | null;
+  /** Display names by user id */
+  authorNames?: Record<string, string>;
+  /** Shows and reads timestamps as SMPTE timecode at this frame rate */
+  frameRate?: number;
+  /** Number of the version being reviewed, for "addressed in vN?" on carried comments */
+  versionNumber?: number;
+  /** Version number each carried comment came from, by feedback id */
+  carriedFromVersions?: Record<string, number>;
+  onSetAddressed?: (feedbackId: string, addressed: boolean) => void;
   playerRef?: React.RefObject<any>;
+  /** Drawing made on the player that will be attached to the next comment */
+  annotationDraft?: AnnotationDraft | null;
+  onDiscardAnnotation?: () => void;
+  /** In/out points marked in the player with I and O */
+  rangeDraft?: RangeDraft | null;
+  onClearRange?: () => void;
+  /** Stills have no timeline: comments are pinned to a spot instead of a time */
+  mediaKind?: MediaKind;
+  /** Spot clicked on the image that the next comment will be pinned to */
+  pinDraft?: PinDraft | null;
+  onClearPin?: () => void;
+  /** Number shown on each pinned comment's marker, by feedback id */
+  pinNumbers?: Record<string, number>;
+  onSelectPin?: (feedbackId: string) => void;
 }
 
 export const FeedbackComments = ({
@@ -23,14 +60,43 @@ export const FeedbackComments = ({
   currentTime,
   onAddFeedback,
   onSeekToTimestamp,
+  onPlayRange,
   onResolveFeedback,
-  playerRef
+  onReply,
+  members = [],
+  currentUserId = null,
+  authorNames = {},
+  frameRate,
+  versionNumber,
+  carriedFromVersions = {},
+  onSetAddressed,
+  playerRef,
+  annotationDraft,
+  onDiscardAnnotation,
+  rangeDraft,
+  onClearRange,
+  mediaKind = "video",
+  pinDraft,
+  onClearPin,
+  pinNumbers = {},
+  onSelectPin
 }: FeedbackCommentsProps) => {
   const [newComment, setNewComment] = useState("");
   const [useCurrentTime, setUseCurrentTime] = useState(true);
   const [timestampText, setTimestampText] = useState("");
+  const isImage = mediaKind === "image";
+
+  const threads = feedback.filter((item) => !item.parent_id);
+  const repliesByParent = [...feedback]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .reduce<Record<string, Row<"video_feedback">[]>>((groups, item) => {
+      if (item.parent_id) (groups[item.parent_id] ||= []).push(item);
+      return groups;
+    }, {});
 
   const formatTime = (seconds: number) => {
+    if (frameRate) return formatTimecode(seconds, frameRate);
+
     const hours = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
     const secs = Math.floor(seconds % 60);
@@ -82,6 +148,9 @@ export const FeedbackComments = ({
   };
 
   const parseTime = (text: string) => {
+    const timecode = frameRate ? parseTimecode(text, frameRate) : null;
+    if (timecode !== null) return timecode;
+
     const parts = text.split(":").map((p) => p.trim());
     
     // Handle h:mm:ss format (hour:minute:second)
@@ -104,13 +173,21 @@ export const FeedbackComments = ({
     return isNaN(v) ? 0 : v;
   };
 
+  // "1:02 - 1:10" is a range, a single time is a point
+  const parseRange = (text: string) => {
+    const [start, end] = text.split(/\s*[-–]\s*/);
+    const startSeconds = parseTime(start);
+    const endSeconds = end?.trim() ? parseTime(end) : null;
+    return { start: startSeconds, end: endSeconds !== null && endSeconds > startSeconds ? endSeconds : null };
+  };
+
   useEffect(() => {
     if (useCurrentTime) {
       const realTime = getRealCurrentTime();
       const formattedTime = formatTime(realTime);
       setTimestampText(formattedTime);
     } else if (!timestampText) {
-      setTimestampText("0:00");
+      setTimestampText(formatTime(0));
     }
   }, [currentTime, useCurrentTime, timestampText]);
 
@@ -128,9 +205,16 @@ export const FeedbackComments = ({
   const handleSubmit = () => {
     if (!newComment.trim()) return;
 
-    const realTime = getRealCurrentTime();
-    const selectedTs = useCurrentTime ? realTime : parseTime(timestampText);
-    onAddFeedback(newComment, selectedTs);
+    if (isImage) {
+      onAddFeedback(newComment);
+    } else if (rangeDraft && rangeDraft.end !== null) {
+      onAddFeedback(newComment, rangeDraft.start, rangeDraft.end);
+    } else if (useCurrentTime) {
+      onAddFeedback(newComment, getRealCurrentTime());
+    } else {
+      const { start, end } = parseRange(timestampText);
+      onAddFeedback(newComment, start, end ?? undefined);
+    }
     setNewComment("");
   };
 
@@ -147,7 +231,7 @@ export const FeedbackComments = ({
         <div className="space-y-2">
           <div className="flex items-center justify-between mb-2">
             <label className="text-sm font-medium">Add Feedback</label>
-            {useCurrentTime && (
+            {useCurrentTime && !isImage && (
               <Badge variant="outline" className="text-xs">
                 <Clock className="w-3 h-3 mr-1" />
                 {formatTime(getRealCurrentTime())}
@@ -155,98 +239,147 @@ export const FeedbackComments = ({
             )}
           </div>
           
-          <Textarea
-            placeholder="Type your feedback here..."
+          {annotationDraft && annotationDraft.shapes.length > 0 && (
+            <div className="flex items-center justify-between rounded-md border border-primary/50 bg-primary/5 px-3 py-2 text-sm">
+              <span className="flex items-center gap-2">
+                <PenLine className="w-4 h-4 text-primary" />
+                Drawing at {formatTime(annotationDraft.timestamp)} ({annotationDraft.shapes.length} shape{annotationDraft.shapes.length === 1 ? "" : "s"})
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onDiscardAnnotation}>
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
+          {rangeDraft && (
+            <div className="flex items-center justify-between rounded-md border border-primary/50 bg-primary/5 px-3 py-2 text-sm">
+              <span className="flex items-center gap-2">
+                <Repeat className="w-4 h-4 text-primary" />
+                {rangeDraft.end !== null
+                  ? `Range ${formatTime(rangeDraft.start)} - ${formatTime(rangeDraft.end)}`
+                  : `In at ${formatTime(rangeDraft.start)}, press O to set the out point`}
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onClearRange}>
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+
+          {isImage && (
+            <div className="flex items-center justify-between rounded-md border border-primary/50 bg-primary/5 px-3 py-2 text-sm">
+              <span className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-primary" />
+                {pinDraft
+                  ? `Pinned at ${Math.round(pinDraft.x * 100)}% across, ${Math.round(pinDraft.y * 100)}% down`
+                  : "Click the image to pin this comment to a spot"}
+              </span>
+              {pinDraft && (
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onClearPin}>
+                  <X className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          )}
+
+          <MentionTextarea
+            placeholder="Type your feedback here... (@ to mention)"
             value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
+            onChange={setNewComment}
+            members={members}
             className="min-h-[120px] resize-none"
           />
 
           {/* Prominent Add Timestamp Button */}
-          <div className="space-y-2">
-            <TooltipProvider>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button
-                    onClick={() => {
-                      handleInsertTimestamp();
-                    }}
-                    variant="outline"
-                    className="w-full border-primary/50 hover:bg-primary/10"
-                    size="lg"
-                  >
-                    <Timer className="w-5 h-5 mr-2" />
-                    Add Timestamp {useCurrentTime ? `[${formatTime(getRealCurrentTime())}]` : `[${timestampText}]`}
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p className="max-w-xs">
-                    {useCurrentTime 
-                      ? "Click to insert current video timestamp into your feedback" 
-                      : "Manual timestamp mode: Pause the video and click to add timestamp"}
-                  </p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
+          {!isImage && (
+            <div className="space-y-2">
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={() => {
+                        handleInsertTimestamp();
+                      }}
+                      variant="outline"
+                      className="w-full border-primary/50 hover:bg-primary/10"
+                      size="lg"
+                    >
+                      <Timer className="w-5 h-5 mr-2" />
+                      Add Timestamp {useCurrentTime ? `[${formatTime(getRealCurrentTime())}]` : `[${timestampText}]`}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-xs">
+                      {useCurrentTime 
+                        ? "Click to insert current video timestamp into your feedback" 
+                        : "Manual timestamp mode: Pause the video and click to add timestamp"}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
             
-          </div>
+            </div>
+          )}
           
           {/* Timestamp Controls */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                checked={useCurrentTime}
-                onChange={(e) => {
-                  setUseCurrentTime(e.target.checked);
-                  if (e.target.checked) setTimestampText(formatTime(currentTime));
-                }}
-                className="rounded border-gray-300"
-              />
-              <label className="text-sm">Auto-track video time</label>
-            </div>
+          {!isImage && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={useCurrentTime}
+                  onChange={(e) => {
+                    setUseCurrentTime(e.target.checked);
+                    if (e.target.checked) setTimestampText(formatTime(currentTime));
+                  }}
+                  className="rounded border-gray-300"
+                />
+                <label className="text-sm">Auto-track video time</label>
+              </div>
             
-            {useCurrentTime && (
-              <p className="text-xs text-muted-foreground">
-                Auto tracking only works on YouTube videos
-              </p>
-            )}
+              {useCurrentTime && (
+                <p className="text-xs text-muted-foreground">
+                  {mediaKind === "audio"
+                    ? "Press space to play or pause, I and O to mark a range and ← → to skip five seconds."
+                    : "Auto tracking only works on YouTube videos. Press I and O in the player to mark a range, N and P to jump between comments, J/K/L to shuttle and ← → to step frames."}
+                </p>
+              )}
             
-            {!useCurrentTime && (
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Input
-                    value={timestampText}
-                    onChange={(e) => setTimestampText(e.target.value)}
-                    placeholder="mm:ss or h:mm:ss"
-                    className="h-8 w-32"
-                  />
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => {
-                      const videoElement = document.querySelector('video');
-                      if (videoElement && videoElement.currentTime > 0) {
-                        const time = videoElement.currentTime;
-                        setTimestampText(formatTime(time));
-                      } else if (playerRef?.current?.getCurrentTime) {
-                        const playerTime = playerRef.current.getCurrentTime();
-                        if (playerTime > 0) {
-                          setTimestampText(formatTime(playerTime));
+              {!useCurrentTime && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={timestampText}
+                      onChange={(e) => setTimestampText(e.target.value)}
+                      placeholder={frameRate ? "hh:mm:ss:ff or hh:mm:ss:ff - hh:mm:ss:ff" : "mm:ss or mm:ss - mm:ss"}
+                      className="h-8 w-40"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        const videoElement = document.querySelector('video');
+                        if (videoElement && videoElement.currentTime > 0) {
+                          const time = videoElement.currentTime;
+                          setTimestampText(formatTime(time));
+                        } else if (playerRef?.current?.getCurrentTime) {
+                          const playerTime = playerRef.current.getCurrentTime();
+                          if (playerTime > 0) {
+                            setTimestampText(formatTime(playerTime));
+                          }
                         }
-                      }
-                    }}
-                    className="h-8 px-2 text-xs"
-                  >
-                    Get Time
-                  </Button>
+                      }}
+                      className="h-8 px-2 text-xs"
+                    >
+                      Get Time
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Enter a time or a range (e.g., 1:23, 1:23:45 or 1:23 - 1:30)
+                  </p>
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Enter time manually (e.g., 1:23 or 1:23:45)
-                </p>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
 
           <Button
@@ -265,65 +398,34 @@ export const FeedbackComments = ({
         {/* Feedback List */}
         <div>
           <h4 className="text-sm font-medium mb-3">
-            All Feedback ({feedback.length})
+            All Feedback ({threads.length})
           </h4>
           <ScrollArea className="h-[400px] pr-4">
             <div className="space-y-3">
-              {feedback.length === 0 ? (
+              {threads.length === 0 ? (
                 <p className="text-sm text-muted-foreground text-center py-8">
                   No feedback yet. Be the first to add!
                 </p>
               ) : (
-                feedback.map((item) => (
-                  <Card
+                threads.map((item) => (
+                  <FeedbackThread
                     key={item.id}
-                    className={`${
-                      item.is_resolved
-                        ? "border-success/30 bg-success/5"
-                        : "border-border"
-                    }`}
-                  >
-                    <CardContent className="p-3 space-y-2">
-                      <div className="flex items-start justify-between gap-2">
-                        {item.timestamp_seconds !== null && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => onSeekToTimestamp(item.timestamp_seconds)}
-                            className="px-2 h-6 text-xs"
-                          >
-                            <Clock className="w-3 h-3 mr-1" />
-                            {formatTime(item.timestamp_seconds)}
-                          </Button>
-                        )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() =>
-                            onResolveFeedback(item.id, !item.is_resolved)
-                          }
-                          className="px-2 h-6"
-                        >
-                          {item.is_resolved ? (
-                            <XCircle className="w-4 h-4 text-muted-foreground" />
-                          ) : (
-                            <CheckCircle className="w-4 h-4 text-success" />
-                          )}
-                        </Button>
-                      </div>
-                      <p className="text-sm">{item.comment_text}</p>
-                      <div className="flex items-center justify-between">
-                        <p className="text-xs text-muted-foreground">
-                          {new Date(item.created_at).toLocaleDateString()}
-                        </p>
-                        {item.is_resolved && (
-                          <Badge variant="outline" className="text-xs bg-success/10">
-                            Resolved
-                          </Badge>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
+                    item={item}
+                    replies={repliesByParent[item.id] || []}
+                    members={members}
+                    currentUserId={currentUserId}
+                    authorNames={authorNames}
+                    versionNumber={versionNumber}
+                    carriedFromVersion={carriedFromVersions[item.id]}
+                    onSetAddressed={onSetAddressed}
+                    formatTime={formatTime}
+                    onSeekToTimestamp={onSeekToTimestamp}
+                    onPlayRange={onPlayRange}
+                    onResolveFeedback={onResolveFeedback}
+                    onReply={onReply}
+                    pinNumber={pinNumbers[item.id]}
+                    onSelectPin={onSelectPin}
+                  />
                 ))
               )}
             </div>
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Download, FileUp } from "lucide-react";
+import { toast } from "sonner";
+import {
+  exportCmx3600,
+  exportFcpxml,
+  exportPremiereCsv,
+  exportResolveEdl,
+  exportReviewCsv,
+  MARKER_FORMAT_LABELS,
+  MarkerFileError,
+  parseMarkerFile,
+  type ImportedMarker,
+  type MarkerFileFormat,
+  type ReviewMarker
+} from "@/lib/nle-markers";
+import { formatTimecode, parseTimecode } from "@/lib/timecode";
+import { errorMessage } from "@/lib/utils";
+import { generateReviewReportPDF } from "@/components/video-preview/ReviewReportPDF";
+
+interface FeedbackExportMenuProps {
+  /** Timed top-level comments, in timeline order */
+  markers: ReviewMarker[];
+  projectName: string;
+  versionNumber: number;
+  frameRate: number;
+  /** Video length in seconds, when known */
+  duration?: number;
+  /** Creates a comment per imported marker */
+  onImport: (markers: ImportedMarker[]) => Promise<void>;
+}
+
+// NLE timelines usually start at 00:00:00:00 or 01:00:00:00
+const TIMELINE_STARTS = ["00:00:00:00", "01:00:00:00"];
+
+export const FeedbackExportMenu = ({ markers, projectName, versionNumber, frameRate, duration, onImport }: FeedbackExportMenuProps) => {
+  const [timelineStart, setTimelineStart] = useState(TIMELINE_STARTS[0]);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState<string | null>(null);
+  const [importStart, setImportStart] = useState(TIMELINE_STARTS[0]);
+  const [importing, setImporting] = useState(false);
+
+  const startOffset = parseTimecode(timelineStart, frameRate) ?? 0;
+  const options = { title: `${projectName} v${versionNumber}`, frameRate, startOffset, duration };
+  const baseName = `${projectName}_v${versionNumber}_feedback`.replace(/[^\w.-]+/g, "_");
+
+  const download = (content: string, extension: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${baseName}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exports: { label: string; run: () => void }[] = [
+    { label: MARKER_FORMAT_LABELS.cmx3600, run: () => download(exportCmx3600(markers, options), "edl", "text/plain") },
+    { label: MARKER_FORMAT_LABELS["resolve-edl"], run: () => download(exportResolveEdl(markers, options), "edl", "text/plain") },
+    { label: MARKER_FORMAT_LABELS.fcpxml, run: () => download(exportFcpxml(markers, options), "fcpxml", "application/xml") },
+    { label: MARKER_FORMAT_LABELS["premiere-csv"], run: () => download(exportPremiereCsv(markers, options), "csv", "text/csv") }
+  ];
+
+  // Parsed on every render so changing the start timecode updates the preview
+  let parsed: { format: MarkerFileFormat; markers: ImportedMarker[] } | null = null;
+  let parseError: string | null = null;
+  if (importText !== null) {
+    const importOffset = parseTimecode(importStart, frameRate);
+    if (importOffset === null) {
+      parseError = "Enter the timeline start as HH:MM:SS:FF";
+    } else {
+      try {
+        parsed = parseMarkerFile(importText, frameRate, importOffset);
+      } catch (error) {
+        parseError = error instanceof MarkerFileError ? error.message : "This file could not be read";
+      }
+    }
+  }
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+
+    // Markers an hour or more in usually mean the timeline starts at 01:00:00:00
+    const fromZero = (() => {
+      try {
+        return parseMarkerFile(text, frameRate, 0).markers;
+      } catch {
+        return [];
+      }
+    })();
+    setImportStart(fromZero.length && fromZero.every((marker) => marker.start >= 3600) ? TIMELINE_STARTS[1] : TIMELINE_STARTS[0]);
+    setImportText(text);
+  };
+
+  const closeImport = () => {
+    setImportOpen(false);
+    setImportText(null);
+  };
+
+  const handleImport = async () => {
+    if (!parsed?.markers.length) return;
+    setImporting(true);
+    try {
+      await onImport(parsed.markers);
+      closeImport();
+    } catch (error) {
+      console.error("Error importing markers:", error);
+      toast.error(errorMessage(error, "Failed to import markers"));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Markers for your editor</DropdownMenuLabel>
+          {exports.map(({ label, run }) => (
+            <DropdownMenuItem key={label} disabled={markers.length === 0} onSelect={run}>
+              {label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Timeline starts at</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={timelineStart} onValueChange={setTimelineStart}>
+            {TIMELINE_STARTS.map((start) => (
+              <DropdownMenuRadioItem key={start} value={start} onSelect={(e) => e.preventDefault()} className="tabular-nums">
+                {formatTimecode(parseTimecode(start, frameRate) ?? 0, frameRate)}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Review report</DropdownMenuLabel>
+          <DropdownMenuItem
+            onSelect={() =>
+              generateReviewReportPDF(markers, { projectName, versionNumber, frameRate, startOffset, fileName: `${baseName}.pdf` })
+            }
+          >
+            PDF
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => download(exportReviewCsv(markers, options), "csv", "text/csv")}>
+            CSV
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setImportOpen(true)}>
+            <FileUp className="w-4 h-4 mr-2" />
+            Import Markers...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={importOpen} onOpenChange={(open) => !open && closeImport()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Markers</DialogTitle>
+            <DialogDescription>
+              Turn the markers in an EDL, FCPXML, Premiere XML or marker CSV into comments on v{versionNumber}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="marker_file">Marker file</Label>
+              <Input
+                id="marker_file"
+                type="file"
+                accept=".edl,.xml,.fcpxml,.csv,.txt"
+                onChange={handleFileSelected}
+              />
+            </div>
+            <div>
+              <Label htmlFor="marker_timeline_start">Timeline starts at</Label>
+              <Input
+                id="marker_timeline_start"
+                value={importStart}
+                onChange={(e) => setImportStart(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+            {parsed && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {MARKER_FORMAT_LABELS[parsed.format]}: {parsed.markers.length} marker{parsed.markers.length === 1 ? "" : "s"}
+                </p>
+                {parsed.markers.length > 0 && (
+                  <ScrollArea className="h-48 rounded-md border">
+                    <ul className="divide-y text-sm">
+                      {parsed.markers.map((marker, index) => (
+                        <li key={index} className="flex gap-3 p-2">
+                          <span className="font-mono text-xs text-muted-foreground whitespace-nowrap pt-0.5">
+                            {formatTimecode(marker.start, frameRate)}
+                          </span>
+                          <span className="break-words">{marker.text}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={closeImport}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={!parsed?.markers.length || importing}>
+              {importing ? "Importing..." : `Import ${parsed?.markers.length || ""} Comments`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Clock, CheckCircle, RotateCcw, PenLine, Repeat, Reply, Send, History, MapPin } from "lucide-react";
+import { MentionTextarea } from "@/components/video-preview/MentionTextarea";
+import { splitMentions, type ProjectMember } from "@/lib/mentions";
+import { feedbackAuthorName } from "@/lib/review-links";
+import type { Row } from "@/lib/database-config";
+
+/** See set_feedback_resolution: resolve, then the comment's author confirms or reopens */
+export type ResolutionAction = "resolve" | "confirm" | "reopen";
+
+interface FeedbackThreadProps {
+  item: Row<"video_feedback">;
+  replies: Row<"video_feedback">[];
+  members: ProjectMember[];
+  currentUserId: string | null;
+  /** Display names by user id */
+  authorNames: Record<string, string>;
+  versionNumber?: number;
+  /** Set when the comment was carried over from an earlier version */
+  carriedFromVersion?: number;
+  onSetAddressed?: (feedbackId: string, addressed: boolean) => void;
+  formatTime: (seconds: number) => string;
+  onSeekToTimestamp: (seconds: number) => void;
+  onPlayRange?: (start: number, end: number) => void;
+  onResolveFeedback: (feedbackId: string, action: ResolutionAction) => void;
+  onReply: (parentId: string, comment: string) => Promise<void> | void;
+  /** Number of the comment's pin on an image, when it has one */
+  pinNumber?: number;
+  onSelectPin?: (feedbackId: string) => void;
+}
+
+export const FeedbackThread = ({
+  item,
+  replies,
+  members,
+  currentUserId,
+  authorNames,
+  versionNumber,
+  carriedFromVersion,
+  onSetAddressed,
+  formatTime,
+  onSeekToTimestamp,
+  onPlayRange,
+  onResolveFeedback,
+  onReply,
+  pinNumber,
+  onSelectPin
+}: FeedbackThreadProps) => {
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState("");
+
+  const isAuthor = currentUserId === item.user_id;
+  const isResolver = !!item.resolved_by && currentUserId === item.resolved_by;
+  const awaitingConfirmation = !!item.resolved_by && !item.is_resolved;
+  const hasRange = item.end_seconds !== null && item.end_seconds !== undefined;
+
+  const renderText = (text: string) =>
+    splitMentions(text, members).map((part, index) =>
+      part.member ? (
+        <span key={index} className="font-medium text-primary">{part.text}</span>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    );
+
+  const submitReply = async () => {
+    if (!replyText.trim()) return;
+    await onReply(item.id, replyText);
+    setReplyText("");
+    setReplying(false);
+  };
+
+  return (
+    <Card
+      className={`${
+        item.is_resolved
+          ? "border-success/30 bg-success/5"
+          : awaitingConfirmation
+            ? "border-primary/40"
+            : "border-border"
+      }`}
+    >
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center">
+            {pinNumber !== undefined && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Show on the image"
+                onClick={() => onSelectPin?.(item.id)}
+                className="px-2 h-6 text-xs"
+              >
+                <MapPin className="w-3 h-3 mr-1" />#{pinNumber}
+              </Button>
+            )}
+            {item.timestamp_seconds !== null && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onSeekToTimestamp(item.timestamp_seconds)}
+                className="px-2 h-6 text-xs"
+              >
+                <Clock className="w-3 h-3 mr-1" />
+                {formatTime(item.timestamp_seconds)}
+                {hasRange && ` - ${formatTime(item.end_seconds)}`}
+                {Array.isArray(item.annotations) && item.annotations.length > 0 && <PenLine className="w-3 h-3 ml-1 text-primary" />}
+              </Button>
+            )}
+            {hasRange && onPlayRange && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Loop this range"
+                onClick={() => onPlayRange(Number(item.timestamp_seconds), Number(item.end_seconds))}
+                className="px-2 h-6"
+              >
+                <Repeat className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+
+          {/* Resolution workflow */}
+          <div className="flex items-center gap-1">
+            {!item.resolved_by && !item.is_resolved && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title={isAuthor ? "Resolve" : "Mark as done"}
+                onClick={() => onResolveFeedback(item.id, "resolve")}
+                className="px-2 h-6"
+              >
+                <CheckCircle className="w-4 h-4 text-success" />
+              </Button>
+            )}
+            {awaitingConfirmation && isAuthor && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onResolveFeedback(item.id, "confirm")}
+                className="px-2 h-6 text-xs text-success"
+              >
+                <CheckCircle className="w-3 h-3 mr-1" />
+                Confirm
+              </Button>
+            )}
+            {(item.is_resolved || awaitingConfirmation) && (isAuthor || isResolver) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Reopen"
+                onClick={() => onResolveFeedback(item.id, "reopen")}
+                className="px-2 h-6"
+              >
+                <RotateCcw className="w-4 h-4 text-muted-foreground" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-sm whitespace-pre-wrap">{renderText(item.comment_text)}</p>
+
+        {/* Carried over from an earlier version: was it addressed in this one? */}
+        {item.carried_from_id && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md bg-muted/50 px-2 py-1.5 text-xs">
+            <History className="w-3 h-3 text-muted-foreground" />
+            <span className="text-muted-foreground">
+              {carriedFromVersion ? `From v${carriedFromVersion}` : "Carried over"}
+            </span>
+            {item.addressed === true ? (
+              <Badge variant="outline" className="text-xs bg-success/10">
+                Addressed{versionNumber ? ` in v${versionNumber}` : ""}
+              </Badge>
+            ) : onSetAddressed ? (
+              <>
+                <span className="ml-auto">
+                  {item.addressed === false ? "Not addressed yet" : `Addressed${versionNumber ? ` in v${versionNumber}` : ""}?`}
+                </span>
+                <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onSetAddressed(item.id, true)}>
+                  Yes
+                </Button>
+                {item.addressed !== false && (
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onSetAddressed(item.id, false)}>
+                    No
+                  </Button>
+                )}
+              </>
+            ) : null}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            {feedbackAuthorName(item, authorNames) || "Unknown"} · {new Date(item.created_at).toLocaleDateString()}
+          </p>
+          {item.is_resolved ? (
+            <Badge variant="outline" className="text-xs bg-success/10">
+              Resolved
+            </Badge>
+          ) : awaitingConfirmation ? (
+            <Badge variant="outline" className="text-xs">
+              Done by {authorNames[item.resolved_by] || "editor"}, awaiting confirmation
+            </Badge>
+          ) : null}
+        </div>
+
+        {/* Replies */}
+        {replies.length > 0 && (
+          <div className="ml-3 space-y-2 border-l pl-3">
+            {replies.map((reply) => (
+              <div key={reply.id} className="space-y-0.5">
+                <p className="text-sm whitespace-pre-wrap">{renderText(reply.comment_text)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {feedbackAuthorName(reply, authorNames) || "Unknown"} · {new Date(reply.created_at).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {replying ? (
+          <div className="space-y-2">
+            <MentionTextarea
+              value={replyText}
+              onChange={setReplyText}
+              members={members}
+              placeholder="Reply... (@ to mention)"
+              className="min-h-[60px] resize-none text-sm"
+              onSubmit={submitReply}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" className="h-7" onClick={() => setReplying(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" className="h-7" onClick={submitReply} disabled={!replyText.trim()}>
+                <Send className="w-3 h-3 mr-1" />
+                Reply
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setReplying(true)}>
+            <Reply className="w-3 h-3 mr-1" />
+            Reply{replies.length > 0 ? ` (${replies.length})` : ""}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
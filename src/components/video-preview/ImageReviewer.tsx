@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff, Maximize2, Minimize2 } from "lucide-react";
+
+export interface ImagePin {
+  id: string;
+  /** Fractions of the image's width and height */
+  x: number;
+  y: number;
+  number: number;
+  resolved?: boolean;
+  text?: string;
+  authorName?: string | null;
+}
+
+export interface PinDraft {
+  x: number;
+  y: number;
+}
+
+interface ImageReviewerProps {
+  url: string;
+  pins: ImagePin[];
+  /** Where the next comment will be pinned; clicking the image moves it */
+  pinDraft?: PinDraft | null;
+  onPinDraftChange?: (pin: PinDraft | null) => void;
+  selectedPinId?: string | null;
+  onPinSelect?: (pin: ImagePin) => void;
+}
+
+const round = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+
+export const ImageReviewer = ({ url, pins, pinDraft, onPinDraftChange, selectedPinId, onPinSelect }: ImageReviewerProps) => {
+  const [showPins, setShowPins] = useState(true);
+  const [actualSize, setActualSize] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const handleClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!onPinDraftChange) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPinDraftChange({ x: round((e.clientX - rect.left) / rect.width), y: round((e.clientY - rect.top) / rect.height) });
+  };
+
+  if (failed) {
+    return (
+      <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+        <p className="text-muted-foreground">Could not load the image</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-muted">
+      <div className={`flex justify-center p-4 ${actualSize ? "max-h-[75vh] overflow-auto" : ""}`}>
+        {/* Pins are placed over the image itself, so they track it at any size */}
+        <div className="relative inline-block">
+          <img
+            src={url}
+            alt=""
+            onClick={handleClick}
+            onError={() => setFailed(true)}
+            className={`block cursor-crosshair select-none ${actualSize ? "max-w-none" : "max-h-[70vh] max-w-full"}`}
+            draggable={false}
+          />
+          <TooltipProvider delayDuration={100}>
+            {showPins &&
+              pins.map((pin) => (
+                <Tooltip key={pin.id}>
+                  <TooltipTrigger asChild>
+                    <button
+                      type="button"
+                      onClick={() => onPinSelect?.(pin)}
+                      className={`absolute flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full text-xs font-semibold shadow ring-2 ring-background transition-transform hover:scale-110 ${
+                        pin.resolved ? "bg-muted-foreground text-background opacity-70" : "bg-primary text-primary-foreground"
+                      } ${selectedPinId === pin.id ? "scale-125 ring-primary" : ""}`}
+                      style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+                    >
+                      {pin.number}
+                    </button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top" className="max-w-xs">
+                    <p className="text-xs font-medium">
+                      {pin.authorName || "Unknown"}
+                      {pin.resolved && " · Resolved"}
+                    </p>
+                    {pin.text && <p className="text-xs text-muted-foreground line-clamp-3">{pin.text}</p>}
+                  </TooltipContent>
+                </Tooltip>
+              ))}
+          </TooltipProvider>
+          {pinDraft && (
+            <span
+              className="pointer-events-none absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 animate-pulse rounded-full border-2 border-dashed border-primary bg-primary/30"
+              style={{ left: `${pinDraft.x * 100}%`, top: `${pinDraft.y * 100}%` }}
+            />
+          )}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2 border-t px-4 py-2 text-xs text-muted-foreground">
+        <span>Click the image to pin a comment to that spot</span>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setShowPins((shown) => !shown)}>
+            {showPins ? <EyeOff className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+            {showPins ? "Hide pins" : "Show pins"}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setActualSize((actual) => !actual)}>
+            {actualSize ? <Minimize2 className="w-3 h-3 mr-1" /> : <Maximize2 className="w-3 h-3 mr-1" />}
+            {actualSize ? "Fit" : "Actual size"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { useRef, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import type { ProjectMember } from "@/lib/mentions";
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: ProjectMember[];
+  placeholder?: string;
+  className?: string;
+  onSubmit?: () => void;
+}
+
+/** Textarea that suggests project members after "@" */
+export const MentionTextarea = ({ value, onChange, members, placeholder, className, onSubmit }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : members.filter((member) => member.name.toLowerCase().includes(query.toLowerCase())).slice(0, 6);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(/(?:^|\s)@([^\s@]*)$/);
+    setQuery(match ? match[1] : null);
+    setHighlighted(0);
+  };
+
+  const insertMention = (member: ProjectMember) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const caret = textarea.selectionStart;
+    const before = value.slice(0, caret).replace(/@([^\s@]*)$/, `@${member.name} `);
+    const next = before + value.slice(caret);
+    onChange(next);
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setHighlighted((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (event.key === "Escape") {
+        setQuery(null);
+        return;
+      }
+    }
+
+    if (event.key === "Enter" && (event.metaKey || event.ctrlKey) && onSubmit) {
+      event.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        className={className}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-2 right-2 top-full z-20 mt-1 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.userId}
+              type="button"
+              // Keep focus in the textarea so the caret position survives
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertMention(member);
+              }}
+              className={`flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm ${
+                index === highlighted ? "bg-accent text-accent-foreground" : ""
+              }`}
+            >
+              <span>{member.name}</span>
+              <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import jsPDF from "jspdf";
+import { formatTimecode } from "@/lib/timecode";
+import type { ReviewMarker } from "@/lib/nle-markers";
+
+interface ReviewReportDetails {
+  projectName: string;
+  versionNumber: number;
+  frameRate: number;
+  startOffset: number;
+  fileName: string;
+}
+
+const STATUS_LABELS = { open: "Open", awaiting: "Awaiting confirmation", resolved: "Resolved" };
+
+export const generateReviewReportPDF = (markers: ReviewMarker[], details: ReviewReportDetails) => {
+  const doc = new jsPDF();
+  const timecode = (seconds: number) => formatTimecode(seconds + details.startOffset, details.frameRate);
+
+  // Header
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text("Review Report", 105, 20, { align: "center" });
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Project: ${details.projectName}`, 20, 35);
+  doc.text(`Version: v${details.versionNumber} (${Number(details.frameRate.toFixed(3))} fps)`, 20, 42);
+  doc.text(`Date: ${new Date().toLocaleDateString()}`, 20, 49);
+
+  const resolved = markers.filter((marker) => marker.status === "resolved").length;
+  doc.text(`Comments: ${markers.length} (${resolved} resolved, ${markers.length - resolved} open)`, 20, 56);
+
+  doc.line(20, 62, 190, 62);
+
+  // Comments
+  let yPos = 72;
+  markers.forEach((marker, index) => {
+    const lines = doc.splitTextToSize(marker.text, 160);
+    if (yPos + 10 + lines.length * 5 > 275) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    const range = marker.end !== null ? `${timecode(marker.start)} - ${timecode(marker.end)}` : timecode(marker.start);
+    doc.setFont("helvetica", "bold");
+    doc.text(`${index + 1}. ${range}`, 20, yPos);
+    doc.setFont("helvetica", "normal");
+    doc.text(
+      [marker.author, marker.status && STATUS_LABELS[marker.status], marker.replies ? `${marker.replies} replies` : null]
+        .filter(Boolean)
+        .join(" · "),
+      190,
+      yPos,
+      { align: "right" }
+    );
+
+    yPos += 6;
+    doc.text(lines, 25, yPos);
+    yPos += lines.length * 5 + 6;
+  });
+
+  if (markers.length === 0) {
+    doc.text("No timed comments on this version.", 20, yPos);
+  }
+
+  // Footer
+  const pageCount = doc.internal.pages.length - 1;
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "italic");
+    doc.text(
+      `${details.projectName} v${details.versionNumber} | Page ${i} of ${pageCount}`,
+      105,
+      285,
+      { align: "center" }
+    );
+  }
+
+  doc.save(details.fileName);
+};
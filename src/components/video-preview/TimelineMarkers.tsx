@@ -0,0 +1,60 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { TimelineMarker } from "@/components/video-preview/UniversalVideoPlayer";
+import { formatClock, formatTimecode } from "@/lib/timecode";
+
+interface TimelineMarkersProps {
+  markers: TimelineMarker[];
+  duration: number;
+  /** Times show as timecode at this rate, or as M:SS without one */
+  frameRate?: number;
+  onSelect: (marker: TimelineMarker) => void;
+}
+
+const initials = (name?: string | null) =>
+  (name || "?")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+/** Author avatars above the seek bar, one per feedback entry */
+export const TimelineMarkers = ({ markers, duration, frameRate, onSelect }: TimelineMarkersProps) => {
+  if (duration <= 0) return null;
+  const formatTime = (seconds: number) => (frameRate ? formatTimecode(seconds, frameRate) : formatClock(seconds));
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <div className="absolute inset-x-0 bottom-full mb-1 h-6 pointer-events-none">
+        {markers.map((marker) => (
+          <Tooltip key={marker.id}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => onSelect(marker)}
+                className="absolute bottom-0 -translate-x-1/2 pointer-events-auto transition-transform hover:scale-125 hover:z-10"
+                style={{ left: `${Math.min(100, (marker.start / duration) * 100)}%` }}
+              >
+                <Avatar
+                  className={`h-5 w-5 ring-2 ${marker.resolved ? "ring-muted-foreground opacity-60" : "ring-primary"}`}
+                >
+                  {marker.avatarUrl && <AvatarImage src={marker.avatarUrl} alt={marker.authorName || ""} />}
+                  <AvatarFallback className="text-[9px]">{initials(marker.authorName)}</AvatarFallback>
+                </Avatar>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs">
+              <p className="text-xs font-medium">
+                {marker.authorName || "Unknown"} · {formatTime(marker.start)}
+                {marker.end != null && ` - ${formatTime(marker.end)}`}
+                {marker.resolved && " · Resolved"}
+              </p>
+              {marker.text && <p className="text-xs text-muted-foreground line-clamp-3">{marker.text}</p>}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+};
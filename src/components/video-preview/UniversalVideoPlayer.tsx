@@ -1,19 +1,120 @@
 import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
-import { Play, Pause, Volume2, VolumeX, Maximize } from "lucide-react";
+import { Play, Pause, Volume2, VolumeX, Maximize, Repeat, PenLine, Square, ArrowUpRight, Pencil, Undo2, Trash2, Check, Settings, StepBack, StepForward, Rewind } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { AnnotationOverlay } from "@/components/video-preview/AnnotationOverlay";
+import { TimelineMarkers } from "@/components/video-preview/TimelineMarkers";
+import {
+  ANNOTATION_COLORS,
+  isOnFrame,
+  type AnnotationDraft,
+  type AnnotationTool,
+  type TimedAnnotation
+} from "@/lib/annotations";
+import { detectVideoPlatform, playsInVideoElement, type VideoPlatform } from "@/lib/video-platform";
+import { attachStream, AUTO_LEVEL, type QualityLevel, type StreamController } from "@/lib/adaptive-stream";
+import { DEFAULT_FRAME_RATE, SHUTTLE_SPEEDS, formatTimecode, frameMidpoint, toFrames } from "@/lib/timecode";
+import { spriteTileStyle, type SpriteSheet } from "@/lib/version-media";
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/** A feedback entry on the seek bar; entries with an end are also drawn as a range */
+export interface TimelineMarker {
+  id: string;
+  start: number;
+  end?: number | null;
+  resolved?: boolean;
+  text?: string;
+  authorName?: string | null;
+  avatarUrl?: string | null;
+}
+
+/** In/out points being set with the I and O keys; end stays null until O is pressed */
+export interface RangeDraft {
+  start: number;
+  end: number | null;
+}
 
 interface UniversalVideoPlayerProps {
   url: string;
   onTimeUpdate?: (time: number) => void;
+  onDurationChange?: (duration: number) => void;
+  /** Hides the built-in controls and shortcuts when playback is driven through the ref, e.g. when comparing versions */
+  showControls?: boolean;
+  /** Frames per second of the version, for frame stepping and timecode */
+  frameRate?: number;
+  markers?: TimelineMarker[];
+  /** Called when a marker is clicked or reached with the N/P keys; seeks to it when omitted */
+  onMarkerSelect?: (marker: TimelineMarker) => void;
+  /** Passing onRangeDraftChange enables the I/O shortcuts */
+  rangeDraft?: RangeDraft | null;
+  onRangeDraftChange?: (range: RangeDraft | null) => void;
+  /** Playback repeats between start and end while set */
+  loopRange?: TimeRange | null;
+  onLoopRangeChange?: (range: TimeRange | null) => void;
+  /** Drawings shown on top of the frame they were made on (direct video files only) */
+  annotations?: TimedAnnotation[];
+  /** Shapes being drawn for a new comment; passing onAnnotationDraftChange enables drawing */
+  annotationDraft?: AnnotationDraft | null;
+  onAnnotationDraftChange?: (draft: AnnotationDraft | null) => void;
+  /** Frame shown before playback starts (direct video files only) */
+  poster?: string;
+  /** Thumbnails shown above the seek bar while hovering it; `url` is the playable sprite image */
+  scrubSprite?: { url: string; sheet: SpriteSheet } | null;
 }
 
+const SCRUB_PREVIEW_WIDTH = 160;
+
+const DRAWING_TOOLS: { tool: AnnotationTool; label: string; icon: typeof Square }[] = [
+  { tool: "rect", label: "Rectangle", icon: Square },
+  { tool: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { tool: "freehand", label: "Freehand", icon: Pencil }
+];
+
 export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
-  ({ url, onTimeUpdate }, ref) => {
+  (
+    {
+      url,
+      onTimeUpdate,
+      onDurationChange,
+      showControls = true,
+      frameRate = DEFAULT_FRAME_RATE,
+      markers = [],
+      onMarkerSelect,
+      rangeDraft,
+      onRangeDraftChange,
+      loopRange,
+      onLoopRangeChange,
+      annotations = [],
+      annotationDraft,
+      onAnnotationDraftChange,
+      poster,
+      scrubSprite
+    },
+    ref
+  ) => {
     const iframeRef = useRef<HTMLIFrameElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
-    const [platform, setPlatform] = useState<string>("unknown");
+    const [platform, setPlatform] = useState<VideoPlatform>("unknown");
+    const usesVideoElement = playsInVideoElement(platform);
+    const streamRef = useRef<StreamController | null>(null);
+    const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+    const [selectedLevel, setSelectedLevel] = useState(AUTO_LEVEL);
+    const [activeLevel, setActiveLevel] = useState(AUTO_LEVEL);
+    const [streamError, setStreamError] = useState<string | null>(null);
     const [isPlaying, setIsPlaying] = useState(false);
     const [isMuted, setIsMuted] = useState(false);
     const [currentTime, setCurrentTime] = useState(0);
@@ -24,12 +125,21 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
     }, [currentTime, onTimeUpdate]);
     const [duration, setDuration] = useState(0);
     const [volume, setVolume] = useState(1);
+    const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+    const [drawingTool, setDrawingTool] = useState<AnnotationTool | null>(null);
+    const [drawingColor, setDrawingColor] = useState(ANNOTATION_COLORS[0]);
+    const [playbackRate, setPlaybackRate] = useState(1);
+    // Seek bar position under the pointer, 0-1, while hovering it
+    const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+    // <video> cannot play backwards, so J rewinds by seeking back every animation frame
+    const [reverseSpeed, setReverseSpeed] = useState(0);
 
     useImperativeHandle(ref, () => ({
       seekTo: (seconds: number) => {
-        if (platform === 'direct' || platform === 'dropbox') {
+        if (usesVideoElement) {
           if (videoRef.current) {
-            videoRef.current.currentTime = seconds;
+            setReverseSpeed(0);
+            videoRef.current.currentTime = frameMidpoint(toFrames(seconds, frameRate), frameRate);
           }
         } else if (platform === 'youtube' && iframeRef.current?.contentWindow) {
           iframeRef.current.contentWindow.postMessage(
@@ -44,17 +154,250 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
         }
       },
       getCurrentTime: () => {
-        if (platform === 'direct' || platform === 'dropbox') {
+        if (usesVideoElement) {
           return videoRef.current?.currentTime || 0;
         }
         return currentTime;
-      }
+      },
+      play: () => {
+        if (usesVideoElement) {
+          videoRef.current?.play().catch(() => undefined);
+        } else if (platform === 'youtube' && iframeRef.current?.contentWindow) {
+          iframeRef.current.contentWindow.postMessage(JSON.stringify({ event: 'command', func: 'playVideo', args: [] }), '*');
+        } else if (platform === 'vimeo' && iframeRef.current?.contentWindow) {
+          iframeRef.current.contentWindow.postMessage({ method: 'play' }, '*');
+        }
+      },
+      pause: () => {
+        if (usesVideoElement) {
+          videoRef.current?.pause();
+        } else if (platform === 'youtube' && iframeRef.current?.contentWindow) {
+          iframeRef.current.contentWindow.postMessage(JSON.stringify({ event: 'command', func: 'pauseVideo', args: [] }), '*');
+        } else if (platform === 'vimeo' && iframeRef.current?.contentWindow) {
+          iframeRef.current.contentWindow.postMessage({ method: 'pause' }, '*');
+        }
+      },
+      setMuted: (muted: boolean) => {
+        if (usesVideoElement) {
+          if (videoRef.current) videoRef.current.muted = muted;
+          setIsMuted(muted);
+        } else if (platform === 'youtube' && iframeRef.current?.contentWindow) {
+          iframeRef.current.contentWindow.postMessage(
+            JSON.stringify({ event: 'command', func: muted ? 'mute' : 'unMute', args: [] }),
+            '*'
+          );
+        } else if (platform === 'vimeo' && iframeRef.current?.contentWindow) {
+          iframeRef.current.contentWindow.postMessage({ method: 'setVolume', value: muted ? 0 : 1 }, '*');
+        }
+      },
+      getDuration: () => duration,
+      isPaused: () => (videoRef.current ? videoRef.current.paused : !isPlaying)
     }));
 
     useEffect(() => {
-      detectPlatform(url);
+      setPlatform(detectVideoPlatform(url));
     }, [url]);
 
+    // HLS and DASH need a media source library between the manifest and the <video> element
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video || (platform !== 'hls' && platform !== 'dash')) return;
+
+      let cancelled = false;
+      setQualityLevels([]);
+      setSelectedLevel(AUTO_LEVEL);
+      setActiveLevel(AUTO_LEVEL);
+      setStreamError(null);
+
+      attachStream(video, url, platform, {
+        onLevels: (levels) => !cancelled && setQualityLevels(levels),
+        onLevelChange: (index) => !cancelled && setActiveLevel(index),
+        onError: (message) => !cancelled && setStreamError(message)
+      })
+        .then((controller) => {
+          if (cancelled) {
+            controller.destroy();
+          } else {
+            streamRef.current = controller;
+          }
+        })
+        .catch((error: Error) => !cancelled && setStreamError(error.message));
+
+      return () => {
+        cancelled = true;
+        streamRef.current?.destroy();
+        streamRef.current = null;
+      };
+    }, [platform, url]);
+
+    const handleQualityChange = (value: string) => {
+      const index = Number(value);
+      setSelectedLevel(index);
+      streamRef.current?.setLevel(index);
+    };
+
+    // I marks the in point and O the out point of a range comment at the playhead
+    useEffect(() => {
+      if (!onRangeDraftChange) return;
+
+      const onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null;
+        if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+        if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+        const key = event.key.toLowerCase();
+        if (key !== "i" && key !== "o") return;
+        event.preventDefault();
+
+        const time = videoRef.current && usesVideoElement
+          ? videoRef.current.currentTime
+          : currentTime;
+
+        if (key === "i") {
+          onRangeDraftChange({ start: time, end: rangeDraft?.end != null && rangeDraft.end > time ? rangeDraft.end : null });
+        } else if (!rangeDraft || time < rangeDraft.start) {
+          // Out before in: treat the out point as a range ending here, starting at the previous in point or zero
+          onRangeDraftChange({ start: Math.min(rangeDraft?.start ?? 0, time), end: Math.max(rangeDraft?.start ?? 0, time) });
+        } else {
+          onRangeDraftChange({ ...rangeDraft, end: time });
+        }
+      };
+
+      window.addEventListener("keydown", onKeyDown);
+      return () => window.removeEventListener("keydown", onKeyDown);
+    }, [onRangeDraftChange, rangeDraft, usesVideoElement, currentTime]);
+
+    const selectMarker = (marker: TimelineMarker) => {
+      if (onMarkerSelect) {
+        onMarkerSelect(marker);
+      } else if (videoRef.current) {
+        videoRef.current.currentTime = marker.start;
+      }
+    };
+
+    const stepFrames = (delta: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.pause();
+      setReverseSpeed(0);
+
+      const lastFrame = duration > 0 ? toFrames(duration, frameRate) - 1 : Infinity;
+      const frame = Math.min(lastFrame, Math.max(0, toFrames(video.currentTime, frameRate) + delta));
+      video.currentTime = frameMidpoint(frame, frameRate);
+      setCurrentTime(video.currentTime);
+    };
+
+    const changeSpeed = (rate: number) => {
+      if (videoRef.current) videoRef.current.playbackRate = rate;
+      setPlaybackRate(rate);
+    };
+
+    const fasterSpeed = (rate: number) => SHUTTLE_SPEEDS.find((speed) => speed > rate) ?? rate;
+
+    // J/K/L shuttle: L plays and speeds up, J rewinds and speeds up, K stops.
+    // The arrow keys step one frame.
+    useEffect(() => {
+      if (!usesVideoElement || !showControls) return;
+
+      const onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null;
+        if (target?.closest("input, textarea, select, [contenteditable='true'], [role='slider']")) return;
+        if (event.metaKey || event.ctrlKey || event.altKey) return;
+        const video = videoRef.current;
+        if (!video) return;
+
+        const key = event.key.toLowerCase();
+        if (key === "arrowleft" || key === "arrowright") {
+          event.preventDefault();
+          stepFrames(key === "arrowright" ? 1 : -1);
+        } else if (key === "k") {
+          event.preventDefault();
+          video.pause();
+          setReverseSpeed(0);
+        } else if (key === "l") {
+          event.preventDefault();
+          setReverseSpeed(0);
+          changeSpeed(!video.paused ? fasterSpeed(playbackRate) : reverseSpeed ? 1 : playbackRate);
+          video.play().catch(() => undefined);
+        } else if (key === "j") {
+          event.preventDefault();
+          video.pause();
+          setReverseSpeed(reverseSpeed ? fasterSpeed(reverseSpeed) : 1);
+        }
+      };
+
+      window.addEventListener("keydown", onKeyDown);
+      return () => window.removeEventListener("keydown", onKeyDown);
+    });
+
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video || !reverseSpeed) return;
+
+      let frame = 0;
+      let last = performance.now();
+      const rewind = (now: number) => {
+        video.currentTime = Math.max(0, video.currentTime - ((now - last) / 1000) * reverseSpeed);
+        last = now;
+        if (video.currentTime <= 0) {
+          setReverseSpeed(0);
+          return;
+        }
+        frame = requestAnimationFrame(rewind);
+      };
+      frame = requestAnimationFrame(rewind);
+      return () => cancelAnimationFrame(frame);
+    }, [reverseSpeed]);
+
+    // N jumps to the next feedback marker, P to the previous one
+    useEffect(() => {
+      if (markers.length === 0) return;
+
+      const onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null;
+        if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+        if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+        const key = event.key.toLowerCase();
+        if (key !== "n" && key !== "p") return;
+        event.preventDefault();
+
+        const time = videoRef.current && usesVideoElement
+          ? videoRef.current.currentTime
+          : currentTime;
+        const sorted = [...markers].sort((a, b) => a.start - b.start);
+        // The small margin keeps a marker we just jumped to from being picked again
+        const marker = key === "n"
+          ? sorted.find((candidate) => candidate.start > time + 0.05)
+          : [...sorted].reverse().find((candidate) => candidate.start < time - 0.05);
+
+        if (marker) selectMarker(marker);
+      };
+
+      window.addEventListener("keydown", onKeyDown);
+      return () => window.removeEventListener("keydown", onKeyDown);
+    });
+
+    // Jump to a newly selected loop and keep playback inside it. timeupdate only fires
+    // a few times a second, so the out point is checked every animation frame instead.
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video || !loopRange) return;
+
+      video.currentTime = loopRange.start;
+      video.play().catch(() => undefined);
+
+      let frame = 0;
+      const check = () => {
+        if (video.currentTime >= loopRange.end || video.currentTime < loopRange.start - 0.5) {
+          video.currentTime = loopRange.start;
+        }
+        frame = requestAnimationFrame(check);
+      };
+      frame = requestAnimationFrame(check);
+      return () => cancelAnimationFrame(frame);
+    }, [loopRange]);
+
     useEffect(() => {
       const onMessage = (event: MessageEvent) => {
         try {
@@ -140,29 +483,6 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
       }
     }, [platform]);
 
-    const detectPlatform = (videoUrl: string) => {
-      if (!videoUrl) {
-        setPlatform("unknown");
-        return;
-      }
-
-      if (videoUrl.includes("youtube.com") || videoUrl.includes("youtu.be")) {
-        setPlatform("youtube");
-      } else if (videoUrl.includes("drive.google.com") || videoUrl.includes("docs.google.com")) {
-        setPlatform("google-drive");
-      } else if (videoUrl.includes("vimeo.com")) {
-        setPlatform("vimeo");
-      } else if (videoUrl.includes("dropbox.com")) {
-        setPlatform("dropbox");
-      } else if (videoUrl.includes("onedrive.live.com") || videoUrl.includes("sharepoint.com")) {
-        setPlatform("onedrive");
-      } else if (videoUrl.endsWith('.mp4') || videoUrl.endsWith('.webm') || videoUrl.endsWith('.mov')) {
-        setPlatform("direct");
-      } else {
-        setPlatform("unknown");
-      }
-    };
-
     const getEmbedUrl = (videoUrl: string) => {
       if (!videoUrl) return "";
 
@@ -216,6 +536,7 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
     };
 
     const handlePlayPause = () => {
+      setReverseSpeed(0);
       if (videoRef.current) {
         if (isPlaying) {
           videoRef.current.pause();
@@ -251,9 +572,33 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
     const handleLoadedMetadata = () => {
       if (videoRef.current) {
         setDuration(videoRef.current.duration);
+        onDurationChange?.(videoRef.current.duration);
+        // Size the element to the video so annotation coordinates map onto the frame, not letterboxing
+        const { videoWidth, videoHeight } = videoRef.current;
+        setFrameSize(videoWidth && videoHeight ? { width: videoWidth, height: videoHeight } : null);
       }
     };
 
+    const startDrawing = () => {
+      const video = videoRef.current;
+      if (!video || !onAnnotationDraftChange) return;
+      video.pause();
+
+      // Carry on with an unfinished drawing on its own frame
+      if (annotationDraft?.shapes.length) {
+        video.currentTime = annotationDraft.timestamp;
+        setCurrentTime(annotationDraft.timestamp);
+      } else {
+        onAnnotationDraftChange({ timestamp: video.currentTime, shapes: [] });
+      }
+      setDrawingTool(drawingTool ?? "rect");
+    };
+
+    const finishDrawing = () => {
+      setDrawingTool(null);
+      if (annotationDraft && annotationDraft.shapes.length === 0) onAnnotationDraftChange?.(null);
+    };
+
     const handleSeek = (value: number[]) => {
       if (videoRef.current) {
         videoRef.current.currentTime = value[0];
@@ -261,18 +606,18 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
       }
     };
 
+    const segmentStyle = ({ start, end }: TimeRange) => ({
+      left: `${(start / duration) * 100}%`,
+      // Keep very short ranges visible
+      width: `max(4px, ${((end - start) / duration) * 100}%)`
+    });
+
     const handleFullscreen = () => {
       if (videoRef.current) {
         videoRef.current.requestFullscreen();
       }
     };
 
-    const formatTime = (seconds: number) => {
-      const mins = Math.floor(seconds / 60);
-      const secs = Math.floor(seconds % 60);
-      return `${mins}:${secs.toString().padStart(2, "0")}`;
-    };
-
     if (!url) {
       return (
         <div className="w-full aspect-video bg-muted flex items-center justify-center">
@@ -297,31 +642,174 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
     }
 
     // For direct video files or unsupported platforms
-    if (platform === "direct" || platform === 'dropbox') {
+    if (usesVideoElement) {
+      const visibleShapes = drawingTool
+        ? annotationDraft?.shapes ?? []
+        : [...annotations, ...(annotationDraft ? [{ id: "draft", ...annotationDraft }] : [])]
+            .filter((annotation) => isOnFrame(currentTime, annotation.timestamp, frameRate))
+            .flatMap((annotation) => annotation.shapes);
+
       return (
         <div className="w-full bg-black relative group">
-          <video
-            ref={videoRef}
-            src={url}
-            className="w-full aspect-video"
-            onTimeUpdate={handleTimeUpdate}
-            onLoadedMetadata={handleLoadedMetadata}
-            onPlay={() => setIsPlaying(true)}
-            onPause={() => setIsPlaying(false)}
-          />
+          <div className="relative mx-auto" style={frameSize ? { aspectRatio: `${frameSize.width} / ${frameSize.height}`, maxWidth: `calc(75vh * ${frameSize.width / frameSize.height})` } : undefined}>
+            <video
+              ref={videoRef}
+              src={platform === 'hls' || platform === 'dash' ? undefined : url}
+              poster={poster}
+              className={`w-full ${frameSize ? "h-full" : "aspect-video"}`}
+              onTimeUpdate={handleTimeUpdate}
+              onSeeked={handleTimeUpdate}
+              onLoadedMetadata={handleLoadedMetadata}
+              onPlay={() => {
+                setIsPlaying(true);
+                setDrawingTool(null);
+                setReverseSpeed(0);
+              }}
+              onPause={() => setIsPlaying(false)}
+            />
 
-          {/* Custom Controls */}
-          <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity">
-            <Slider
-              value={[currentTime]}
-              max={duration}
-              step={0.1}
-              onValueChange={handleSeek}
-              className="mb-4"
+            <AnnotationOverlay
+              shapes={visibleShapes}
+              tool={drawingTool}
+              color={drawingColor}
+              onChange={(shapes) => annotationDraft && onAnnotationDraftChange?.({ ...annotationDraft, shapes })}
             />
 
+            {streamError && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/80 p-6 text-center">
+                <p className="text-sm text-white">This stream could not be played ({streamError}).</p>
+                <Button asChild size="sm" variant="secondary">
+                  <a href={url} target="_blank" rel="noopener noreferrer">
+                    Open in New Tab
+                  </a>
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Drawing Toolbar */}
+          {drawingTool && (
+            <div className="absolute top-2 left-2 right-2 flex flex-wrap items-center gap-1 rounded-lg bg-black/70 p-1">
+              {DRAWING_TOOLS.map(({ tool, label, icon: Icon }) => (
+                <Button
+                  key={tool}
+                  size="sm"
+                  variant="ghost"
+                  title={label}
+                  onClick={() => setDrawingTool(tool)}
+                  className={`text-white hover:text-white h-8 w-8 p-0 ${drawingTool === tool ? "bg-white/20" : ""}`}
+                >
+                  <Icon className="w-4 h-4" />
+                </Button>
+              ))}
+              <div className="flex items-center gap-1 px-2">
+                {ANNOTATION_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    title={color}
+                    onClick={() => setDrawingColor(color)}
+                    className={`h-5 w-5 rounded-full border-2 ${drawingColor === color ? "border-white" : "border-transparent"}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Undo"
+                disabled={!annotationDraft?.shapes.length}
+                onClick={() => annotationDraft && onAnnotationDraftChange?.({ ...annotationDraft, shapes: annotationDraft.shapes.slice(0, -1) })}
+                className="text-white hover:text-white h-8 w-8 p-0"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Clear"
+                disabled={!annotationDraft?.shapes.length}
+                onClick={() => annotationDraft && onAnnotationDraftChange?.({ ...annotationDraft, shapes: [] })}
+                className="text-white hover:text-white h-8 w-8 p-0"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={finishDrawing} className="text-white hover:text-white h-8 ml-auto">
+                <Check className="w-4 h-4 mr-1" />
+                Done
+              </Button>
+            </div>
+          )}
+
+          {/* Custom Controls */}
+          <div className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 opacity-0 transition-opacity ${drawingTool || !showControls ? "hidden" : "group-hover:opacity-100"}`}>
+            <div
+              className="relative mt-6 mb-4"
+              onPointerMove={(e) => {
+                const rect = e.currentTarget.getBoundingClientRect();
+                setScrubPosition(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+              }}
+              onPointerLeave={() => setScrubPosition(null)}
+            >
+              {scrubSprite && scrubPosition !== null && duration > 0 && (
+                <div
+                  className="absolute bottom-full mb-3 -translate-x-1/2 rounded border border-white/40 bg-black shadow-lg pointer-events-none"
+                  style={{ left: `clamp(${SCRUB_PREVIEW_WIDTH / 2}px, ${scrubPosition * 100}%, calc(100% - ${SCRUB_PREVIEW_WIDTH / 2}px))` }}
+                >
+                  <div style={spriteTileStyle(scrubSprite.sheet, scrubSprite.url, scrubPosition * duration, SCRUB_PREVIEW_WIDTH)} />
+                  <p className="py-0.5 text-center text-xs text-white tabular-nums">
+                    {formatTimecode(scrubPosition * duration, frameRate)}
+                  </p>
+                </div>
+              )}
+
+              <Slider
+                value={[currentTime]}
+                max={duration}
+                step={0.1}
+                onValueChange={handleSeek}
+              />
+
+              <TimelineMarkers markers={markers} duration={duration} frameRate={frameRate} onSelect={selectMarker} />
+
+              {/* Range comments, the range being marked and the loop */}
+              {duration > 0 && (
+                <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 pointer-events-none">
+                  {markers.filter((marker) => marker.end != null).map((marker) => (
+                    <div
+                      key={marker.id}
+                      className={`absolute h-full rounded-full ${marker.resolved ? "bg-muted-foreground/60" : "bg-primary/80"}`}
+                      style={segmentStyle({ start: marker.start, end: marker.end! })}
+                    />
+                  ))}
+                  {rangeDraft && (
+                    <div
+                      className="absolute h-full rounded-full bg-white/70"
+                      style={segmentStyle({ start: rangeDraft.start, end: rangeDraft.end ?? rangeDraft.start })}
+                    />
+                  )}
+                  {loopRange && (
+                    <div
+                      className="absolute -inset-y-1 rounded-sm border-2 border-white"
+                      style={segmentStyle(loopRange)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Previous frame (←)"
+                  onClick={() => stepFrames(-1)}
+                  className="text-white hover:text-white px-2"
+                >
+                  <StepBack className="w-4 h-4" />
+                </Button>
+
                 <Button
                   size="sm"
                   variant="ghost"
@@ -331,6 +819,16 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
                   {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                 </Button>
 
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Next frame (→)"
+                  onClick={() => stepFrames(1)}
+                  className="text-white hover:text-white px-2"
+                >
+                  <StepForward className="w-4 h-4" />
+                </Button>
+
                 <Button
                   size="sm"
                   variant="ghost"
@@ -348,19 +846,99 @@ export const UniversalVideoPlayer = forwardRef<any, UniversalVideoPlayerProps>(
                   className="w-24"
                 />
 
-                <span className="text-white text-sm ml-2">
-                  {formatTime(currentTime)} / {formatTime(duration)}
+                <span className="text-white text-sm ml-2 font-mono tabular-nums" title={`${frameRate} fps`}>
+                  {formatTimecode(currentTime, frameRate)} / {formatTimecode(duration, frameRate)}
                 </span>
+
+                {reverseSpeed > 0 && (
+                  <span className="flex items-center text-white text-xs">
+                    <Rewind className="w-3 h-3 mr-1" />
+                    {reverseSpeed}x
+                  </span>
+                )}
               </div>
 
-              <Button
-                size="sm"
-                variant="ghost"
-                onClick={handleFullscreen}
-                className="text-white hover:text-white"
-              >
-                <Maximize className="w-4 h-4" />
-              </Button>
+              <div className="flex items-center gap-2">
+                {loopRange && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Stop looping"
+                    onClick={() => onLoopRangeChange?.(null)}
+                    className="text-white hover:text-white bg-white/20"
+                  >
+                    <Repeat className="w-4 h-4 mr-1" />
+                    {formatTimecode(loopRange.start, frameRate)} - {formatTimecode(loopRange.end, frameRate)}
+                  </Button>
+                )}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="ghost" title="Playback speed (J/K/L)" className="text-white hover:text-white tabular-nums">
+                      {playbackRate}x
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Speed</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuRadioGroup value={String(playbackRate)} onValueChange={(value) => changeSpeed(Number(value))}>
+                      {SHUTTLE_SPEEDS.map((speed) => (
+                        <DropdownMenuRadioItem key={speed} value={String(speed)}>
+                          {speed}x
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
+                {qualityLevels.length > 1 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="sm" variant="ghost" title="Quality" className="text-white hover:text-white">
+                        <Settings className="w-4 h-4 mr-1" />
+                        {selectedLevel === AUTO_LEVEL
+                          ? `Auto${qualityLevels[activeLevel] ? ` (${qualityLevels[activeLevel].label})` : ""}`
+                          : qualityLevels[selectedLevel]?.label}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>Quality</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuRadioGroup value={String(selectedLevel)} onValueChange={handleQualityChange}>
+                        <DropdownMenuRadioItem value={String(AUTO_LEVEL)}>Auto</DropdownMenuRadioItem>
+                        {[...qualityLevels]
+                          .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate)
+                          .map((level) => (
+                            <DropdownMenuRadioItem key={level.index} value={String(level.index)}>
+                              {level.label}
+                            </DropdownMenuRadioItem>
+                          ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
+                {onAnnotationDraftChange && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={startDrawing}
+                    className="text-white hover:text-white"
+                  >
+                    <PenLine className="w-4 h-4 mr-1" />
+                    Annotate
+                  </Button>
+                )}
+
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleFullscreen}
+                  className="text-white hover:text-white"
+                >
+                  <Maximize className="w-4 h-4" />
+                </Button>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,203 @@
+import * as React from "react";
+import {
+  useMutation as useQueryMutation,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+  type QueryKey
+} from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  applyWrite,
+  db,
+  getColumnFilters,
+  matchesWhere,
+  type BatchOperation,
+  type CollectionName,
+  type InsertRow,
+  type Row,
+  type TypedQuery,
+  type UniversalQuery,
+  type UpdateRow,
+  type Where,
+  type WhereClause
+} from "@/lib/database-config";
+
+export type CollectionQuery<C extends CollectionName, S extends string = "*"> = Omit<
+  TypedQuery<C, "select", S>,
+  "operation" | "data" | "aggregates" | "groupBy"
+>;
+
+export interface CollectionOptions {
+  /** Refetch when Supabase realtime reports a change to the collection (default true) */
+  realtime?: boolean;
+}
+
+/** Every cache entry of a collection starts with this key, so it can be invalidated as a whole */
+export const collectionKey = (collection: CollectionName): QueryKey => ["db", collection];
+
+const listKey = <C extends CollectionName, S extends string>(query: CollectionQuery<C, S>): QueryKey => {
+  const { collection, ...rest } = query;
+  return [...collectionKey(collection), "list", rest];
+};
+
+const recordKey = (collection: CollectionName, id: string): QueryKey => [...collectionKey(collection), "record", id];
+
+// One realtime channel per collection and filter, shared by every mounted hook that reads it
+const channels = new Map<string, { unsubscribe: () => void; subscribers: number }>();
+
+type ChangedRow = Record<string, unknown>;
+
+/** Realtime takes a single equality filter, so this is the first plain equality of the where clause */
+const realtimeFilter = (where?: WhereClause) => {
+  const equality = getColumnFilters(where || {}).find(({ operator, value }) => operator === "eq" && value !== null);
+  return equality ? `${equality.column}=eq.${equality.value}` : undefined;
+};
+
+/** Lists the changed row belongs to or belonged to, and its own record */
+const isAffected = (key: QueryKey, data: unknown, row: ChangedRow) => {
+  if (key[2] === "record") return key[3] === row.id;
+  if (key[2] !== "list") return true;
+
+  const query = key[3] as Pick<UniversalQuery, "where">;
+  const listed = Array.isArray(data) && data.some((item: ChangedRow) => item.id === row.id);
+  return listed || matchesWhere(row, query.where);
+};
+
+const subscribeToCollection = (queryClient: QueryClient, collection: CollectionName, where?: WhereClause) => {
+  const filter = realtimeFilter(where);
+  const channelKey = `${collection}:${filter ?? "*"}`;
+  let entry = channels.get(channelKey);
+
+  if (!entry) {
+    // Events only arrive while the data lives in Supabase and the table is in the supabase_realtime publication
+    const channel = supabase
+      .channel(`db-${channelKey}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: collection, filter },
+        (payload: RealtimePostgresChangesPayload<ChangedRow>) => {
+          // Deletes only carry the old row's key
+          const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as ChangedRow;
+          queryClient.invalidateQueries({
+            queryKey: collectionKey(collection),
+            predicate: (query) => isAffected(query.queryKey, query.state.data, row)
+          });
+        }
+      )
+      .subscribe();
+
+    entry = { unsubscribe: () => supabase.removeChannel(channel), subscribers: 0 };
+    channels.set(channelKey, entry);
+  }
+
+  entry.subscribers++;
+
+  return () => {
+    entry.subscribers--;
+    if (entry.subscribers === 0) {
+      entry.unsubscribe();
+      channels.delete(channelKey);
+    }
+  };
+};
+
+/**
+ * Invalidates the cached queries of `collection` that a changed row affects. Pass the
+ * query's where clause to only hear about rows matching its first equality.
+ */
+export function useRealtimeInvalidation(collection: CollectionName, where?: WhereClause, enabled = true) {
+  const queryClient = useQueryClient();
+  // Compared by value, so a where clause written inline does not resubscribe on every render
+  const whereKey = JSON.stringify(where ?? null);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    return subscribeToCollection(queryClient, collection, JSON.parse(whereKey) ?? undefined);
+  }, [queryClient, collection, whereKey, enabled]);
+}
+
+/**
+ * Cached db.query select. Pass null to skip loading (e.g. before auth resolves).
+ * Lists are keyed by collection and query, and refetched on realtime changes to their rows.
+ */
+export function useCollection<C extends CollectionName, S extends string = "*">(
+  query: CollectionQuery<C, S> | null,
+  { realtime = true }: CollectionOptions = {}
+) {
+  useRealtimeInvalidation(query?.collection ?? ("" as C), query?.where as WhereClause | undefined, realtime && !!query);
+
+  return useQuery({
+    queryKey: query ? listKey(query) : ["db", "disabled"],
+    queryFn: () => db.query({ ...query, operation: "select" } as TypedQuery<C, "select", S>),
+    enabled: !!query
+  });
+}
+
+/** A single row by id, or null when it does not exist */
+export function useRecord<C extends CollectionName>(
+  collection: C,
+  id: string | null | undefined,
+  { realtime = true }: CollectionOptions = {}
+) {
+  useRealtimeInvalidation(collection, { id: id ?? null }, realtime && !!id);
+
+  return useQuery({
+    queryKey: recordKey(collection, id ?? ""),
+    queryFn: async () => {
+      const rows = await db.query({
+        collection,
+        operation: "select",
+        where: { id } as Where<C>,
+        limit: 1
+      } as TypedQuery<C, "select">);
+      return (rows?.[0] ?? null) as Row<C> | null;
+    },
+    enabled: !!id
+  });
+}
+
+export type MutationVariables<C extends CollectionName> =
+  | { operation: "insert"; data: InsertRow<C> }
+  | { operation: "update"; where: Where<C>; data: UpdateRow<C> }
+  | { operation: "delete"; where: Where<C> };
+
+/**
+ * Writes to `collection` through db.query. Cached lists and records of the
+ * collection are patched immediately, rolled back if the write fails and
+ * refetched once it settles.
+ */
+export function useMutation<C extends CollectionName>(collection: C) {
+  const queryClient = useQueryClient();
+
+  return useQueryMutation({
+    mutationFn: (variables: MutationVariables<C>) =>
+      db.query({ collection, ...variables } as TypedQuery<C, MutationVariables<C>["operation"]>),
+
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey: collectionKey(collection) });
+      const snapshot = queryClient.getQueriesData<unknown>({ queryKey: collectionKey(collection) });
+
+      snapshot.forEach(([key, data]) => {
+        if (!data) return;
+
+        if (key[2] === "list" && Array.isArray(data)) {
+          const query = key[3] as Pick<UniversalQuery, "where" | "orderBy">;
+          queryClient.setQueryData(key, applyWrite(data as Record<string, unknown>[], query, { collection, ...variables } as BatchOperation));
+        } else if (key[2] === "record" && variables.operation !== "insert") {
+          const [row] = applyWrite([data as Record<string, unknown>], {}, { collection, ...variables } as BatchOperation);
+          queryClient.setQueryData(key, row ?? null);
+        }
+      });
+
+      return { snapshot };
+    },
+
+    onError: (_error, _variables, context) => {
+      context?.snapshot.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    },
+
+    onSettled: () => queryClient.invalidateQueries({ queryKey: collectionKey(collection) })
+  });
+}
@@ -0,0 +1,106 @@
+import * as React from "react";
+import {
+  db,
+  type CollectionName,
+  type SelectRow,
+  type TypedPaginatedQuery
+} from "@/lib/database-config";
+
+/** Keeps returning the same object while `value` stays equal by value */
+function useValueMemo<T>(value: T): T {
+  const key = JSON.stringify(value);
+  const memo = React.useRef({ key, value });
+  if (memo.current.key !== key) memo.current = { key, value };
+  return memo.current.value;
+}
+
+/**
+ * Loads the first page of `query` whenever it changes and appends further
+ * pages on loadMore(). Pass null to skip loading (e.g. before auth resolves).
+ */
+export function usePaginatedQuery<C extends CollectionName, S extends string = "*">(
+  query: Omit<TypedPaginatedQuery<C, S>, "cursor"> | null
+) {
+  type T = SelectRow<C, S>;
+  const [rows, setRows] = React.useState<T[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [loaded, setLoaded] = React.useState(false);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [error, setError] = React.useState<Error | null>(null);
+
+  // Queries are usually built inline, so compare them by value
+  const stableQuery = useValueMemo(query);
+  const requestId = React.useRef(0);
+
+  const reload = React.useCallback(async () => {
+    if (!stableQuery) return;
+    const id = ++requestId.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const page = await db.paginate<C, S>(stableQuery);
+      if (id !== requestId.current) return;
+      setRows(page.rows);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (id === requestId.current) setError(err as Error);
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+        setLoaded(true);
+      }
+    }
+  }, [stableQuery]);
+
+  const loadMore = React.useCallback(async () => {
+    if (!stableQuery || !nextCursor) return;
+    const id = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await db.paginate<C, S>({ ...stableQuery, cursor: nextCursor });
+      if (id !== requestId.current) return;
+      setRows((prev) => [...prev, ...page.rows]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [stableQuery, nextCursor]);
+
+  React.useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return {
+    rows,
+    setRows,
+    total,
+    loading,
+    /** True until the first page (or its error) arrives; later reloads keep showing the old rows */
+    initialLoading: !loaded,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    reload,
+  };
+}
+
+/** Delays a fast-changing value (e.g. a search box) before it reaches a query */
+export function useDebouncedValue<T>(value: T, delayMs = 300) {
+  const [debounced, setDebounced] = React.useState(value);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { getPlaybackUrl, isStoredVideo, SIGNED_URL_TTL } from "@/lib/video-storage";
+
+/**
+ * Usable URL for a version's preview_url / final_url or generated media. Stored files get a signed URL,
+ * which is reused until shortly before it expires; a new one would reload the player.
+ */
+export function usePlaybackUrl(url: string | null | undefined) {
+  const stored = isStoredVideo(url);
+
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["playback-url", url],
+    queryFn: () => getPlaybackUrl(url!),
+    enabled: stored,
+    staleTime: (SIGNED_URL_TTL - 10 * 60) * 1000,
+    gcTime: (SIGNED_URL_TTL - 10 * 60) * 1000,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false
+  });
+
+  return {
+    url: stored ? data ?? "" : url ?? "",
+    error: error as Error | null,
+    isLoading: stored && isLoading
+  };
+}
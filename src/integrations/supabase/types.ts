@@ -44,6 +44,62 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "ai_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_keys: {
         Row: {
           api_key: string
@@ -86,6 +142,106 @@ export type Database = {
         }
         Relationships: []
       }
+      app_settings: {
+        Row: {
+          created_at: string
+          id: string
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      approval_log: {
+        Row: {
+          created_at: string
+          decision: string
+          id: string
+          notes: string | null
+          stage_id: string | null
+          stage_name: string
+          user_id: string
+          version_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision: string
+          id?: string
+          notes?: string | null
+          stage_id?: string | null
+          stage_name: string
+          user_id: string
+          version_id: string
+        }
+        Update: {
+          created_at?: string
+          decision?: string
+          id?: string
+          notes?: string | null
+          stage_id?: string | null
+          stage_name?: string
+          user_id?: string
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_log_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "video_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_stages: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          project_id: string
+          reviewer_ids: string[]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position: number
+          project_id: string
+          reviewer_ids: string[]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          project_id?: string
+          reviewer_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_stages_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           company: string | null
@@ -191,32 +347,196 @@ export type Database = {
         }
         Relationships: []
       }
+      feedback_tasks: {
+        Row: {
+          assignee_id: string | null
+          created_at: string
+          feedback_id: string
+          id: string
+          status: string
+          updated_at: string
+          updated_by: string | null
+          version_id: string
+          waived_reason: string | null
+        }
+        Insert: {
+          assignee_id?: string | null
+          created_at?: string
+          feedback_id: string
+          id?: string
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          version_id: string
+          waived_reason?: string | null
+        }
+        Update: {
+          assignee_id?: string | null
+          created_at?: string
+          feedback_id?: string
+          id?: string
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          version_id?: string
+          waived_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_tasks_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: true
+            referencedRelation: "video_feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_tasks_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "video_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_projects: {
+        Row: {
+          created_at: string | null
+          id: string
+          invoice_id: string
+          project_fee: number
+          project_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          invoice_id: string
+          project_fee: number
+          project_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          invoice_id?: string
+          project_fee?: number
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_projects_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_projects_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          created_at: string | null
+          editor_id: string
+          id: string
+          invoice_number: string | null
+          month: string
+          notes: string | null
+          paid_amount: number
+          paid_date: string | null
+          payment_method: string | null
+          proceed_date: string | null
+          remaining_amount: number
+          status: string
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          editor_id: string
+          id?: string
+          invoice_number?: string | null
+          month: string
+          notes?: string | null
+          paid_amount?: number
+          paid_date?: string | null
+          payment_method?: string | null
+          proceed_date?: string | null
+          remaining_amount?: number
+          status?: string
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          editor_id?: string
+          id?: string
+          invoice_number?: string | null
+          month?: string
+          notes?: string | null
+          paid_amount?: number
+          paid_date?: string | null
+          payment_method?: string | null
+          proceed_date?: string | null
+          remaining_amount?: number
+          status?: string
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_editor_id_fkey"
+            columns: ["editor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          attachment_type: string | null
+          attachment_url: string | null
           content: string
           created_at: string
+          edited: boolean | null
           id: string
           is_read: boolean
           project_id: string | null
+          reactions: Json | null
           recipient_id: string | null
+          reply_to_message_id: string | null
           sender_id: string
         }
         Insert: {
+          attachment_type?: string | null
+          attachment_url?: string | null
           content: string
           created_at?: string
+          edited?: boolean | null
           id?: string
           is_read?: boolean
           project_id?: string | null
+          reactions?: Json | null
           recipient_id?: string | null
+          reply_to_message_id?: string | null
           sender_id: string
         }
         Update: {
+          attachment_type?: string | null
+          attachment_url?: string | null
           content?: string
           created_at?: string
+          edited?: boolean | null
           id?: string
           is_read?: boolean
           project_id?: string | null
+          reactions?: Json | null
           recipient_id?: string | null
+          reply_to_message_id?: string | null
           sender_id?: string
         }
         Relationships: [
@@ -236,6 +556,39 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       payments: {
         Row: {
           amount: number
@@ -396,6 +749,7 @@ export type Database = {
           editor_id: string | null
           fee: number | null
           id: string
+          invoice_id: string | null
           is_subproject: boolean | null
           name: string
           parent_project_id: string | null
@@ -414,6 +768,7 @@ export type Database = {
           editor_id?: string | null
           fee?: number | null
           id?: string
+          invoice_id?: string | null
           is_subproject?: boolean | null
           name: string
           parent_project_id?: string | null
@@ -432,6 +787,7 @@ export type Database = {
           editor_id?: string | null
           fee?: number | null
           id?: string
+          invoice_id?: string | null
           is_subproject?: boolean | null
           name?: string
           parent_project_id?: string | null
@@ -464,6 +820,79 @@ export type Database = {
           },
         ]
       }
+      review_link_password_failures: {
+        Row: {
+          failed_at: string
+          id: string
+          link_id: string
+        }
+        Insert: {
+          failed_at?: string
+          id?: string
+          link_id: string
+        }
+        Update: {
+          failed_at?: string
+          id?: string
+          link_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_link_password_failures_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "review_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_links: {
+        Row: {
+          allow_download: boolean
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          has_password: boolean
+          id: string
+          password_hash: string | null
+          revoked_at: string | null
+          token: string
+          version_id: string
+        }
+        Insert: {
+          allow_download?: boolean
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          has_password?: never
+          id?: string
+          password_hash?: string | null
+          revoked_at?: string | null
+          token?: string
+          version_id: string
+        }
+        Update: {
+          allow_download?: boolean
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          has_password?: never
+          id?: string
+          password_hash?: string | null
+          revoked_at?: string | null
+          token?: string
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_links_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "video_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscription_plans: {
         Row: {
           billing_period: string
@@ -512,6 +941,60 @@ export type Database = {
         }
         Relationships: []
       }
+      transactions: {
+        Row: {
+          amount: number
+          created_at: string | null
+          description: string
+          editor_id: string
+          id: string
+          invoice_id: string | null
+          payment_method: string | null
+          transaction_date: string
+          transaction_type: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          description: string
+          editor_id: string
+          id?: string
+          invoice_id?: string | null
+          payment_method?: string | null
+          transaction_date?: string
+          transaction_type: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          description?: string
+          editor_id?: string
+          id?: string
+          invoice_id?: string | null
+          payment_method?: string | null
+          transaction_date?: string
+          transaction_type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_editor_id_fkey"
+            columns: ["editor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -533,39 +1016,164 @@ export type Database = {
         }
         Relationships: []
       }
+      video_feedback: {
+        Row: {
+          addressed: boolean | null
+          addressed_at: string | null
+          addressed_by: string | null
+          annotations: Json | null
+          carried_from_id: string | null
+          comment_text: string
+          created_at: string
+          end_seconds: number | null
+          guest_name: string | null
+          id: string
+          is_resolved: boolean
+          mentions: string[]
+          parent_id: string | null
+          pin_x: number | null
+          pin_y: number | null
+          resolved_at: string | null
+          resolved_by: string | null
+          review_link_id: string | null
+          timestamp_seconds: number | null
+          updated_at: string
+          user_id: string | null
+          version_id: string
+        }
+        Insert: {
+          addressed?: boolean | null
+          addressed_at?: string | null
+          addressed_by?: string | null
+          annotations?: Json | null
+          carried_from_id?: string | null
+          comment_text: string
+          created_at?: string
+          end_seconds?: number | null
+          guest_name?: string | null
+          id?: string
+          is_resolved?: boolean
+          mentions?: string[]
+          parent_id?: string | null
+          pin_x?: number | null
+          pin_y?: number | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_link_id?: string | null
+          timestamp_seconds?: number | null
+          updated_at?: string
+          user_id?: string | null
+          version_id: string
+        }
+        Update: {
+          addressed?: boolean | null
+          addressed_at?: string | null
+          addressed_by?: string | null
+          annotations?: Json | null
+          carried_from_id?: string | null
+          comment_text?: string
+          created_at?: string
+          end_seconds?: number | null
+          guest_name?: string | null
+          id?: string
+          is_resolved?: boolean
+          mentions?: string[]
+          parent_id?: string | null
+          pin_x?: number | null
+          pin_y?: number | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_link_id?: string | null
+          timestamp_seconds?: number | null
+          updated_at?: string
+          user_id?: string | null
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_feedback_carried_from_id_fkey"
+            columns: ["carried_from_id"]
+            isOneToOne: false
+            referencedRelation: "video_feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_feedback_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "video_feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_feedback_review_link_id_fkey"
+            columns: ["review_link_id"]
+            isOneToOne: false
+            referencedRelation: "review_links"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_feedback_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "video_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_versions: {
         Row: {
+          approval_status: string | null
           correction_notes: string | null
           created_at: string
+          final_link_requested: boolean | null
+          final_sha256: string | null
           final_url: string | null
+          frame_rate: number
           id: string
           is_approved: boolean
+          media: Json | null
+          preview_sha256: string | null
           preview_url: string | null
           project_id: string
+          ready_for_review_at: string | null
           updated_at: string
           uploaded_by: string
           version_number: number
         }
         Insert: {
+          approval_status?: string | null
           correction_notes?: string | null
           created_at?: string
+          final_link_requested?: boolean | null
+          final_sha256?: string | null
           final_url?: string | null
+          frame_rate?: number
           id?: string
           is_approved?: boolean
+          media?: Json | null
+          preview_sha256?: string | null
           preview_url?: string | null
           project_id: string
+          ready_for_review_at?: string | null
           updated_at?: string
           uploaded_by: string
           version_number: number
         }
         Update: {
+          approval_status?: string | null
           correction_notes?: string | null
           created_at?: string
+          final_link_requested?: boolean | null
+          final_sha256?: string | null
           final_url?: string | null
+          frame_rate?: number
           id?: string
           is_approved?: boolean
+          media?: Json | null
+          preview_sha256?: string | null
           preview_url?: string | null
           project_id?: string
+          ready_for_review_at?: string | null
           updated_at?: string
           uploaded_by?: string
           version_number?: number
@@ -585,6 +1193,58 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_manage_project: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: boolean
+      }
+      carry_forward_feedback: {
+        Args: { _from_version_id: string; _to_version_id: string }
+        Returns: number
+      }
+      check_review_link_password: {
+        Args: { _link_id: string; _password: string }
+        Returns: string
+      }
+      create_review_link: {
+        Args: {
+          _allow_download: boolean
+          _expires_at: string | null
+          _password: string | null
+          _version_id: string
+        }
+        Returns: {
+          allow_download: boolean
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          has_password: boolean
+          id: string
+          password_hash: string | null
+          revoked_at: string | null
+          token: string
+          version_id: string
+        }
+      }
+      current_approval_stage: {
+        Args: { _version_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          project_id: string
+          reviewer_ids: string[]
+        }
+      }
+      get_active_database_config: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          config: Json
+          is_active: boolean
+          provider: string
+          stored_secrets: string[]
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -596,6 +1256,43 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_approval_reviewer: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: boolean
+      }
+      record_approval_decision: {
+        Args: { _decision: string; _notes: string; _version_id: string }
+        Returns: {
+          approval_status: string | null
+          correction_notes: string | null
+          created_at: string
+          final_link_requested: boolean | null
+          final_sha256: string | null
+          final_url: string | null
+          frame_rate: number
+          id: string
+          is_approved: boolean
+          media: Json | null
+          preview_sha256: string | null
+          preview_url: string | null
+          project_id: string
+          updated_at: string
+          uploaded_by: string
+          version_number: number
+        }
+      }
+      set_feedback_addressed: {
+        Args: { _addressed: boolean; _feedback_id: string }
+        Returns: Json
+      }
+      set_feedback_resolution: {
+        Args: { _action: string; _feedback_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "editor" | "client" | "agency" | "admin"
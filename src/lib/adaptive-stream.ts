@@ -0,0 +1,121 @@
+/**
+ * HLS (.m3u8) and DASH (.mpd) playback for the <video> player
+ * hls.js and dash.js are only loaded when a stream is opened; Safari plays HLS natively
+ */
+
+export type StreamKind = 'hls' | 'dash';
+
+export interface QualityLevel {
+  index: number;
+  height: number;
+  bitrate: number;
+  label: string;
+}
+
+export interface StreamController {
+  /** -1 hands the choice back to adaptive bitrate */
+  setLevel(index: number): void;
+  destroy(): void;
+}
+
+export interface StreamCallbacks {
+  onLevels: (levels: QualityLevel[]) => void;
+  /** The rendition actually playing, which differs from the selection while on auto */
+  onLevelChange?: (index: number) => void;
+  onError?: (message: string) => void;
+}
+
+export const AUTO_LEVEL = -1;
+
+const toLevel = (index: number, height: number, bitrate: number): QualityLevel => ({
+  index,
+  height,
+  bitrate,
+  label: height ? `${height}p` : `${Math.round(bitrate / 1000)} kbps`
+});
+
+const attachHls = async (video: HTMLVideoElement, url: string, callbacks: StreamCallbacks): Promise<StreamController> => {
+  const { default: Hls } = await import('hls.js');
+
+  if (!Hls.isSupported()) {
+    // Safari has HLS built in but gives no control over renditions
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = url;
+      callbacks.onLevels([]);
+      return {
+        setLevel: () => undefined,
+        destroy: () => {
+          video.removeAttribute('src');
+          video.load();
+        }
+      };
+    }
+    throw new Error('HLS playback is not supported in this browser');
+  }
+
+  const hls = new Hls();
+  hls.on(Hls.Events.MANIFEST_PARSED, () => {
+    callbacks.onLevels(hls.levels.map((level, index) => toLevel(index, level.height, level.bitrate)));
+  });
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => callbacks.onLevelChange?.(data.level));
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+    // The two recoverable kinds, as recommended by hls.js
+    if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+      hls.startLoad();
+    } else if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+      hls.recoverMediaError();
+    } else {
+      callbacks.onError?.(data.details);
+      hls.destroy();
+    }
+  });
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  return {
+    setLevel: (index) => {
+      hls.currentLevel = index;
+    },
+    destroy: () => hls.destroy()
+  };
+};
+
+const attachDash = async (video: HTMLVideoElement, url: string, callbacks: StreamCallbacks): Promise<StreamController> => {
+  const dashjs = await import('dashjs');
+
+  if (!dashjs.supportsMediaSource()) {
+    throw new Error('DASH playback is not supported in this browser');
+  }
+
+  const player = dashjs.MediaPlayer().create();
+  const events = dashjs.MediaPlayer.events;
+
+  player.on(events.STREAM_INITIALIZED, () => {
+    callbacks.onLevels(
+      player.getRepresentationsByType('video').map((representation, index) =>
+        toLevel(index, representation.height, representation.bandwidth)
+      )
+    );
+  });
+  player.on(events.QUALITY_CHANGE_RENDERED, (event) => {
+    if (event.mediaType !== 'video') return;
+    const index = player.getRepresentationsByType('video').findIndex((representation) => representation.id === event.newRepresentation.id);
+    callbacks.onLevelChange?.(index);
+  });
+  player.on(events.ERROR, (event) => callbacks.onError?.(String(event.error)));
+  player.initialize(video, url, false);
+
+  return {
+    setLevel: (index) => {
+      const auto = index === AUTO_LEVEL;
+      player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: auto } } } });
+      if (!auto) player.setRepresentationForTypeByIndex('video', index, true);
+    },
+    destroy: () => player.destroy()
+  };
+};
+
+/** Plays `url` in `video` through the matching library; destroy() before reusing the element */
+export const attachStream = (video: HTMLVideoElement, url: string, kind: StreamKind, callbacks: StreamCallbacks) =>
+  kind === 'hls' ? attachHls(video, url, callbacks) : attachDash(video, url, callbacks);
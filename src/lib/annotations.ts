@@ -0,0 +1,40 @@
+/**
+ * Vector drawings made on a paused video frame
+ * Stored per comment in video_feedback.annotations
+ */
+
+import { toFrames } from '@/lib/timecode';
+
+/**
+ * Position on the video frame, 0-1 from the top left corner so shapes survive resizing.
+ * A type alias rather than an interface so shapes can be saved as Json.
+ */
+export type AnnotationPoint = {
+  x: number;
+  y: number;
+};
+
+export type AnnotationTool = 'rect' | 'arrow' | 'freehand';
+
+export type AnnotationShape =
+  | { type: 'rect'; color: string; from: AnnotationPoint; to: AnnotationPoint }
+  | { type: 'arrow'; color: string; from: AnnotationPoint; to: AnnotationPoint }
+  | { type: 'freehand'; color: string; points: AnnotationPoint[] };
+
+/** Shapes drawn on one frame, as stored in video_feedback.annotations */
+export interface TimedAnnotation {
+  id: string;
+  timestamp: number;
+  shapes: AnnotationShape[];
+}
+
+/** Shapes being drawn for a comment that has not been posted yet */
+export type AnnotationDraft = Omit<TimedAnnotation, 'id'>;
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+// Without a frame rate, seeking lands on the exact stored time, so this only absorbs float rounding
+const FRAME_TOLERANCE = 0.04;
+
+export const isOnFrame = (time: number, timestamp: number, fps?: number) =>
+  fps ? toFrames(time, fps) === toFrames(timestamp, fps) : Math.abs(time - timestamp) < FRAME_TOLERANCE;
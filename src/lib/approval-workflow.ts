@@ -0,0 +1,55 @@
+/**
+ * Multi-stage version approval
+ * A project's approval stages sign off in order, each once all of its reviewers have approved.
+ * Decisions go through record_approval_decision, which keeps the approval log and moves the
+ * version and project status on; projects without stages keep the single client sign-off.
+ */
+
+import { db, type Row } from '@/lib/database-config';
+
+export type ApprovalStage = Row<'approval_stages'>;
+export type ApprovalLogEntry = Row<'approval_log'>;
+
+export type ApprovalDecision = 'approved' | 'rejected' | 'corrections_needed';
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecision, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  corrections_needed: 'Corrections needed'
+};
+
+export interface StageProgress {
+  stage: ApprovalStage;
+  /** Reviewers of the stage who have approved this version */
+  approvedBy: string[];
+  passed: boolean;
+}
+
+export const sortStages = (stages: ApprovalStage[]) =>
+  [...stages].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+
+/** Where a version stands on each stage; matches current_approval_stage on the server */
+export const approvalProgress = (stages: ApprovalStage[], log: ApprovalLogEntry[], versionId: string): StageProgress[] =>
+  sortStages(stages).map((stage) => {
+    const approvedBy = stage.reviewer_ids.filter((reviewerId) =>
+      log.some(
+        (entry) =>
+          entry.version_id === versionId &&
+          entry.stage_id === stage.id &&
+          entry.user_id === reviewerId &&
+          entry.decision === 'approved'
+      )
+    );
+    return { stage, approvedBy, passed: approvedBy.length === stage.reviewer_ids.length };
+  });
+
+/** The first stage still waiting on a reviewer, or null once all have passed */
+export const currentStage = (progress: StageProgress[]) => progress.find((item) => !item.passed) ?? null;
+
+/** Records the caller's decision on the version's current stage and returns the updated version */
+export const recordApprovalDecision = (versionId: string, decision: ApprovalDecision, notes = '') =>
+  db.rpc('record_approval_decision', {
+    _version_id: versionId,
+    _decision: decision,
+    _notes: notes
+  });
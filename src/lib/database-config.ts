@@ -3,6 +3,10 @@
  * Provides a unified interface for database operations
  */
 
+import type { Database } from "@/integrations/supabase/types";
+import { migrateDatabase, type MigrationProgress } from "@/lib/database-migration";
+import { OfflineSync } from "@/lib/offline-sync";
+
 // Lazy import to avoid initialization issues
 let supabaseClient: any = null;
 const getSupabase = async () => {
@@ -15,60 +19,480 @@ const getSupabase = async () => {
 
 export type DatabaseProvider = 'supabase' | 'firebase' | 'mysql' | 'postgresql' | 'mongodb' | 'sqlite';
 
-export type QueryOperation = 'select' | 'insert' | 'update' | 'delete' | 'count';
+export type QueryOperation = 'select' | 'insert' | 'update' | 'delete' | 'count' | 'aggregate';
 
 export interface DatabaseConfig {
   provider: DatabaseProvider;
   credentials: any;
   isActive: boolean;
+  /** Secret credential fields that are stored (encrypted) but never returned */
+  storedSecrets: string[];
 }
 
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Column-level comparison. A bare value in a where clause is shorthand for
+ * `{ eq: value }`; several operators on one column are AND-ed together.
+ */
+export interface FilterOperators<V extends FilterValue = FilterValue> {
+  eq?: V | null;
+  neq?: V | null;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  in?: V[];
+  like?: string;
+  ilike?: string;
+  is?: null | boolean;
+}
+
+/**
+ * Filter expression for UniversalQuery.where, e.g.
+ * `{ status: { in: ['draft', 'in_review'] }, or: [{ fee: { gte: 1000 } }, { deadline: { is: null } }] }`
+ * `and` / `or` are reserved keys holding nested clauses.
+ */
+export type WhereClause = {
+  and?: WhereClause[];
+  or?: WhereClause[];
+} & {
+  [column: string]: FilterValue | FilterOperators | WhereClause[] | undefined;
+};
+
+export const FILTER_OPERATORS: (keyof FilterOperators)[] = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'like', 'ilike', 'is'
+];
+
+export const isFilterOperators = (value: unknown): value is FilterOperators =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.keys(value).every((key) => FILTER_OPERATORS.includes(key as keyof FilterOperators));
+
+/**
+ * Flattens a where clause into one entry per column/operator pair so adapters
+ * only need to translate the individual comparisons.
+ */
+export const getColumnFilters = (where: WhereClause) => {
+  const filters: { column: string; operator: keyof FilterOperators; value: FilterValue | FilterValue[] }[] = [];
+
+  Object.entries(where).forEach(([column, condition]) => {
+    if (column === 'and' || column === 'or' || condition === undefined) return;
+
+    if (isFilterOperators(condition)) {
+      Object.entries(condition).forEach(([operator, value]) => {
+        if (value !== undefined) {
+          filters.push({ column, operator: operator as keyof FilterOperators, value: value as FilterValue | FilterValue[] });
+        }
+      });
+    } else {
+      filters.push({ column, operator: condition === null ? 'is' : 'eq', value: condition as FilterValue });
+    }
+  });
+
+  return filters;
+};
+
+export interface OrderBy<Column extends string = string> {
+  column: Column;
+  ascending: boolean;
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/** One aggregated result column, e.g. `{ sum: 'fee' }` or `{ count: '*' }` */
+export type AggregateExpression<Column extends string = string> =
+  | { count: Column | '*' }
+  | { sum: Column }
+  | { avg: Column }
+  | { min: Column }
+  | { max: Column };
+
 export interface UniversalQuery {
   collection: string;
   operation: QueryOperation;
   data?: any;
-  where?: any;
-  orderBy?: { column: string; ascending: boolean };
+  where?: WhereClause;
+  /** Sorted with Postgres null placement: NULLS LAST ascending, NULLS FIRST descending */
+  orderBy?: OrderBy | OrderBy[];
   limit?: number;
+  offset?: number;
   select?: string;
+  /** For 'aggregate': result aliases mapped to the aggregate computed for them */
+  aggregates?: Record<string, AggregateExpression>;
+  /** For 'aggregate': one result row per distinct combination of these columns, ordered by them */
+  groupBy?: string[];
+}
+
+export const getOrderings = (orderBy?: OrderBy | OrderBy[]): OrderBy[] =>
+  Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+
+export const getAggregates = (aggregates: Record<string, AggregateExpression> = {}) =>
+  Object.entries(aggregates).map(([alias, expression]) => {
+    const [fn, column] = Object.entries(expression)[0] as [AggregateFunction, string];
+    return { alias, fn, column };
+  });
+
+export interface PaginatedQuery extends Omit<UniversalQuery, 'operation' | 'data' | 'limit' | 'orderBy'> {
+  orderBy?: OrderBy;
+  pageSize: number;
+  /** Keyset cursor returned as nextCursor by the previous page; takes precedence over offset */
+  cursor?: string | null;
+}
+
+export interface Page<T = Record<string, unknown>> {
+  rows: T[];
+  nextCursor: string | null;
+  total: number;
 }
 
-interface DatabaseAdapter {
+type PublicTables = Database['public']['Tables'];
+type DatabaseFunctions = Database['public']['Functions'];
+
+/** Tables described by the generated types in src/integrations/supabase/types.ts */
+export type TableName = keyof PublicTables;
+
+export type CollectionName = TableName;
+
+export type Row<C extends CollectionName> = PublicTables[C]['Row'];
+export type InsertRow<C extends CollectionName> = PublicTables[C]['Insert'];
+export type UpdateRow<C extends CollectionName> = PublicTables[C]['Update'];
+export type Column<C extends CollectionName> = Extract<keyof Row<C>, string>;
+
+/** WhereClause restricted to the columns of a row type, with values checked against the column type */
+export type TypedWhereClause<R> = {
+  and?: TypedWhereClause<R>[];
+  or?: TypedWhereClause<R>[];
+} & {
+  [K in Exclude<keyof R, 'and' | 'or'>]?:
+    | Extract<R[K], FilterValue>
+    | FilterOperators<Extract<R[K], Exclude<FilterValue, null>>>;
+};
+
+export type Where<C extends CollectionName> = TypedWhereClause<Row<C>>;
+
+type Trim<S extends string> = S extends ` ${infer Rest}` ? Trim<Rest> : S extends `${infer Rest} ` ? Trim<Rest> : S;
+
+/** Column names listed in a select string such as "id, name" */
+export type SelectedColumns<S extends string> = S extends `${infer Head},${infer Tail}`
+  ? Trim<Head> | SelectedColumns<Tail>
+  : Trim<S>;
+
+// Resolves to never (a compile error at the call site) when a select string names an unknown column
+type CheckSelect<C extends CollectionName, S extends string> = S extends '*'
+  ? unknown
+  : [SelectedColumns<S>] extends [Column<C>]
+    ? unknown
+    : never;
+
+export type SelectRow<C extends CollectionName, S extends string = '*'> = S extends '*'
+  ? Row<C>
+  : Pick<Row<C>, Extract<SelectedColumns<S>, keyof Row<C>>>;
+
+/**
+ * UniversalQuery checked against the generated Database types: the collection,
+ * where/orderBy columns, select list and data are validated at compile time.
+ */
+export type TypedQuery<
+  C extends CollectionName,
+  O extends QueryOperation = QueryOperation,
+  S extends string = '*',
+  A extends Aggregates<C> = Record<never, never>,
+  G extends Column<C> = never
+> = {
+  collection: C;
+  operation: O;
+  data?: O extends 'insert'
+    ? InsertRow<C> | InsertRow<C>[]
+    : O extends 'update'
+      ? UpdateRow<C>
+      : never;
+  where?: Where<C>;
+  orderBy?: OrderBy<Column<C>> | OrderBy<Column<C>>[];
+  limit?: number;
+  offset?: number;
+  select?: S & CheckSelect<C, S>;
+  aggregates?: A;
+  groupBy?: G[];
+};
+
+export type Aggregates<C extends CollectionName> = Record<string, AggregateExpression<Column<C>>>;
+
+type AggregateValue<C extends CollectionName, E> = E extends { count: unknown }
+  ? number
+  : E extends { sum: unknown } | { avg: unknown }
+    ? number | null
+    : E extends { min: infer K } | { max: infer K }
+      ? (K extends keyof Row<C> ? Row<C>[K] : unknown) | null
+      : never;
+
+/** Result row of an aggregate query: the group-by columns plus one value per alias */
+export type AggregateRow<C extends CollectionName, A, G extends Column<C> = never> =
+  Pick<Row<C>, G> & { [K in keyof A]: AggregateValue<C, A[K]> };
+
+export type QueryResult<
+  C extends CollectionName,
+  O extends QueryOperation,
+  S extends string = '*',
+  A = Record<never, never>,
+  G extends Column<C> = never
+> =
+  O extends 'select'
+    ? SelectRow<C, S>[]
+    : O extends 'insert' | 'update'
+      ? Row<C>
+      : O extends 'count'
+        ? number
+        : O extends 'aggregate'
+          ? AggregateRow<C, A, G>[]
+          : null;
+
+export interface TypedPaginatedQuery<C extends CollectionName, S extends string = '*'>
+  extends Omit<TypedQuery<C, 'select', S>, 'operation' | 'data' | 'limit' | 'orderBy' | 'aggregates' | 'groupBy'> {
+  orderBy?: OrderBy<Column<C>>;
+  pageSize: number;
+  cursor?: string | null;
+}
+
+type MemoryRow = Record<string, unknown>;
+
+const compareValues = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+};
+
+const matchesFilter = (actual: unknown, operator: keyof FilterOperators, expected: FilterValue | FilterValue[]) => {
+  const present = actual !== null && actual !== undefined;
+
+  switch (operator) {
+    case 'eq':
+    case 'is':
+      return expected === null ? !present : actual === expected;
+    case 'neq':
+      return expected === null ? present : actual !== expected;
+    case 'gt':
+      return present && actual > (expected as FilterValue);
+    case 'gte':
+      return present && actual >= (expected as FilterValue);
+    case 'lt':
+      return present && actual < (expected as FilterValue);
+    case 'lte':
+      return present && actual <= (expected as FilterValue);
+    case 'in':
+      return (expected as FilterValue[]).includes(actual as FilterValue);
+    case 'like':
+    case 'ilike': {
+      const pattern = String(expected)
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '.*')
+        .replace(/_/g, '.');
+      return new RegExp(`^${pattern}$`, operator === 'ilike' ? 'is' : 's').test(String(actual ?? ''));
+    }
+    default:
+      return false;
+  }
+};
+
+/** Evaluates a where clause against a row held in memory (cached or optimistic data) */
+export const matchesWhere = (row: MemoryRow, where?: WhereClause): boolean => {
+  if (!where) return true;
+
+  return (
+    getColumnFilters(where).every(({ column, operator, value }) => matchesFilter(row[column], operator, value)) &&
+    (where.and || []).every((clause) => matchesWhere(row, clause)) &&
+    (!where.or?.length || where.or.some((clause) => matchesWhere(row, clause)))
+  );
+};
+
+export const sortRows = <T extends MemoryRow>(rows: T[], orderBy?: OrderBy | OrderBy[]): T[] => {
+  const orderings = getOrderings(orderBy);
+  if (orderings.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { column, ascending } of orderings) {
+      const result = compareValues(a[column], b[column]);
+      if (result !== 0) return ascending ? result : -result;
+    }
+    return 0;
+  });
+};
+
+/**
+ * Applies a write to an in-memory result list of `query`, the way the
+ * database would: inserts only appear if they match the list's filter.
+ */
+export const applyWrite = <T extends MemoryRow>(
+  rows: T[],
+  { where, orderBy }: Pick<UniversalQuery, 'where' | 'orderBy'>,
+  write: BatchOperation
+): T[] => {
+  switch (write.operation) {
+    case 'insert': {
+      const inserted = (Array.isArray(write.data) ? write.data : [write.data])
+        .map((row) => ({ created_at: new Date().toISOString(), ...row }) as T)
+        .filter((row) => matchesWhere(row, where));
+      return inserted.length ? sortRows([...rows, ...inserted], orderBy) : rows;
+    }
+    case 'update':
+      return rows.map((row) => (matchesWhere(row, write.where) ? { ...row, ...write.data } : row));
+    case 'delete':
+      return rows.filter((row) => !matchesWhere(row, write.where));
+  }
+};
+
+const encodeCursor = (value: unknown, id: unknown) => encodeURIComponent(JSON.stringify([value, id]));
+
+const decodeCursor = (cursor: string): [FilterValue, string] => JSON.parse(decodeURIComponent(cursor));
+
+/**
+ * Rows strictly after the cursor for an ordering on `column` with `id` as the
+ * tie-breaker, following the same null placement as getOrderings' adapters.
+ */
+const keysetWhere = ({ column, ascending }: OrderBy, cursor: string): WhereClause => {
+  const [value, id] = decodeCursor(cursor);
+  const idAfter = { id: ascending ? { gt: id } : { lt: id } };
+
+  if (column === 'id') return idAfter;
+
+  if (value === null) {
+    // Ascending: nulls come last, only later nulls remain. Descending: nulls come first.
+    return ascending
+      ? { [column]: { is: null }, ...idAfter }
+      : { or: [{ [column]: { is: null }, ...idAfter }, { [column]: { neq: null } }] };
+  }
+
+  const after: WhereClause[] = [
+    { [column]: ascending ? { gt: value } : { lt: value } },
+    { [column]: value, ...idAfter }
+  ];
+  if (ascending) after.push({ [column]: { is: null } });
+
+  return { or: after };
+};
+
+/** A single write inside db.transaction() / DatabaseAdapter.batch() */
+export interface BatchOperation {
+  collection: string;
+  operation: Extract<QueryOperation, 'insert' | 'update' | 'delete'>;
+  data?: UniversalQuery['data'];
+  where?: WhereClause;
+}
+
+/**
+ * Collects the writes of a db.transaction() callback. Nothing is sent until
+ * the callback returns, so generate ids up front (crypto.randomUUID()) when a
+ * later write has to reference an earlier insert.
+ */
+export interface Transaction {
+  insert<C extends CollectionName>(collection: C, data: InsertRow<C> | InsertRow<C>[]): void;
+  update<C extends CollectionName>(collection: C, where: Where<C>, data: UpdateRow<C>): void;
+  delete<C extends CollectionName>(collection: C, where: Where<C>): void;
+}
+
+export interface DatabaseAdapter {
   query(query: UniversalQuery): Promise<any>;
+  /** Applies all operations atomically and returns one result per operation, like query() would */
+  batch(operations: BatchOperation[]): Promise<unknown[]>;
   testConnection(): Promise<boolean>;
-  migrate(data: any[]): Promise<void>;
+}
+
+// PostgREST reserves these characters inside or=(...) filter strings
+const POSTGREST_RESERVED = /[,.:()"\\\s]/;
+
+const toPostgrestValue = (value: FilterValue): string => {
+  if (value === null) return 'null';
+  const text = String(value);
+  return POSTGREST_RESERVED.test(text) ? `"${text.replace(/(["\\])/g, '\\$1')}"` : text;
+};
+
+const toPostgrestCondition = (where: WhereClause): string[] => {
+  const parts = getColumnFilters(where).map(({ column, operator, value }) => {
+    if (operator === 'in') {
+      return `${column}.in.(${(value as FilterValue[]).map(toPostgrestValue).join(',')})`;
+    }
+    if (value === null && (operator === 'eq' || operator === 'neq')) {
+      return `${column}.${operator === 'eq' ? 'is' : 'not.is'}.null`;
+    }
+    return `${column}.${operator}.${toPostgrestValue(value as FilterValue)}`;
+  });
+
+  where.and?.forEach((clause) => {
+    const nested = toPostgrestCondition(clause);
+    if (nested.length) parts.push(`and(${nested.join(',')})`);
+  });
+  if (where.or?.length) {
+    parts.push(`or(${where.or.map(toPostgrestGroup).join(',')})`);
+  }
+
+  return parts;
+};
+
+const toPostgrestGroup = (clause: WhereClause): string => {
+  const parts = toPostgrestCondition(clause);
+  return parts.length === 1 ? parts[0] : `and(${parts.join(',')})`;
+};
+
+// The filter methods of a PostgREST query builder, looked up by operator name
+interface PostgrestFilters {
+  [method: string]: (...args: unknown[]) => PostgrestFilters;
 }
 
 class SupabaseAdapter implements DatabaseAdapter {
+  private applyWhere<B>(builder: B, where: WhereClause): B {
+    let filtered = builder as unknown as PostgrestFilters;
+
+    getColumnFilters(where).forEach(({ column, operator, value }) => {
+      if (value === null && operator === 'eq') {
+        filtered = filtered.is(column, null);
+      } else if (value === null && operator === 'neq') {
+        filtered = filtered.not(column, 'is', null);
+      } else {
+        filtered = filtered[operator](column, value);
+      }
+    });
+
+    where.and?.forEach((clause) => {
+      filtered = this.applyWhere(filtered, clause);
+    });
+
+    if (where.or?.length) {
+      filtered = filtered.or(where.or.map(toPostgrestGroup).join(','));
+    }
+
+    return filtered as unknown as B;
+  }
+
   async query(query: UniversalQuery): Promise<any> {
     const supabase = await getSupabase();
-    const { collection, operation, data, where, orderBy, limit, select } = query;
+    const { collection, operation, data, where, orderBy, limit, offset, select, aggregates, groupBy } = query;
     
     switch (operation) {
-      case 'select':
+      case 'select': {
         let selectQuery = (supabase as any).from(collection).select(select || '*');
         
         if (where) {
-          Object.entries(where).forEach(([key, value]) => {
-            selectQuery = selectQuery.eq(key, value);
-          });
+          selectQuery = this.applyWhere(selectQuery, where);
         }
         
-        if (orderBy) {
-          selectQuery = selectQuery.order(orderBy.column, { 
-            ascending: orderBy.ascending 
-          });
-        }
+        getOrderings(orderBy).forEach(({ column, ascending }) => {
+          selectQuery = selectQuery.order(column, { ascending, nullsFirst: !ascending });
+        });
         
-        if (limit) {
+        if (offset) {
+          selectQuery = selectQuery.range(offset, offset + (limit || 1000) - 1);
+        } else if (limit) {
           selectQuery = selectQuery.limit(limit);
         }
         
         const { data: selectData, error: selectError } = await selectQuery;
         if (selectError) throw selectError;
         return selectData;
+      }
       
-      case 'insert':
+      case 'insert': {
         const supabase1 = await getSupabase();
         const { data: insertData, error: insertError } = await (supabase1 as any)
           .from(collection)
@@ -76,46 +500,69 @@ class SupabaseAdapter implements DatabaseAdapter {
           .select();
         if (insertError) throw insertError;
         return insertData?.[0];
+      }
       
-      case 'update':
+      case 'update': {
         if (!where) throw new Error('Update requires where clause');
         
         const supabase2 = await getSupabase();
-        let updateQuery = (supabase2 as any).from(collection).update(data);
-        Object.entries(where).forEach(([key, value]) => {
-          updateQuery = updateQuery.eq(key, value);
-        });
+        const updateQuery = this.applyWhere(supabase2.from(collection).update(data), where);
         
         const { data: updateData, error: updateError } = await updateQuery.select();
         if (updateError) throw updateError;
         return updateData?.[0];
+      }
       
-      case 'delete':
+      case 'delete': {
         if (!where) throw new Error('Delete requires where clause');
         
         const supabase3 = await getSupabase();
-        let deleteQuery = (supabase3 as any).from(collection).delete();
-        Object.entries(where).forEach(([key, value]) => {
-          deleteQuery = deleteQuery.eq(key, value);
-        });
+        const deleteQuery = this.applyWhere(supabase3.from(collection).delete(), where);
         
         const { error: deleteError } = await deleteQuery;
         if (deleteError) throw deleteError;
         return null;
+      }
       
-      case 'count':
+      case 'count': {
         const supabase4 = await getSupabase();
-        const { count, error: countError } = await (supabase4 as any)
+        let countQuery = supabase4
           .from(collection)
           .select('*', { count: 'exact', head: true });
+        if (where) {
+          countQuery = this.applyWhere(countQuery, where);
+        }
+        const { count, error: countError } = await countQuery;
         if (countError) throw countError;
         return count || 0;
+      }
+      
+      case 'aggregate': {
+        // PostgREST aggregates are disabled on Supabase; execute_aggregate runs them as the caller
+        const supabase5 = await getSupabase();
+        const { data: aggregateData, error: aggregateError } = await supabase5.rpc('execute_aggregate', {
+          _collection: collection,
+          _aggregates: aggregates,
+          _where: where || null,
+          _group_by: groupBy?.length ? groupBy : null
+        });
+        if (aggregateError) throw aggregateError;
+        return aggregateData || [];
+      }
       
       default:
         throw new Error(`Unsupported operation: ${operation}`);
     }
   }
   
+  async batch(operations: BatchOperation[]): Promise<unknown[]> {
+    // execute_batch runs every operation inside the RPC's own transaction
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('execute_batch', { operations });
+    if (error) throw error;
+    return data || [];
+  }
+  
   async testConnection(): Promise<boolean> {
     try {
       const result = await this.query({
@@ -129,71 +576,235 @@ class SupabaseAdapter implements DatabaseAdapter {
       return false;
     }
   }
-  
-  async migrate(data: any[]): Promise<void> {
-    // Migration logic would be implemented here
-    console.log('Migration started with', data.length, 'records');
-  }
 }
 
+/**
+ * Builds the adapter for a provider. SQL providers are loaded lazily so the
+ * Supabase-only build does not pay for them. They reach the database through
+ * the database-proxy function, which holds the (encrypted) gateway credentials.
+ */
+const createAdapter = async (provider: DatabaseProvider): Promise<DatabaseAdapter> => {
+  switch (provider) {
+    case 'supabase':
+      return new SupabaseAdapter();
+
+    case 'postgresql':
+    case 'sqlite': {
+      const { SqlAdapter } = await import("@/lib/sql-adapter");
+      return new SqlAdapter(provider);
+    }
+
+    default:
+      throw new Error(`The ${provider} provider is not supported yet`);
+  }
+};
+
 class DatabaseManager {
+  // database_config always lives in Supabase, whichever provider holds the data
+  private configAdapter: DatabaseAdapter = new SupabaseAdapter();
   private currentAdapter: DatabaseAdapter;
   private currentProvider: DatabaseProvider = 'supabase';
+  private initialization: Promise<void> | null = null;
+  /** Read cache and write queue used while the network is unavailable */
+  readonly offline = new OfflineSync((query) => this.execute(query));
   
   constructor() {
-    this.currentAdapter = new SupabaseAdapter();
+    this.currentAdapter = this.configAdapter;
+
+    // The offline cache and queue follow whoever is signed in
+    getSupabase().then((supabase) => {
+      supabase.auth.onAuthStateChange((_event: string, session: { user?: { id: string } } | null) => {
+        this.offline.setUser(session?.user?.id ?? null);
+      });
+    });
   }
   
   getCurrentProvider(): DatabaseProvider {
     return this.currentProvider;
   }
+
+  /**
+   * Resolves the adapter from the active database_config row on first use.
+   * If that fails the query fails with it, rather than reading from or writing
+   * to the wrong provider, and the next query tries again.
+   */
+  private ensureAdapter(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = (async () => {
+        const config = await this.getActiveConfig();
+        if (config && config.provider !== 'supabase') {
+          this.currentAdapter = await createAdapter(config.provider);
+          this.currentProvider = config.provider;
+        }
+      })().catch((error) => {
+        this.initialization = null;
+        console.error('Failed to load database provider:', error);
+        throw new Error(`Could not load the database provider: ${error.message || error}`);
+      });
+    }
+    return this.initialization;
+  }
   
-  async query(query: UniversalQuery): Promise<any> {
+  async query<
+    C extends CollectionName,
+    O extends QueryOperation,
+    S extends string = '*',
+    A extends Aggregates<C> = Record<never, never>,
+    G extends Column<C> = never
+  >(query: TypedQuery<C, O, S, A, G>): Promise<QueryResult<C, O, S, A, G>> {
+    return this.run(query as UniversalQuery) as Promise<QueryResult<C, O, S, A, G>>;
+  }
+
+  private run(query: UniversalQuery): Promise<unknown> {
+    return this.offline.handle(query);
+  }
+
+  private async execute(query: UniversalQuery): Promise<unknown> {
+    await this.ensureAdapter();
     return this.currentAdapter.query(query);
   }
   
-  async testConnection(): Promise<boolean> {
+  /**
+   * Calls a database function of the review workflow (approvals, feedback resolution).
+   * They read and write Supabase's tables, so while another provider holds the data
+   * they are refused rather than acting on a stale copy.
+   */
+  async rpc<F extends keyof DatabaseFunctions>(
+    name: F,
+    args: DatabaseFunctions[F]['Args']
+  ): Promise<DatabaseFunctions[F]['Returns']> {
+    await this.ensureAdapter();
+    if (this.currentProvider !== 'supabase') {
+      throw new Error(`Review workflows are not available while ${this.currentProvider} is the database provider`);
+    }
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc(name, args);
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Runs the writes queued by `build` as one atomic batch: either all of them
+   * are applied or none are. Throwing inside `build` aborts before anything is
+   * written. Resolves with one result per queued operation.
+   */
+  async transaction(build: (tx: Transaction) => void | Promise<void>): Promise<unknown[]> {
+    const operations: BatchOperation[] = [];
+    const tx: Transaction = {
+      insert: (collection, data) => {
+        operations.push({ collection, operation: 'insert', data });
+      },
+      update: (collection, where, data) => {
+        operations.push({ collection, operation: 'update', where: where as WhereClause, data });
+      },
+      delete: (collection, where) => {
+        operations.push({ collection, operation: 'delete', where: where as WhereClause });
+      }
+    };
+
+    await build(tx);
+    if (operations.length === 0) return [];
+
+    await this.ensureAdapter();
+    return this.currentAdapter.batch(operations);
+  }
+  
+  /**
+   * Fetches one page plus the total matching row count. Pass the returned
+   * nextCursor back as `cursor` for the following page.
+   */
+  async paginate<C extends CollectionName, S extends string = '*'>(
+    query: TypedPaginatedQuery<C, S>
+  ): Promise<Page<SelectRow<C, S>>> {
+    const { pageSize, cursor, orderBy, where, offset, ...rest } = query as PaginatedQuery;
+    const ordering = orderBy || { column: 'created_at', ascending: false };
+    const orderings = ordering.column === 'id'
+      ? [ordering]
+      : [ordering, { column: 'id', ascending: ordering.ascending }];
+
+    const pageWhere = cursor
+      ? { ...(where || {}), and: [...(where?.and || []), keysetWhere(ordering, cursor)] }
+      : where;
+
+    const [rows, total] = await Promise.all([
+      this.run({
+        ...rest,
+        operation: 'select',
+        where: pageWhere,
+        orderBy: orderings,
+        limit: pageSize + 1,
+        offset: cursor ? undefined : offset
+      }) as Promise<SelectRow<C, S>[]>,
+      this.run({ collection: rest.collection, operation: 'count', where }) as Promise<number>
+    ]);
+
+    const hasMore = (rows || []).length > pageSize;
+    const pageRows = (rows || []).slice(0, pageSize);
+    const last = pageRows[pageRows.length - 1] as Record<string, unknown> | undefined;
+
+    return {
+      rows: pageRows,
+      nextCursor: hasMore && last ? encodeCursor(last[ordering.column] ?? null, last.id) : null,
+      total: total || 0
+    };
+  }
+  
+  async testConnection(
+    provider?: DatabaseProvider,
+    credentials?: Record<string, unknown>
+  ): Promise<boolean> {
+    if (provider === 'supabase') {
+      return this.configAdapter.testConnection();
+    }
+    if (provider) {
+      // Settings that are not saved yet are tried out server-side, by database-proxy
+      const { testGatewayConnection } = await import("@/lib/sql-adapter");
+      return testGatewayConnection(provider, credentials || {});
+    }
+
+    await this.ensureAdapter();
     return this.currentAdapter.testConnection();
   }
   
+  /**
+   * Copies all data into the new provider and makes it active. If the copy
+   * fails part-way, calling this again with the same provider resumes it.
+   */
   async switchProvider(
     provider: DatabaseProvider, 
-    credentials: Record<string, any>
+    credentials: Record<string, unknown>,
+    onProgress?: (progress: MigrationProgress) => void
   ): Promise<void> {
-    // In a full implementation, this would:
-    // 1. Validate credentials
-    // 2. Test connection to new provider
-    // 3. Backup current data
-    // 4. Migrate data to new provider
-    // 5. Update active adapter
-    
+    if (!(await this.testConnection(provider, credentials))) {
+      throw new Error(`Could not connect to ${provider}`);
+    }
+
     console.log(`Switching to ${provider}...`);
-    
-    // Store config in database_config table
-    await this.currentAdapter.query({
-      collection: 'database_config',
-      operation: 'insert',
-      data: {
-        provider,
-        config: credentials,
-        is_active: true
-      }
-    });
+
+    // The copy runs server-side, from whichever provider is active now
+    await migrateDatabase({ provider, credentials, onProgress });
+
+    // Credentials are encrypted server-side; from here on the provider is reached through database-proxy
+    const { secrets } = await import("@/lib/secrets");
+    await secrets.saveDatabaseConfig(provider, credentials);
+
+    this.currentAdapter = await createAdapter(provider);
+    this.currentProvider = provider;
   }
   
+  /** The active provider with its secret credentials left out (see storedSecrets) */
   async getActiveConfig(): Promise<DatabaseConfig | null> {
-    const result = await this.currentAdapter.query({
-      collection: 'database_config',
-      operation: 'select',
-      where: { is_active: true },
-      limit: 1
-    });
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('get_active_database_config');
+    if (error) throw error;
     
-    if (Array.isArray(result) && result.length > 0) {
+    if (Array.isArray(data) && data.length > 0) {
       return {
-        provider: result[0].provider,
-        credentials: result[0].config,
-        isActive: result[0].is_active
+        provider: data[0].provider as DatabaseProvider,
+        credentials: data[0].config,
+        isActive: data[0].is_active,
+        storedSecrets: data[0].stored_secrets || []
       };
     }
     
@@ -223,7 +834,7 @@ export const dbHelpers = {
     });
   },
   
-  async createProject(data: any) {
+  async createProject(data: InsertRow<'projects'>) {
     return db.query({
       collection: 'projects',
       operation: 'insert',
@@ -240,7 +851,7 @@ export const dbHelpers = {
     });
   },
   
-  async createMessage(data: any) {
+  async createMessage(data: InsertRow<'messages'>) {
     return db.query({
       collection: 'messages',
       operation: 'insert',
@@ -261,6 +872,7 @@ export const dbHelpers = {
     const result = await db.query({
       collection: 'user_roles',
       operation: 'select',
+      select: 'role',
       where: { user_id: userId },
       limit: 1
     });
@@ -0,0 +1,114 @@
+/**
+ * Provider-to-provider data migration
+ * The migrate-database edge function does the copying with the service role;
+ * this drives it call by call and keeps its checkpoint so a failed run resumes
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { DatabaseProvider } from "@/lib/database-config";
+
+export type MigrationPhase = 'copy' | 'relink' | 'verify' | 'done';
+
+export interface MigrationProgress {
+  phase: MigrationPhase;
+  table: string;
+  tableIndex: number;
+  totalTables: number;
+  migratedRows: number;
+  totalRows: number;
+}
+
+export interface MigrationCheckpoint {
+  provider: DatabaseProvider;
+  phase: Exclude<MigrationPhase, 'done'>;
+  tableIndex: number;
+  lastId: string | null;
+  migratedRows: number;
+}
+
+/** A table whose row count differs between the two providers after the copy */
+export interface MigrationMismatch {
+  table: string;
+  source: number;
+  target: number;
+}
+
+export interface MigrationOptions {
+  provider: DatabaseProvider;
+  /** Connection settings for the new provider; a blank access token keeps the stored one */
+  credentials: Record<string, unknown>;
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+interface MigrationStep {
+  checkpoint: MigrationCheckpoint | null;
+  progress: MigrationProgress | null;
+  done: boolean;
+  mismatches?: MigrationMismatch[];
+}
+
+const CHECKPOINT_KEY = 'xrozen.database-migration';
+
+export const getMigrationCheckpoint = (provider?: DatabaseProvider): MigrationCheckpoint | null => {
+  try {
+    const checkpoint = JSON.parse(localStorage.getItem(CHECKPOINT_KEY) || 'null') as MigrationCheckpoint | null;
+    if (!checkpoint || (provider && checkpoint.provider !== provider)) return null;
+    return checkpoint;
+  } catch {
+    return null;
+  }
+};
+
+const saveCheckpoint = (checkpoint: MigrationCheckpoint) => {
+  localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+};
+
+export const clearMigrationCheckpoint = () => {
+  localStorage.removeItem(CHECKPOINT_KEY);
+};
+
+const migrationStep = async (body: Record<string, unknown>): Promise<MigrationStep> => {
+  const { data, error } = await supabase.functions.invoke('migrate-database', { body });
+  if (error) {
+    // Surface the function's own error message instead of the generic non-2xx one
+    const payload = await error.context?.json?.().catch(() => null);
+    throw new Error(payload?.error || error.message);
+  }
+  return data as MigrationStep;
+};
+
+/**
+ * Copies every table from the active provider into `provider`, restores the
+ * references between rows, then checks that both sides hold the same number
+ * of rows per table. The checkpoint is saved after every call, so calling this
+ * again for the same provider resumes where a failed run stopped.
+ */
+export const migrateDatabase = async ({ provider, credentials, onProgress }: MigrationOptions): Promise<void> => {
+  let checkpoint = getMigrationCheckpoint(provider);
+
+  for (;;) {
+    if (checkpoint?.phase === 'verify') {
+      onProgress?.({ phase: 'verify', table: '', tableIndex: 1, totalTables: 1, migratedRows: 0, totalRows: 0 });
+    }
+
+    const step = await migrationStep({ provider, credentials, checkpoint });
+    if (step.progress) onProgress?.(step.progress);
+
+    if (step.mismatches?.length) {
+      // Counting again would give the same answer; the next run starts over
+      clearMigrationCheckpoint();
+      const details = step.mismatches
+        .map(({ table, source, target }) => `${table} (${source} rows, ${target} copied)`)
+        .join(', ');
+      throw new Error(`Row counts differ after the copy: ${details}`);
+    }
+
+    if (step.done) {
+      clearMigrationCheckpoint();
+      return;
+    }
+
+    checkpoint = step.checkpoint;
+    if (checkpoint) saveCheckpoint(checkpoint);
+  }
+};
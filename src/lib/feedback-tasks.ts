@@ -0,0 +1,56 @@
+/**
+ * Feedback tasks
+ * Every top-level comment on a version is a task on that version's board; comments carried
+ * into a later version share the task of the one they were copied from. A version only goes
+ * to review once the tasks on the versions before it are done or waived (guard_version_ready).
+ */
+
+import { db, type Row } from '@/lib/database-config';
+
+export type FeedbackTask = Row<'feedback_tasks'>;
+
+export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'waived';
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  done: 'Done',
+  waived: 'Waived'
+};
+
+/** Board columns; waived tasks sit with the done ones */
+export const TASK_COLUMNS: { title: string; statuses: TaskStatus[] }[] = [
+  { title: 'To do', statuses: ['todo'] },
+  { title: 'In progress', statuses: ['in_progress'] },
+  { title: 'Done', statuses: ['done', 'waived'] }
+];
+
+export const isTaskOpen = (task: Pick<FeedbackTask, 'status'>) => task.status === 'todo' || task.status === 'in_progress';
+
+/** "12/15 addressed": tasks done or waived out of all of them */
+export const taskProgress = (tasks: Pick<FeedbackTask, 'status'>[]) => ({
+  addressed: tasks.filter((task) => !isTaskOpen(task)).length,
+  total: tasks.length
+});
+
+/** Tasks still open on the versions numbered below `versionNumber`; these keep it from going to review */
+export const openTasksBefore = (
+  tasks: Pick<FeedbackTask, 'status' | 'version_id'>[],
+  versions: { id: string; version_number: number }[],
+  versionNumber: number
+) => {
+  const earlier = new Set(versions.filter((version) => version.version_number < versionNumber).map((version) => version.id));
+  return tasks.filter((task) => earlier.has(task.version_id) && isTaskOpen(task));
+};
+
+/** A waiver needs a reason; it is dropped again when the task leaves the waived state */
+export const updateFeedbackTask = (
+  taskId: string,
+  data: { status?: TaskStatus; assignee_id?: string | null; waived_reason?: string | null }
+) =>
+  db.query({
+    collection: 'feedback_tasks',
+    operation: 'update',
+    where: { id: taskId },
+    data
+  });
@@ -0,0 +1,51 @@
+/**
+ * @mentions of project members in feedback comments
+ * Mentions are written as "@Full Name" in the text; the ids are stored alongside
+ */
+
+export type ProjectMemberRole = 'creator' | 'editor' | 'client';
+
+export interface ProjectMember {
+  userId: string;
+  name: string;
+  role: ProjectMemberRole;
+}
+
+export type MentionPart = { text: string; member?: ProjectMember };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longer names first so "@Ann Lee" wins over "@Ann"
+const mentionPattern = (members: ProjectMember[]) => {
+  const names = [...members].sort((a, b) => b.name.length - a.name.length).map((member) => escapeRegExp(member.name));
+  return names.length ? new RegExp(`@(${names.join('|')})(?![\\w])`, 'g') : null;
+};
+
+/** User ids of the members mentioned in `text` */
+export const extractMentions = (text: string, members: ProjectMember[]): string[] => {
+  const pattern = mentionPattern(members);
+  if (!pattern) return [];
+
+  const ids = new Set<string>();
+  for (const match of text.matchAll(pattern)) {
+    const member = members.find((candidate) => candidate.name === match[1]);
+    if (member) ids.add(member.userId);
+  }
+  return [...ids];
+};
+
+/** Splits `text` into plain runs and mentions, for highlighting */
+export const splitMentions = (text: string, members: ProjectMember[]): MentionPart[] => {
+  const pattern = mentionPattern(members);
+  if (!pattern) return [{ text }];
+
+  const parts: MentionPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > last) parts.push({ text: text.slice(last, match.index) });
+    parts.push({ text: match[0], member: members.find((member) => member.name === match[1]) });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+};
@@ -0,0 +1,410 @@
+/**
+ * Review feedback as NLE marker files and back
+ * Exports CMX3600 EDL, DaVinci Resolve marker EDL, FCPXML and Premiere marker CSV, plus a
+ * CSV review report; imports markers from any of those (and FCP 7 / Premiere XML).
+ * Times are seconds from the start of the video; `startOffset` is where the NLE timeline's
+ * timecode begins, commonly 01:00:00:00.
+ */
+
+import { formatTimecode, frameToSeconds, isDropFrame, parseTimecode, toFrames } from '@/lib/timecode';
+
+export interface ReviewMarker {
+  start: number;
+  end: number | null;
+  text: string;
+  author?: string | null;
+  status?: 'open' | 'awaiting' | 'resolved';
+  replies?: number;
+  createdAt?: string;
+}
+
+export interface ExportOptions {
+  title: string;
+  frameRate: number;
+  /** Seconds, e.g. 3600 for a timeline starting at 01:00:00:00 */
+  startOffset: number;
+  /** Video length, so the FCPXML timeline covers all of it */
+  duration?: number;
+}
+
+export interface ImportedMarker {
+  start: number;
+  end: number | null;
+  text: string;
+}
+
+export type MarkerFileFormat = 'resolve-edl' | 'cmx3600' | 'fcpxml' | 'xmeml' | 'premiere-csv';
+
+export const MARKER_FORMAT_LABELS: Record<MarkerFileFormat, string> = {
+  'resolve-edl': 'DaVinci Resolve marker EDL',
+  cmx3600: 'CMX3600 EDL',
+  fcpxml: 'Final Cut Pro XML',
+  xmeml: 'Premiere / FCP 7 XML',
+  'premiere-csv': 'Premiere marker CSV'
+};
+
+export class MarkerFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarkerFileError';
+  }
+}
+
+const STATUS_LABELS = { open: 'Open', awaiting: 'Awaiting confirmation', resolved: 'Resolved' };
+
+// Marker names and EDL comments are single lines
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const timecode = (seconds: number, options: ExportOptions) => formatTimecode(seconds + options.startOffset, options.frameRate);
+
+/** A marker's last frame, at least one frame after its first */
+const endOf = (marker: ReviewMarker, fps: number) =>
+  Math.max(toFrames(marker.end ?? marker.start, fps), toFrames(marker.start, fps) + 1);
+
+const edlHeader = (options: ExportOptions) =>
+  [`TITLE: ${oneLine(options.title)}`, `FCM: ${isDropFrame(options.frameRate) ? 'DROP FRAME' : 'NON-DROP FRAME'}`, ''];
+
+const edlEvent = (index: number, reel: string, inTc: string, outTc: string) =>
+  `${String(index + 1).padStart(3, '0')}  ${reel.padEnd(8)} V     C        ${inTc} ${outTc} ${inTc} ${outTc}`;
+
+/** One event per comment, with the comment as an Avid-style locator */
+export const exportCmx3600 = (markers: ReviewMarker[], options: ExportOptions) => {
+  const lines = edlHeader(options);
+  markers.forEach((marker, index) => {
+    const inTc = timecode(marker.start, options);
+    const outTc = timecode(frameToSeconds(endOf(marker, options.frameRate), options.frameRate), options);
+    lines.push(
+      edlEvent(index, 'AX', inTc, outTc),
+      `* FROM CLIP NAME: ${oneLine(options.title)}`,
+      `* LOC: ${inTc} ${marker.status === 'resolved' ? 'GREEN' : 'RED'}    ${oneLine(marker.text)}`,
+      ...(marker.author ? [`* COMMENT: ${oneLine(marker.author)}`] : []),
+      ''
+    );
+  });
+  return lines.join('\r\n');
+};
+
+/** The EDL DaVinci Resolve writes and reads for timeline markers */
+export const exportResolveEdl = (markers: ReviewMarker[], options: ExportOptions) => {
+  const lines = edlHeader(options);
+  markers.forEach((marker, index) => {
+    const startFrame = toFrames(marker.start, options.frameRate);
+    const endFrame = endOf(marker, options.frameRate);
+    const inTc = timecode(marker.start, options);
+    const outTc = timecode(frameToSeconds(startFrame + 1, options.frameRate), options);
+    const name = marker.author ? `${marker.author}: ${marker.text}` : marker.text;
+    lines.push(
+      `${edlEvent(index, '001', inTc, outTc)}  `,
+      ` |C:${marker.status === 'resolved' ? 'ResolveColorGreen' : 'ResolveColorRed'} |M:${oneLine(name)} |D:${endFrame - startFrame}`,
+      ''
+    );
+  });
+  return lines.join('\n');
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** FCPXML rational time of a frame count, e.g. "1001/30000s" per frame at 29.97 */
+const rationalTime = (frames: number, fps: number) => {
+  const nominal = Math.round(fps);
+  if (Math.abs(fps - (nominal * 1000) / 1001) < 0.01) return `${frames * 1001}/${nominal * 1000}s`;
+  return Number.isInteger(fps) ? `${frames}/${fps}s` : `${Math.round(frames * 1000)}/${Math.round(fps * 1000)}s`;
+};
+
+/**
+ * A project holding one gap the length of the video, with a to-do marker per comment;
+ * resolved comments are marked completed
+ */
+export const exportFcpxml = (markers: ReviewMarker[], options: ExportOptions) => {
+  const fps = options.frameRate;
+  const offsetFrames = toFrames(options.startOffset, fps);
+  const lastEnd = Math.max(0, ...markers.map((marker) => frameToSeconds(endOf(marker, fps), fps)));
+  const totalFrames = Math.max(toFrames(Math.max(options.duration ?? 0, lastEnd), fps), 1);
+  const title = escapeXml(oneLine(options.title));
+
+  const markerLines = markers.map((marker) => {
+    const startFrame = toFrames(marker.start, fps);
+    const attributes = [
+      `start="${rationalTime(offsetFrames + startFrame, fps)}"`,
+      `duration="${rationalTime(endOf(marker, fps) - startFrame, fps)}"`,
+      `value="${escapeXml(oneLine(marker.text))}"`,
+      ...(marker.author ? [`note="${escapeXml(oneLine(marker.author))}"`] : []),
+      `completed="${marker.status === 'resolved' ? 1 : 0}"`
+    ];
+    return `              <marker ${attributes.join(' ')}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.10">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${rationalTime(1, fps)}" width="1920" height="1080"/>`,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${rationalTime(totalFrames, fps)}" tcStart="${rationalTime(offsetFrames, fps)}" tcFormat="${isDropFrame(fps) ? 'DF' : 'NDF'}">`,
+    '          <spine>',
+    `            <gap name="Review" offset="${rationalTime(offsetFrames, fps)}" start="${rationalTime(offsetFrames, fps)}" duration="${rationalTime(totalFrames, fps)}">`,
+    ...markerLines,
+    '            </gap>',
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n');
+};
+
+// Spreadsheets run text starting with these as a formula; comments can come from guests
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number)[][]) => rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+
+/** The columns of Premiere's marker export */
+export const exportPremiereCsv = (markers: ReviewMarker[], options: ExportOptions) =>
+  csvRows([
+    ['Marker Name', 'Description', 'In', 'Out', 'Duration', 'Marker Type'],
+    ...markers.map((marker) => {
+      const startFrame = toFrames(marker.start, options.frameRate);
+      const endFrame = endOf(marker, options.frameRate);
+      return [
+        marker.author || '',
+        marker.text,
+        timecode(marker.start, options),
+        timecode(frameToSeconds(endFrame, options.frameRate), options),
+        formatTimecode(frameToSeconds(endFrame - startFrame, options.frameRate), options.frameRate),
+        'Comment'
+      ];
+    })
+  ]);
+
+export const exportReviewCsv = (markers: ReviewMarker[], options: ExportOptions) =>
+  csvRows([
+    ['#', 'Timecode In', 'Timecode Out', 'Author', 'Comment', 'Status', 'Replies', 'Created'],
+    ...markers.map((marker, index) => [
+      index + 1,
+      timecode(marker.start, options),
+      marker.end !== null ? timecode(marker.end, options) : '',
+      marker.author || '',
+      marker.text,
+      marker.status ? STATUS_LABELS[marker.status] : '',
+      marker.replies ?? 0,
+      marker.createdAt ? new Date(marker.createdAt).toISOString() : ''
+    ])
+  ]);
+
+const TIMECODE = '\\d{1,2}:\\d{2}:\\d{2}[:;.]\\d{2}';
+const EDL_EVENT = new RegExp(`^\\d{3,}\\s+\\S+\\s+\\S+\\s+\\S+\\s+(?:\\d+\\s+)?(${TIMECODE})\\s+(${TIMECODE})\\s+(${TIMECODE})\\s+(${TIMECODE})`);
+const EDL_LOCATOR = new RegExp(`^\\*\\s*LOC:\\s*(${TIMECODE})\\s+(?:\\S+\\s+)?(.*)$`, 'i');
+
+// Resolve gives marker lengths in frames, converted once the frame rate is applied
+type ParsedMarker = ImportedMarker & { durationFrames?: number };
+
+const parseEdl = (content: string, seconds: (tc: string) => number | null) => {
+  const markers: ParsedMarker[] = [];
+  let event: { start: number; end: number; comments: string[]; located: boolean } | null = null;
+
+  const closeEvent = () => {
+    if (event && !event.located && event.comments.length) {
+      markers.push({ start: event.start, end: event.end, text: event.comments.join(' ') });
+    }
+    event = null;
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    const eventMatch = line.match(EDL_EVENT);
+    if (eventMatch) {
+      closeEvent();
+      const start = seconds(eventMatch[3]);
+      const end = seconds(eventMatch[4]);
+      if (start !== null) event = { start, end: end ?? start, comments: [], located: false };
+      continue;
+    }
+    if (!event) continue;
+
+    const resolve = line.match(/\|M:(.*?)\s*\|D:(\d+)/);
+    if (resolve) {
+      markers.push({ start: event.start, end: null, text: resolve[1].trim(), durationFrames: Number(resolve[2]) });
+      event.located = true;
+      continue;
+    }
+
+    const locator = line.match(EDL_LOCATOR);
+    if (locator) {
+      const start = seconds(locator[1]);
+      // A locator on the event's first frame stands for the whole event
+      if (start !== null) markers.push({ start, end: start === event.start ? event.end : null, text: locator[2].trim() });
+      event.located = true;
+      continue;
+    }
+
+    const comment = line.match(/^\*\s*COMMENT:\s*(.*)$/i);
+    if (comment && comment[1].trim()) event.comments.push(comment[1].trim());
+  }
+  closeEvent();
+  return markers;
+};
+
+const parseRational = (value: string | null) => {
+  const match = value?.match(/^(-?\d+(?:\.\d+)?)(?:\/(\d+))?s$/);
+  return match ? Number(match[1]) / Number(match[2] || 1) : 0;
+};
+
+const parseFcpxml = (document: Document) => {
+  const sequence = document.querySelector('sequence');
+  const timelineStart = parseRational(sequence?.getAttribute('tcStart') ?? null);
+
+  return Array.from(document.querySelectorAll('marker, chapter-marker')).map((marker) => {
+    // Marker times are in the parent clip's own time; map them onto the timeline
+    const parent = marker.parentElement;
+    const position =
+      parseRational(parent?.getAttribute('offset') ?? null) +
+      parseRational(marker.getAttribute('start')) -
+      parseRational(parent?.getAttribute('start') ?? null) -
+      timelineStart;
+    const duration = parseRational(marker.getAttribute('duration'));
+    const note = marker.getAttribute('note');
+    return {
+      start: position,
+      end: duration > 0 ? position + duration : null,
+      text: [marker.getAttribute('value'), note].filter(Boolean).join(' - ')
+    };
+  });
+};
+
+const parseXmeml = (document: Document) => {
+  const rate = document.querySelector('sequence > rate');
+  const timebase = Number(rate?.querySelector('timebase')?.textContent) || 25;
+  const fps = rate?.querySelector('ntsc')?.textContent?.trim().toUpperCase() === 'TRUE' ? (timebase * 1000) / 1001 : timebase;
+
+  return Array.from(document.querySelectorAll('sequence > marker')).map((marker) => {
+    const inFrame = Number(marker.querySelector('in')?.textContent) || 0;
+    const outFrame = Number(marker.querySelector('out')?.textContent);
+    return {
+      start: inFrame / fps,
+      end: outFrame > inFrame ? outFrame / fps : null,
+      text: [marker.querySelector('name')?.textContent, marker.querySelector('comment')?.textContent]
+        .map((part) => part?.trim())
+        .filter(Boolean)
+        .join(' - ')
+    };
+  });
+};
+
+const parseCsv = (content: string, delimiter: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+};
+
+const parsePremiereCsv = (content: string, seconds: (tc: string) => number | null) => {
+  // Premiere writes tab-separated text; spreadsheets save it with commas
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const [header, ...rows] = parseCsv(content, firstLine.includes('\t') ? '\t' : ',');
+  const column = (name: string) => header.findIndex((cell) => cell.trim().toLowerCase() === name);
+  const nameColumn = column('marker name');
+  const descriptionColumn = column('description');
+  const inColumn = column('in');
+  const outColumn = column('out');
+
+  return rows.flatMap((cells) => {
+    const start = seconds(cells[inColumn] ?? '');
+    if (start === null) return [];
+    const end = outColumn >= 0 ? seconds(cells[outColumn] ?? '') : null;
+    const text = [cells[nameColumn], cells[descriptionColumn]]
+      .map((part) => part?.trim())
+      .filter(Boolean)
+      .join(' - ');
+    return [{ start, end: end !== null && end > start ? end : null, text }];
+  });
+};
+
+export const detectMarkerFormat = (content: string): MarkerFileFormat | null => {
+  const head = content.slice(0, 4096);
+  if (/<fcpxml[\s>]/.test(head)) return 'fcpxml';
+  if (/<xmeml[\s>]/.test(head)) return 'xmeml';
+  if (/\|M:.*\|D:\d+/.test(content)) return 'resolve-edl';
+  if (/^TITLE:/m.test(head) || content.split(/\r?\n/).some((line) => EDL_EVENT.test(line))) return 'cmx3600';
+  if (/marker name|description/i.test(head.split(/\r?\n/, 1)[0]) && /\bin\b/i.test(head.split(/\r?\n/, 1)[0])) return 'premiere-csv';
+  return null;
+};
+
+/**
+ * Markers in an NLE marker file, as times into the video. Markers before `startOffset`
+ * (or before the timeline's own start, for FCPXML) are dropped.
+ */
+export const parseMarkerFile = (content: string, frameRate: number, startOffset: number) => {
+  const format = detectMarkerFormat(content);
+  if (!format) {
+    throw new MarkerFileError('This file is not an EDL, FCPXML, Premiere XML or marker CSV');
+  }
+
+  const seconds = (tc: string) => {
+    const value = parseTimecode(tc.replace('.', ':'), frameRate);
+    return value === null ? null : value - startOffset;
+  };
+
+  let markers: ParsedMarker[];
+  if (format === 'fcpxml' || format === 'xmeml') {
+    const document = new DOMParser().parseFromString(content, 'application/xml');
+    if (document.querySelector('parsererror')) throw new MarkerFileError('The XML in this file could not be read');
+    markers = format === 'fcpxml' ? parseFcpxml(document) : parseXmeml(document);
+  } else if (format === 'premiere-csv') {
+    markers = parsePremiereCsv(content, seconds);
+  } else {
+    markers = parseEdl(content, seconds);
+  }
+
+  return {
+    format,
+    markers: markers
+      .map(({ durationFrames, ...marker }) => {
+        const end = durationFrames ? marker.start + frameToSeconds(durationFrames, frameRate) : marker.end;
+        // Single-frame markers are points in time, not ranges
+        const isRange = end !== null && toFrames(end, frameRate) - toFrames(marker.start, frameRate) > 1;
+        return { ...marker, end: isRange ? end : null, text: marker.text.trim() };
+      })
+      .filter((marker) => marker.start >= 0 && marker.text)
+      .sort((a, b) => a.start - b.start)
+  };
+};
@@ -0,0 +1,130 @@
+/**
+ * IndexedDB persistence for offline mode
+ * Keeps the last result of cached reads and the queue of writes made while offline,
+ * in a separate database per signed-in user
+ */
+
+import type { BatchOperation, UniversalQuery } from "@/lib/database-config";
+
+// Each user's database is named `${DB_NAME}:${userId}`
+const DB_NAME = 'xrozen-offline';
+const DB_VERSION = 1;
+const READS = 'reads';
+const QUEUE = 'queue';
+
+type StoredRow = Record<string, unknown>;
+
+export interface CachedRead {
+  key: string;
+  collection: string;
+  query: UniversalQuery;
+  rows: StoredRow[];
+  cachedAt: string;
+}
+
+export type QueuedWriteStatus = 'pending' | 'conflict';
+
+export interface QueuedWrite {
+  id?: number;
+  write: BatchOperation;
+  /** Values of the updated columns when the update was made, per row id */
+  baseline?: Record<string, StoredRow>;
+  status: QueuedWriteStatus;
+  /** Why the write could not be replayed */
+  error?: string;
+  queuedAt: string;
+}
+
+let currentUser: string | null = null;
+let connection: Promise<IDBDatabase> | null = null;
+
+const databaseName = (userId: string) => `${DB_NAME}:${userId}`;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!currentUser) {
+    return Promise.reject(new Error('The offline store is only open while someone is signed in'));
+  }
+  if (!connection) {
+    const name = databaseName(currentUser);
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(READS)) {
+          database.createObjectStore(READS, { keyPath: 'key' }).createIndex('collection', 'collection');
+        }
+        if (!database.objectStoreNames.contains(QUEUE)) {
+          database.createObjectStore(QUEUE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+  }
+  return connection;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const closeDatabase = async () => {
+  const previous = connection;
+  connection = null;
+  (await previous?.catch(() => null))?.close();
+};
+
+const objectStore = async (name: string, mode: IDBTransactionMode) =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
+
+export const offlineStore = {
+  isAvailable: typeof indexedDB !== 'undefined',
+
+  /** Switches to the given user's database; null closes it until someone signs in */
+  async setUser(userId: string | null): Promise<void> {
+    if (userId === currentUser) return;
+    await closeDatabase();
+    currentUser = userId;
+  },
+
+  /** Deletes everything stored for a user */
+  async clear(userId: string): Promise<void> {
+    if (userId === currentUser) await closeDatabase();
+    await toPromise(indexedDB.deleteDatabase(databaseName(userId)));
+  },
+
+  async getRead(key: string): Promise<CachedRead | undefined> {
+    return toPromise((await objectStore(READS, 'readonly')).get(key));
+  },
+
+  async getReads(collection: string): Promise<CachedRead[]> {
+    return toPromise((await objectStore(READS, 'readonly')).index('collection').getAll(collection));
+  },
+
+  async putRead(read: CachedRead): Promise<void> {
+    await toPromise((await objectStore(READS, 'readwrite')).put(read));
+  },
+
+  /** Queued writes in the order they were made */
+  async getQueue(): Promise<QueuedWrite[]> {
+    return toPromise((await objectStore(QUEUE, 'readonly')).getAll());
+  },
+
+  async enqueue(write: QueuedWrite): Promise<number> {
+    return toPromise((await objectStore(QUEUE, 'readwrite')).add(write)) as Promise<number>;
+  },
+
+  async updateWrite(write: QueuedWrite): Promise<void> {
+    await toPromise((await objectStore(QUEUE, 'readwrite')).put(write));
+  },
+
+  async removeWrite(id: number): Promise<void> {
+    await toPromise((await objectStore(QUEUE, 'readwrite')).delete(id));
+  }
+};
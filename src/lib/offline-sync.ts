@@ -0,0 +1,327 @@
+/**
+ * Offline mode for DatabaseManager
+ * Serves cached reads while the network is down, queues inserts/updates and
+ * replays them with conflict detection once connectivity returns. The cache and
+ * queue belong to the signed-in user; nothing goes through them while signed out.
+ */
+
+import {
+  applyWrite,
+  matchesWhere,
+  type BatchOperation,
+  type UniversalQuery
+} from "@/lib/database-config";
+import { offlineStore, type QueuedWrite } from "@/lib/offline-store";
+import { errorMessage } from "@/lib/utils";
+
+type StoredRow = Record<string, unknown>;
+
+// Review data an editor needs on a bad connection
+export const OFFLINE_COLLECTIONS = ['projects', 'video_versions', 'video_feedback'];
+
+export type SyncState = 'online' | 'offline' | 'syncing';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  conflicts: QueuedWrite[];
+  lastSyncedAt: string | null;
+}
+
+export type ConflictResolution = 'overwrite' | 'discard';
+
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = errorMessage(error, String(error));
+  return error instanceof TypeError || /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const readKey = ({ collection, where, orderBy, select, limit, offset }: UniversalQuery) =>
+  JSON.stringify([collection, where ?? null, orderBy ?? null, select ?? '*', limit ?? null, offset ?? null]);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const pick = (row: StoredRow, columns: string[]) =>
+  Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+
+export class OfflineSync {
+  private status: SyncStatus = { state: isOnline() ? 'online' : 'offline', pending: 0, conflicts: [], lastSyncedAt: null };
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private replaying: Promise<void> | null = null;
+  private userId: string | null = null;
+
+  constructor(private execute: (query: UniversalQuery) => Promise<unknown>) {
+    if (typeof window === 'undefined' || !offlineStore.isAvailable) return;
+
+    window.addEventListener('online', () => {
+      this.setStatus({ state: 'online' });
+      this.flush();
+    });
+    window.addEventListener('offline', () => this.setStatus({ state: 'offline' }));
+  }
+
+  /** Switches to the cache and queue of whoever is signed in now */
+  async setUser(userId: string | null): Promise<void> {
+    if (!offlineStore.isAvailable || userId === this.userId) return;
+
+    this.userId = null;
+    await offlineStore.setUser(userId);
+    this.userId = userId;
+    this.setStatus({ pending: 0, conflicts: [], lastSyncedAt: null });
+    if (!userId) return;
+
+    // Replay anything left over from this user's previous session
+    try {
+      await this.refreshQueue();
+      await this.flush();
+    } catch (error) {
+      console.error('Failed to read the offline queue:', error);
+    }
+  }
+
+  /** Deletes the signed-in user's cached reads and unsent writes, before signing out */
+  async clear(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    await this.setUser(null);
+    await offlineStore.clear(userId);
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Runs a query, going through the offline cache and queue for OFFLINE_COLLECTIONS */
+  async handle(query: UniversalQuery): Promise<unknown> {
+    if (!offlineStore.isAvailable || !this.userId || !OFFLINE_COLLECTIONS.includes(query.collection)) {
+      return this.execute(query);
+    }
+
+    switch (query.operation) {
+      case 'select':
+        return this.read(query);
+      case 'insert':
+      case 'update':
+        return this.write(query);
+      default:
+        return this.execute(query);
+    }
+  }
+
+  /** Replays queued writes; concurrent calls share one run */
+  flush(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replay().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  async resolveConflict(id: number, resolution: ConflictResolution): Promise<void> {
+    const queued = (await offlineStore.getQueue()).find((item) => item.id === id);
+    if (!queued) return;
+
+    if (resolution === 'overwrite') {
+      await this.apply(queued.write);
+    }
+    await offlineStore.removeWrite(id);
+    await this.refreshQueue();
+  }
+
+  private setStatus(patch: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.listeners.forEach((listener) => listener(this.status));
+  }
+
+  private async refreshQueue() {
+    const queue = await offlineStore.getQueue();
+    this.setStatus({
+      pending: queue.filter((item) => item.status === 'pending').length,
+      conflicts: queue.filter((item) => item.status === 'conflict')
+    });
+  }
+
+  private async read(query: UniversalQuery): Promise<StoredRow[]> {
+    const key = readKey(query);
+
+    try {
+      const rows = (await this.execute(query)) as StoredRow[];
+      await offlineStore.putRead({
+        key,
+        collection: query.collection,
+        query,
+        rows: rows || [],
+        cachedAt: new Date().toISOString()
+      }).catch(() => undefined);
+      return this.withPendingWrites(query, rows || []);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      this.setStatus({ state: 'offline' });
+
+      const cached = await offlineStore.getRead(key);
+      if (!cached) throw error;
+      return this.withPendingWrites(query, cached.rows);
+    }
+  }
+
+  // Writes that have not reached the server yet still show up in what the user reads
+  private async withPendingWrites(query: UniversalQuery, rows: StoredRow[]) {
+    if (this.status.pending === 0) return rows;
+
+    const queue = await offlineStore.getQueue();
+    return queue
+      .filter((item) => item.status === 'pending' && item.write.collection === query.collection)
+      .reduce((result, item) => applyWrite(result, query, item.write), rows);
+  }
+
+  private async write(query: UniversalQuery): Promise<unknown> {
+    const write: BatchOperation = {
+      collection: query.collection,
+      operation: query.operation as 'insert' | 'update',
+      where: query.where,
+      // Ids are assigned up front so a replayed insert can be recognised if it already went through
+      data: query.operation === 'insert'
+        ? Array.isArray(query.data)
+          ? query.data.map((row) => ({ id: crypto.randomUUID(), ...row }))
+          : { id: crypto.randomUUID(), ...query.data }
+        : query.data
+    };
+
+    // Keep the original order: once something is queued, later writes queue behind it
+    if (isOnline() && this.status.pending === 0) {
+      try {
+        return await this.execute({ ...query, data: write.data });
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    const cachedRows = await this.cachedRows(write);
+    await offlineStore.enqueue({
+      write,
+      baseline: write.operation === 'update'
+        ? Object.fromEntries(cachedRows.map((row) => [String(row.id), pick(row, Object.keys(write.data || {}))]))
+        : undefined,
+      status: 'pending',
+      queuedAt: new Date().toISOString()
+    });
+    await this.refreshQueue();
+    if (isOnline()) this.flush();
+
+    if (write.operation === 'insert') {
+      return Array.isArray(write.data) ? write.data[0] : write.data;
+    }
+    return cachedRows[0] ? { ...cachedRows[0], ...write.data } : write.data;
+  }
+
+  // Rows of the collection a write targets, as last seen in any cached read
+  private async cachedRows(write: BatchOperation): Promise<StoredRow[]> {
+    if (write.operation !== 'update') return [];
+
+    const reads = await offlineStore.getReads(write.collection);
+    const rows = new Map<string, StoredRow>();
+    reads.forEach((read) => {
+      read.rows.forEach((row) => {
+        if (row.id && matchesWhere(row, write.where)) rows.set(String(row.id), row);
+      });
+    });
+    return [...rows.values()];
+  }
+
+  private async replay() {
+    if (!isOnline() || !this.userId) return;
+
+    const queue = (await offlineStore.getQueue()).filter((item) => item.status === 'pending');
+    if (queue.length === 0) return;
+
+    this.setStatus({ state: 'syncing' });
+
+    for (const item of queue) {
+      try {
+        const conflict = await this.detectConflict(item);
+        if (conflict) {
+          await offlineStore.updateWrite({ ...item, status: 'conflict', error: conflict });
+          continue;
+        }
+
+        await this.apply(item.write);
+        await offlineStore.removeWrite(item.id!);
+      } catch (error) {
+        // Connection dropped again; the rest is retried on the next online event
+        if (isNetworkError(error)) break;
+        await offlineStore.updateWrite({
+          ...item,
+          status: 'conflict',
+          error: errorMessage(error, 'The server rejected this change')
+        });
+      }
+    }
+
+    await this.refreshQueue();
+    this.setStatus({
+      state: isOnline() ? 'online' : 'offline',
+      lastSyncedAt: this.status.pending === 0 ? new Date().toISOString() : this.status.lastSyncedAt
+    });
+  }
+
+  /**
+   * An update conflicts when a column it changes was modified on the server
+   * (to a different value) after the user last saw the row, or the row is gone.
+   */
+  private async detectConflict({ write, baseline }: QueuedWrite): Promise<string | null> {
+    if (write.operation !== 'update' || !baseline || Object.keys(baseline).length === 0) return null;
+
+    const current = (await this.execute({
+      collection: write.collection,
+      operation: 'select',
+      where: write.where
+    })) as StoredRow[];
+    const currentById = new Map((current || []).map((row) => [String(row.id), row]));
+
+    for (const [id, before] of Object.entries(baseline)) {
+      const row = currentById.get(id);
+      if (!row) return 'The record was deleted while you were offline';
+
+      const changed = Object.keys(before).filter(
+        (column) => !sameValue(row[column], before[column]) && !sameValue(row[column], write.data?.[column])
+      );
+      if (changed.length) return `Changed by someone else while you were offline: ${changed.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  private async apply(write: BatchOperation) {
+    if (write.operation !== 'insert') {
+      await this.execute({ ...write });
+      return;
+    }
+
+    // Skip rows a previous, interrupted replay already inserted
+    const rows = Array.isArray(write.data) ? write.data : [write.data];
+    const existing = (await this.execute({
+      collection: write.collection,
+      operation: 'select',
+      select: 'id',
+      where: { id: { in: rows.map((row) => row.id) } }
+    })) as StoredRow[];
+    const existingIds = new Set((existing || []).map((row) => row.id));
+    const missing = rows.filter((row) => !existingIds.has(row.id));
+
+    if (missing.length) {
+      await this.execute({ ...write, data: missing });
+    }
+  }
+}
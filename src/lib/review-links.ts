@@ -0,0 +1,91 @@
+/**
+ * Shareable guest review links for versions
+ * Project managers create and revoke links (review_links); guests have no account and
+ * only ever talk to the guest-review edge function, which checks the link on every call.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { SpriteSheet } from '@/lib/version-media';
+
+export type ReviewLinkStatus = 'active' | 'expired' | 'revoked';
+
+export interface GuestComment {
+  id: string;
+  parentId: string | null;
+  author: string;
+  isGuest: boolean;
+  text: string;
+  timestamp: number | null;
+  endTimestamp: number | null;
+  resolved: boolean;
+  createdAt: string;
+}
+
+export interface GuestReview {
+  project: { name: string };
+  version: {
+    versionNumber: number;
+    frameRate: number;
+    playbackUrl: string | null;
+    poster: string | null;
+    sprite: { url: string; sheet: SpriteSheet } | null;
+  };
+  allowDownload: boolean;
+  downloadUrl: string | null;
+  expiresAt: string | null;
+  feedback: GuestComment[];
+}
+
+export interface GuestCommentInput {
+  guestName: string;
+  text: string;
+  timestamp?: number;
+  endTimestamp?: number;
+  parentId?: string;
+}
+
+export class GuestReviewError extends Error {
+  constructor(message: string, public status: number, public passwordRequired = false) {
+    super(message);
+    this.name = 'GuestReviewError';
+  }
+}
+
+/** How long a new link stays valid, in days; null never expires */
+export const LINK_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 }
+];
+
+export const reviewLinkStatus = (link: { revoked_at: string | null; expires_at: string | null }): ReviewLinkStatus => {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at) <= new Date()) return 'expired';
+  return 'active';
+};
+
+/** Who wrote a comment; guests have no profile, only the name they gave */
+export const feedbackAuthorName = (
+  item: { user_id: string | null; guest_name?: string | null },
+  authorNames: Record<string, string>
+): string | undefined => (item.user_id ? authorNames[item.user_id] : `${item.guest_name} (guest)`);
+
+export const reviewLinkUrl = (token: string) => `${window.location.origin}/review/${token}`;
+
+const invokeGuestReview = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('guest-review', { body });
+  if (error) {
+    // The function's message says why the link can't be used; the generic one doesn't
+    const response = error.context as Response | undefined;
+    const payload = await response?.json?.().catch(() => null);
+    throw new GuestReviewError(payload?.error || error.message, response?.status ?? 500, !!payload?.passwordRequired);
+  }
+  return data;
+};
+
+export const openGuestReview = (token: string, password?: string) =>
+  invokeGuestReview<GuestReview>({ action: 'open', token, password });
+
+export const postGuestComment = (token: string, password: string | undefined, comment: GuestCommentInput) =>
+  invokeGuestReview<{ feedback: { id: string } }>({ action: 'comment', token, password, ...comment });
@@ -0,0 +1,48 @@
+/**
+ * Client for the manage-secrets edge function
+ * Credentials are encrypted server-side; the browser can write them but only
+ * ever reads back which secret fields are set
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type SecretSettingKey = 'razorpay_config';
+
+export interface MaskedSetting {
+  /** The setting without its secret fields */
+  value: Record<string, unknown>;
+  /** Secret fields that currently hold a value */
+  stored: string[];
+}
+
+const invoke = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('manage-secrets', { body });
+  if (error) {
+    // Surface the function's own error message instead of the generic non-2xx one
+    const payload = await error.context?.json?.().catch(() => null);
+    throw new Error(payload?.error || error.message);
+  }
+  return data as T;
+};
+
+export const secrets = {
+  get(key: SecretSettingKey): Promise<MaskedSetting> {
+    return invoke({ action: 'get', key });
+  },
+
+  /** Secret fields left blank keep their stored value */
+  async save(key: SecretSettingKey, value: Record<string, unknown>): Promise<void> {
+    await invoke({ action: 'save', key, value });
+  },
+
+  /** Stores `config` as the active database_config row, then deactivates the previous one */
+  async saveDatabaseConfig(provider: string, config: Record<string, unknown>): Promise<void> {
+    await invoke({ action: 'save', key: 'database_config', provider, value: config });
+  },
+
+  /** Re-encrypts every stored secret with the current server key */
+  async rotate(): Promise<number> {
+    const { rotated } = await invoke<{ rotated: number }>({ action: 'rotate' });
+    return rotated;
+  }
+};
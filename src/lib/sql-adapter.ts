@@ -0,0 +1,104 @@
+/**
+ * SQL adapter for self-hosted PostgreSQL / SQLite
+ * Sends UniversalQuery objects through the database-proxy function; the
+ * sql-gateway compiles them and applies each table's row rules for the caller
+ */
+
+import {
+  getAggregates,
+  type BatchOperation,
+  type DatabaseAdapter,
+  type UniversalQuery
+} from "@/lib/database-config";
+import { supabase } from "@/integrations/supabase/client";
+
+export type SqlProvider = 'postgresql' | 'sqlite';
+
+type Rows = Record<string, unknown>[];
+
+const invokeProxy = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('database-proxy', { body });
+  if (error) {
+    // Surface the function's own error message instead of the generic non-2xx one
+    const payload = await error.context?.json?.().catch(() => null);
+    throw new Error(payload?.error || error.message);
+  }
+  return data as T;
+};
+
+/**
+ * Checks gateway settings typed into the admin page before they are saved.
+ * A blank access token means the stored one. Admin only.
+ */
+export const testGatewayConnection = async (
+  provider: string,
+  credentials: Record<string, unknown>
+): Promise<boolean> => {
+  const { success } = await invokeProxy<{ success: boolean }>({ action: 'test', provider, credentials });
+  return success;
+};
+
+export class SqlAdapter implements DatabaseAdapter {
+  constructor(private provider: SqlProvider) {}
+
+  private toResult(
+    { operation, aggregates }: Pick<UniversalQuery, 'operation' | 'aggregates'>,
+    rows: Rows
+  ): unknown {
+    switch (operation) {
+      case 'select':
+        return rows;
+      case 'insert':
+      case 'update':
+        return rows?.[0];
+      case 'count':
+        return Number(rows?.[0]?.count ?? 0);
+      case 'aggregate': {
+        // Drivers return COUNT as bigint and SUM/AVG as numeric strings
+        const numeric = getAggregates(aggregates)
+          .filter(({ fn }) => fn === 'count' || fn === 'sum' || fn === 'avg')
+          .map(({ alias }) => alias);
+        return (rows || []).map((row) => {
+          const copy = { ...row };
+          numeric.forEach((alias) => {
+            if (copy[alias] !== null && copy[alias] !== undefined) copy[alias] = Number(copy[alias]);
+          });
+          return copy;
+        });
+      }
+      default:
+        return null;
+    }
+  }
+
+  /** Runs the queries in one transaction and returns one row set per query */
+  private async execute(queries: UniversalQuery[]): Promise<Rows[]> {
+    const { results } = await invokeProxy<{ results: Rows[] }>({ queries });
+    return results;
+  }
+
+  async query(query: UniversalQuery): Promise<unknown> {
+    const [rows] = await this.execute([query]);
+    return this.toResult(query, rows);
+  }
+
+  async batch(operations: BatchOperation[]): Promise<unknown[]> {
+    const results = await this.execute(operations);
+    return operations.map((operation, index) => this.toResult(operation, results[index]));
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.query({
+        collection: 'profiles',
+        operation: 'select',
+        select: 'id',
+        limit: 1
+      });
+      return true;
+    } catch (error) {
+      console.error(`${this.provider} connection test failed:`, error);
+      return false;
+    }
+  }
+}
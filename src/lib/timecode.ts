@@ -0,0 +1,80 @@
+/**
+ * Frame-accurate time for review: frame numbers and SMPTE timecode (HH:MM:SS:FF)
+ * 29.97 and 59.94 use drop-frame timecode, written with ";" before the frames
+ */
+
+export const FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+export const DEFAULT_FRAME_RATE = 24;
+
+/** Playback speeds the J/K/L shuttle steps through */
+export const SHUTTLE_SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+// 23.976, 29.97 and 59.94 are written rounded but really run at n * 1000/1001
+const exactRate = (fps: number) => {
+  const nominal = Math.round(fps);
+  return Math.abs(fps - (nominal * 1000) / 1001) < 0.01 ? (nominal * 1000) / 1001 : fps;
+};
+
+export const isDropFrame = (fps: number) => Math.abs(fps - 29.97) < 0.01 || Math.abs(fps - 59.94) < 0.01;
+
+// Frames skipped in the timecode at the start of each minute, except every tenth
+const droppedPerMinute = (fps: number) => (isDropFrame(fps) ? Math.round(fps / 15) : 0);
+
+/** Index of the frame showing at `seconds`; the epsilon keeps n / fps on frame n despite float error */
+export const toFrames = (seconds: number, fps: number) => Math.max(0, Math.floor(seconds * exactRate(fps) + 1e-6));
+
+/** Start of the frame showing at `seconds`, the value stored for frame-accurate timestamps */
+export const snapToFrame = (seconds: number, fps: number) => toFrames(seconds, fps) / exactRate(fps);
+
+/** Start of frame `frame` in seconds */
+export const frameToSeconds = (frame: number, fps: number) => Math.max(0, frame) / exactRate(fps);
+
+/** Middle of a frame; seeking there shows that frame whatever the browser's rounding */
+export const frameMidpoint = (frame: number, fps: number) => (Math.max(0, frame) + 0.5) / exactRate(fps);
+
+export const formatTimecode = (seconds: number, fps: number) => {
+  const nominal = Math.round(fps);
+  const dropped = droppedPerMinute(fps);
+  let frame = toFrames(seconds, fps);
+
+  if (dropped) {
+    const framesPerTenMinutes = Math.round(exactRate(fps) * 600);
+    const framesPerMinute = nominal * 60 - dropped;
+    const tens = Math.floor(frame / framesPerTenMinutes);
+    const rest = frame % framesPerTenMinutes;
+    frame += 9 * dropped * tens + (rest > dropped ? dropped * Math.floor((rest - dropped) / framesPerMinute) : 0);
+  }
+
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const ff = frame % nominal;
+  const ss = Math.floor(frame / nominal) % 60;
+  const mm = Math.floor(frame / (nominal * 60)) % 60;
+  const hh = Math.floor(frame / (nominal * 3600));
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${dropped ? ';' : ':'}${pad(ff)}`;
+};
+
+/** Plain M:SS (or H:MM:SS) for media without frames, such as audio */
+export const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(total % 60)}` : `${minutes}:${pad(total % 60)}`;
+};
+
+/** Seconds at the start of the frame named by "HH:MM:SS:FF" (or ";FF"), or null when it isn't a timecode */
+export const parseTimecode = (text: string, fps: number): number | null => {
+  const parts = text.trim().split(/[:;]/).map((part) => parseInt(part, 10));
+  if (parts.length !== 4 || parts.some((part) => isNaN(part) || part < 0)) return null;
+
+  const [hh, mm, ss, ff] = parts;
+  const nominal = Math.round(fps);
+  if (mm > 59 || ss > 59 || ff >= nominal) return null;
+
+  const minutes = hh * 60 + mm;
+  const frame = (minutes * 60 + ss) * nominal + ff - droppedPerMinute(fps) * (minutes - Math.floor(minutes / 10));
+  return Math.max(0, frame) / exactRate(fps);
+};
+
+export const formatFrameRate = (fps: number) => `${Number(fps.toFixed(3))} fps`;
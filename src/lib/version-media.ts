@@ -0,0 +1,236 @@
+/**
+ * Poster frames, hover-scrub sprite sheets and audio waveforms for versions
+ * Generated in the browser (canvas for frames, Web Audio for the waveform) and cached in
+ * the project-videos bucket; a version's `media` column records where they are.
+ * Stills get a poster only and audio files a waveform only.
+ */
+
+import type { CSSProperties } from 'react';
+import type { Json } from '@/integrations/supabase/types';
+import { detectMediaKind, detectVideoPlatform } from '@/lib/video-platform';
+import { getPlaybackUrl, isStoredVideo, storeFile } from '@/lib/video-storage';
+
+// Type aliases rather than interfaces so they can be saved as Json
+export type SpriteSheet = {
+  url: string;
+  columns: number;
+  rows: number;
+  count: number;
+  /** Seconds of video each tile stands for */
+  interval: number;
+  tileWidth: number;
+  tileHeight: number;
+};
+
+export type VersionMedia = {
+  /** Null for audio */
+  poster: string | null;
+  sprite: SpriteSheet | null;
+  /** Null when the video has no audio or was too large to decode */
+  waveform: string | null;
+  /** Zero for stills */
+  duration: number;
+};
+
+export interface Waveform {
+  duration: number;
+  /** Loudest sample per slice, 0-1 */
+  peaks: number[];
+}
+
+const POSTER_WIDTH = 640;
+const TILE_WIDTH = 160;
+const MAX_TILES = 100;
+const SPRITE_COLUMNS = 10;
+const WAVEFORM_PEAKS = 800;
+// decodeAudioData needs the whole file in memory, so larger files get no waveform
+const MAX_WAVEFORM_SOURCE_BYTES = 512 * 1024 * 1024;
+
+/** Files can only be read from uploads and direct links; embeds and streams are skipped */
+export const canGenerateMedia = (url?: string | null) =>
+  !!url && (isStoredVideo(url) || detectVideoPlatform(url) === 'direct' || detectMediaKind(url) !== 'video');
+
+export const parseVersionMedia = (value: Json | null | undefined): VersionMedia | null =>
+  value && typeof value === 'object' && !Array.isArray(value) && typeof value.duration === 'number'
+    ? (value as unknown as VersionMedia)
+    : null;
+
+/** The stored files behind `media`, to delete along with the version */
+export const mediaFiles = (media: VersionMedia | null) => (media ? [media.poster, media.sprite?.url, media.waveform] : []);
+
+const loadVideo = (src: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    // Without CORS the canvas is tainted and can't be exported
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('The video could not be loaded'));
+    video.src = src;
+  });
+
+const seek = (video: HTMLVideoElement, seconds: number) =>
+  new Promise<void>((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('The video could not be read'));
+    video.currentTime = seconds;
+  });
+
+const toJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The frame could not be encoded'))), 'image/jpeg', 0.75);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be loaded'));
+    image.src = src;
+  });
+
+/** Peaks of the file's audio, or null when it has none or is too large to decode here */
+export const computeWaveform = async (src: string): Promise<Waveform | null> => {
+  const response = await fetch(src);
+  if (!response.ok) return null;
+  if (Number(response.headers.get('content-length')) > MAX_WAVEFORM_SOURCE_BYTES) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  // An offline context decodes without asking for permission to play sound
+  const context = new OfflineAudioContext(1, 1, 44100);
+  let audio: AudioBuffer;
+  try {
+    audio = await context.decodeAudioData(await response.arrayBuffer());
+  } catch {
+    return null;
+  }
+
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, index) => audio.getChannelData(index));
+  const sliceLength = Math.max(1, Math.ceil(audio.length / WAVEFORM_PEAKS));
+  const peaks: number[] = [];
+  for (let start = 0; start < audio.length; start += sliceLength) {
+    let peak = 0;
+    const end = Math.min(audio.length, start + sliceLength);
+    for (const samples of channels) {
+      for (let index = start; index < end; index++) {
+        const value = Math.abs(samples[index]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks);
+  if (!loudest) return null;
+  return { duration: audio.duration, peaks: peaks.map((peak) => Math.round((peak / loudest) * 1000) / 1000) };
+};
+
+/**
+ * Reads the poster frame, a sprite sheet of evenly spaced tiles and the waveform from the
+ * version's video (just a poster for stills, just the waveform for audio), and stores them
+ * under the project's folder.
+ */
+export const generateVersionMedia = async (
+  videoUrl: string,
+  projectId: string,
+  versionId: string
+): Promise<VersionMedia> => {
+  const src = await getPlaybackUrl(videoUrl);
+  // A new folder per run, so regenerating never overwrites files another member stored
+  const folder = `${projectId}/media/${versionId}/${Date.now()}`;
+
+  const kind = detectMediaKind(videoUrl);
+  if (kind === 'image') {
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(POSTER_WIDTH, image.naturalWidth);
+    canvas.height = Math.round((canvas.width * image.naturalHeight) / image.naturalWidth);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const poster = await storeFile(`${folder}/poster.jpg`, await toJpeg(canvas));
+    return { poster, sprite: null, waveform: null, duration: 0 };
+  }
+  if (kind === 'audio') {
+    const waveform = await computeWaveform(src);
+    if (!waveform) throw new Error('The audio could not be decoded');
+    const url = await storeFile(`${folder}/waveform.json`, new Blob([JSON.stringify(waveform)], { type: 'application/json' }));
+    return { poster: null, sprite: null, waveform: url, duration: waveform.duration };
+  }
+
+  const video = await loadVideo(src);
+
+  try {
+    const { duration, videoWidth, videoHeight } = video;
+    if (!Number.isFinite(duration) || duration <= 0 || !videoWidth) {
+      throw new Error('The video has no frames to read');
+    }
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d')!;
+    const heightFor = (width: number) => Math.round((width * videoHeight) / videoWidth / 2) * 2;
+
+    canvas.width = POSTER_WIDTH;
+    canvas.height = heightFor(POSTER_WIDTH);
+    await seek(video, Math.min(duration * 0.1, 10));
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const poster = await toJpeg(canvas);
+
+    const count = Math.min(MAX_TILES, Math.max(1, Math.ceil(duration)));
+    const interval = duration / count;
+    const columns = Math.min(SPRITE_COLUMNS, count);
+    const rows = Math.ceil(count / columns);
+    const tileHeight = heightFor(TILE_WIDTH);
+    canvas.width = columns * TILE_WIDTH;
+    canvas.height = rows * tileHeight;
+    for (let tile = 0; tile < count; tile++) {
+      // The middle of each tile's span represents it best
+      await seek(video, Math.min((tile + 0.5) * interval, duration - 0.01));
+      context.drawImage(video, (tile % columns) * TILE_WIDTH, Math.floor(tile / columns) * tileHeight, TILE_WIDTH, tileHeight);
+    }
+    const sprite = await toJpeg(canvas);
+
+    const waveform = await computeWaveform(src).catch(() => null);
+
+    const [posterUrl, spriteUrl, waveformUrl] = await Promise.all([
+      storeFile(`${folder}/poster.jpg`, poster),
+      storeFile(`${folder}/sprite.jpg`, sprite),
+      waveform ? storeFile(`${folder}/waveform.json`, new Blob([JSON.stringify(waveform)], { type: 'application/json' })) : null
+    ]);
+
+    return {
+      poster: posterUrl,
+      sprite: { url: spriteUrl, columns, rows, count, interval, tileWidth: TILE_WIDTH, tileHeight },
+      waveform: waveformUrl,
+      duration
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+export const fetchWaveform = async (url: string): Promise<Waveform> => {
+  const response = await fetch(await getPlaybackUrl(url));
+  if (!response.ok) throw new Error('The waveform could not be loaded');
+  return response.json();
+};
+
+/** SVG path of the waveform, drawn in a viewBox of "0 0 <peaks> 2" */
+export const waveformPath = (peaks: number[]) =>
+  peaks.map((peak, index) => `M${index + 0.5} ${1 - peak}V${1 + peak}`).join('');
+
+/** Background styles showing the tile for `seconds` at `width` pixels wide */
+export const spriteTileStyle = (sheet: SpriteSheet, spriteUrl: string, seconds: number, width: number): CSSProperties => {
+  const tile = Math.min(sheet.count - 1, Math.max(0, Math.floor(seconds / sheet.interval)));
+  const height = (width * sheet.tileHeight) / sheet.tileWidth;
+  return {
+    width,
+    height,
+    backgroundImage: `url("${spriteUrl}")`,
+    backgroundSize: `${sheet.columns * width}px ${sheet.rows * height}px`,
+    backgroundPosition: `-${(tile % sheet.columns) * width}px -${Math.floor(tile / sheet.columns) * height}px`
+  };
+};
@@ -0,0 +1,49 @@
+/**
+ * Where a version's video is hosted, which decides how it can be played
+ * Direct files, HLS/DASH streams and Dropbox play in a <video> element; the rest are embedded iframes.
+ * Versions can also be stills or audio files, reviewed without the video player.
+ */
+
+export type VideoPlatform = 'youtube' | 'google-drive' | 'vimeo' | 'dropbox' | 'onedrive' | 'hls' | 'dash' | 'direct' | 'unknown';
+
+export type MediaKind = 'video' | 'image' | 'audio';
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif', '.svg', '.bmp'];
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.oga', '.opus', '.flac'];
+
+// Streaming manifests and stored files usually carry a signed query string, so only the path is checked
+const pathEndsWith = (videoUrl: string, extension: string) => {
+  try {
+    return new URL(videoUrl).pathname.toLowerCase().endsWith(extension);
+  } catch {
+    return videoUrl.split('?')[0].toLowerCase().endsWith(extension);
+  }
+};
+
+export const detectVideoPlatform = (videoUrl: string): VideoPlatform => {
+  if (!videoUrl) return 'unknown';
+
+  if (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) return 'youtube';
+  if (videoUrl.includes('drive.google.com') || videoUrl.includes('docs.google.com')) return 'google-drive';
+  if (videoUrl.includes('vimeo.com')) return 'vimeo';
+  if (videoUrl.includes('dropbox.com')) return 'dropbox';
+  if (videoUrl.includes('onedrive.live.com') || videoUrl.includes('sharepoint.com')) return 'onedrive';
+  if (pathEndsWith(videoUrl, '.m3u8')) return 'hls';
+  if (pathEndsWith(videoUrl, '.mpd')) return 'dash';
+  if (['.mp4', '.webm', '.mov', '.m4v'].some((extension) => pathEndsWith(videoUrl, extension))) return 'direct';
+  return 'unknown';
+};
+
+export const playsInVideoElement = (platform: VideoPlatform) =>
+  platform === 'direct' || platform === 'dropbox' || platform === 'hls' || platform === 'dash';
+
+/** Whether the video plays in our own <video> element, so frames can be drawn on and composited */
+export const isNativeVideo = (videoUrl: string) => playsInVideoElement(detectVideoPlatform(videoUrl));
+
+/** What a version's file is, from its extension; anything unrecognised is treated as video */
+export const detectMediaKind = (url?: string | null): MediaKind => {
+  if (!url) return 'video';
+  if (IMAGE_EXTENSIONS.some((extension) => pathEndsWith(url, extension))) return 'image';
+  if (AUDIO_EXTENSIONS.some((extension) => pathEndsWith(url, extension))) return 'audio';
+  return 'video';
+};
@@ -0,0 +1,189 @@
+/**
+ * Version files kept in Supabase Storage
+ * Files are checksummed, uploaded in resumable chunks (tus) and verified server-side.
+ * A stored version's preview_url / final_url is "storage://project-videos/<path>",
+ * which is turned into a short-lived signed URL for playback.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const VIDEO_BUCKET = 'project-videos';
+
+const STORAGE_PREFIX = `storage://${VIDEO_BUCKET}/`;
+
+/** Signed playback URLs last long enough for a review session */
+export const SIGNED_URL_TTL = 4 * 60 * 60;
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+const HASH_CHUNK_SIZE = 16 * 1024 * 1024;
+
+export type UploadPhase = 'hashing' | 'uploading' | 'paused' | 'verifying' | 'done';
+
+export interface UploadCallbacks {
+  onPhase: (phase: UploadPhase) => void;
+  /** 0-1 within the current phase */
+  onProgress: (fraction: number) => void;
+}
+
+export interface StoredUpload {
+  url: string;
+  sha256: string;
+}
+
+export interface VideoUpload {
+  pause(): void;
+  resume(): void;
+  /** Stops the upload and deletes what was sent so far */
+  cancel(): Promise<void>;
+  /** Settles once the file is uploaded and its checksum confirmed */
+  done: Promise<StoredUpload>;
+}
+
+export const isStoredVideo = (url?: string | null): url is string => !!url && url.startsWith(STORAGE_PREFIX);
+
+export const storagePath = (url: string) => url.slice(STORAGE_PREFIX.length);
+
+export const storedFileName = (url: string) => storagePath(url).split('/').pop() || 'video';
+
+export const toStoredUrl = (path: string) => `${STORAGE_PREFIX}${path}`;
+
+/** A URL the browser can play: signed for stored files, unchanged for links */
+export const getPlaybackUrl = async (url: string): Promise<string> => {
+  if (!isStoredVideo(url)) return url;
+
+  const { data, error } = await supabase.storage.from(VIDEO_BUCKET).createSignedUrl(storagePath(url), SIGNED_URL_TTL);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/** Deletes the stored files among `urls`; links to other hosts are ignored */
+export const removeStoredVideos = async (urls: (string | null | undefined)[]) => {
+  const paths = urls.filter(isStoredVideo).map(storagePath);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(VIDEO_BUCKET).remove(paths);
+  if (error) throw error;
+};
+
+/** Stores a small generated file in a single request, e.g. a version's poster frame */
+export const storeFile = async (path: string, file: Blob) => {
+  const { error } = await supabase.storage.from(VIDEO_BUCKET).upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+  return toStoredUrl(path);
+};
+
+/** Hex SHA-256 of a file, read in chunks so large videos never sit in memory whole */
+export const hashFile = async (file: File, onProgress?: (fraction: number) => void, signal?: AbortSignal) => {
+  const { createSHA256 } = await import('hash-wasm');
+  const hasher = await createSHA256();
+  hasher.init();
+
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+    hasher.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()));
+    onProgress?.(Math.min(1, (offset + HASH_CHUNK_SIZE) / file.size));
+  }
+  return hasher.digest('hex');
+};
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'video';
+
+const verifyUpload = async (path: string, sha256: string) => {
+  const { data, error } = await supabase.functions.invoke('verify-upload', { body: { path, sha256 } });
+  if (error) {
+    // Surface the function's own error message instead of the generic non-2xx one
+    const payload = await error.context?.json?.().catch(() => null);
+    throw new Error(payload?.error || error.message);
+  }
+  if (!data?.verified) {
+    throw new Error('The uploaded file does not match the original, please upload it again');
+  }
+};
+
+/**
+ * Uploads `file` under the project's folder. An interrupted upload of the same file
+ * (same checksum) picks up where it stopped, even after a reload.
+ */
+export const uploadVideo = (file: File, projectId: string, callbacks: UploadCallbacks): VideoUpload => {
+  const hashing = new AbortController();
+  let upload: import('tus-js-client').Upload | null = null;
+  let rejectDone: (reason: unknown) => void = () => undefined;
+
+  const done = new Promise<StoredUpload>((resolve, reject) => {
+    rejectDone = reject;
+
+    (async () => {
+      callbacks.onPhase('hashing');
+      const sha256 = await hashFile(file, callbacks.onProgress, hashing.signal);
+      const { Upload } = await import('tus-js-client');
+
+      let objectName = `${projectId}/${crypto.randomUUID()}/${safeFileName(file.name)}`;
+
+      await new Promise<void>((uploaded, failed) => {
+        const current = new Upload(file, {
+          endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+          retryDelays: [0, 3000, 5000, 10000, 20000],
+          chunkSize: UPLOAD_CHUNK_SIZE,
+          uploadDataDuringCreation: true,
+          removeFingerprintOnSuccess: true,
+          headers: { 'x-upsert': 'false' },
+          metadata: {
+            bucketName: VIDEO_BUCKET,
+            objectName,
+            contentType: file.type || 'application/octet-stream',
+            cacheControl: '3600',
+            metadata: JSON.stringify({ sha256 })
+          },
+          fingerprint: async () => `project-video-${projectId}-${sha256}`,
+          // Long uploads outlive an access token, so each request takes the current one
+          onBeforeRequest: async (request) => {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (session) request.setHeader('Authorization', `Bearer ${session.access_token}`);
+          },
+          onProgress: (sent, total) => callbacks.onProgress(total ? sent / total : 0),
+          onSuccess: () => uploaded(),
+          onError: failed
+        });
+        upload = current;
+
+        current.findPreviousUploads().then((previous) => {
+          if (hashing.signal.aborted) return;
+          const resumable = previous.find((candidate) => candidate.metadata?.objectName);
+          if (resumable) {
+            objectName = resumable.metadata.objectName;
+            current.resumeFromPreviousUpload(resumable);
+          }
+          callbacks.onPhase('uploading');
+          current.start();
+        }, failed);
+      });
+
+      callbacks.onPhase('verifying');
+      await verifyUpload(objectName, sha256);
+
+      callbacks.onPhase('done');
+      return { url: toStoredUrl(objectName), sha256 };
+    })().then(resolve, reject);
+  });
+
+  return {
+    pause: () => {
+      if (!upload) return;
+      upload.abort();
+      callbacks.onPhase('paused');
+    },
+    resume: () => {
+      if (!upload) return;
+      callbacks.onPhase('uploading');
+      upload.start();
+    },
+    cancel: async () => {
+      hashing.abort();
+      rejectDone(new DOMException('Upload cancelled', 'AbortError'));
+      // Terminating deletes the partial upload on the server
+      await upload?.abort(true).catch(() => undefined);
+    },
+    done
+  };
+};
@@ -23,6 +23,11 @@ import {
 import { Search, Activity, AlertTriangle, Info, CheckCircle, XCircle } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { db, type Where } from "@/lib/database-config";
+import { usePaginatedQuery, useDebouncedValue } from "@/hooks/use-paginated-query";
+import { LoadMore } from "@/components/LoadMore";
+
+const PAGE_SIZE = 100;
 
 interface ActivityLog {
   id: string;
@@ -36,20 +41,47 @@ interface ActivityLog {
 
 export default function AdminLogs() {
   const navigate = useNavigate();
-  const [logs, setLogs] = useState<ActivityLog[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<ActivityLog[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [actionFilter, setActionFilter] = useState("all");
+  const [stats, setStats] = useState({ total: 0, today: 0, updates: 0, errors: 0 });
+  const [isAdmin, setIsAdmin] = useState(false);
+  const debouncedSearch = useDebouncedValue(searchTerm);
+
+  const where: Where<"admin_activity_logs"> = {};
+  if (debouncedSearch) {
+    where.or = [
+      { action: { ilike: `%${debouncedSearch}%` } },
+      { resource_type: { ilike: `%${debouncedSearch}%` } }
+    ];
+  }
+  if (actionFilter !== "all") where.action = actionFilter;
+
+  const {
+    rows: filteredLogs,
+    total,
+    initialLoading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore
+  } = usePaginatedQuery(isAdmin ? {
+    // The only fetch of the list: it runs once the role check passes and again when a filter changes
+    collection: "admin_activity_logs",
+    where,
+    orderBy: { column: "created_at", ascending: false },
+    pageSize: PAGE_SIZE
+  } : null);
 
   useEffect(() => {
     checkAdminAuth();
-    loadLogs();
   }, []);
 
   useEffect(() => {
-    filterLogs();
-  }, [searchTerm, actionFilter, logs]);
+    if (error) {
+      console.error("Error loading logs:", error);
+      toast.error("Failed to load activity logs");
+    }
+  }, [error]);
 
   const checkAdminAuth = async () => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -68,45 +100,32 @@ export default function AdminLogs() {
     if (!roleData) {
       toast.error("Unauthorized access");
       navigate("/dashboard");
+      return;
     }
+
+    setIsAdmin(true);
+    loadStats();
   };
 
-  const loadLogs = async () => {
+  const loadStats = async () => {
     try {
-      const { data, error } = await supabase
-        .from("admin_activity_logs")
-        .select("*")
-        .order("created_at", { ascending: false })
-        .limit(100);
+      const count = (where?: Where<"admin_activity_logs">) =>
+        db.query({ collection: "admin_activity_logs", operation: "count", where }) as Promise<number>;
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
 
-      if (error) throw error;
-      setLogs(data || []);
-      setFilteredLogs(data || []);
+      const [total, today, updates, errors] = await Promise.all([
+        count(),
+        count({ created_at: { gte: startOfToday.toISOString() } }),
+        count({ action: { like: "%update%" } }),
+        count({ action: { like: "%error%" } })
+      ]);
+      setStats({ total, today, updates, errors });
     } catch (error) {
-      console.error("Error loading logs:", error);
-      toast.error("Failed to load activity logs");
-    } finally {
-      setLoading(false);
+      console.error("Error loading log stats:", error);
     }
   };
 
-  const filterLogs = () => {
-    let filtered = logs;
-
-    if (searchTerm) {
-      filtered = filtered.filter(log =>
-        log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        log.resource_type.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    if (actionFilter !== "all") {
-      filtered = filtered.filter(log => log.action === actionFilter);
-    }
-
-    setFilteredLogs(filtered);
-  };
-
   const getActionIcon = (action: string) => {
     const icons: Record<string, any> = {
       create: <CheckCircle className="w-4 h-4 text-success" />,
@@ -129,7 +148,7 @@ export default function AdminLogs() {
     return "bg-muted";
   };
 
-  if (loading) {
+  if (initialLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
@@ -155,7 +174,7 @@ export default function AdminLogs() {
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Activities</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{logs.length}</div>
+              <div className="text-3xl font-bold">{stats.total}</div>
             </CardContent>
           </Card>
 
@@ -165,11 +184,7 @@ export default function AdminLogs() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-primary">
-                {logs.filter(l => {
-                  const logDate = new Date(l.created_at);
-                  const today = new Date();
-                  return logDate.toDateString() === today.toDateString();
-                }).length}
+                {stats.today}
               </div>
             </CardContent>
           </Card>
@@ -180,7 +195,7 @@ export default function AdminLogs() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-success">
-                {logs.filter(l => l.action.includes('update')).length}
+                {stats.updates}
               </div>
             </CardContent>
           </Card>
@@ -191,7 +206,7 @@ export default function AdminLogs() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-destructive">
-                {logs.filter(l => l.action.includes('error')).length}
+                {stats.errors}
               </div>
             </CardContent>
           </Card>
@@ -277,6 +292,13 @@ export default function AdminLogs() {
                 ))}
               </TableBody>
             </Table>
+            <LoadMore
+              loaded={filteredLogs.length}
+              total={total}
+              hasMore={hasMore}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+            />
           </CardContent>
         </Card>
       </div>
@@ -22,6 +22,12 @@ import {
 } from "@/components/ui/select";
 import { Search, Eye, Flag, CheckCircle, XCircle } from "lucide-react";
 import { toast } from "sonner";
+import { db, type Column, type OrderBy, type Where } from "@/lib/database-config";
+import { usePaginatedQuery, useDebouncedValue } from "@/hooks/use-paginated-query";
+import { LoadMore } from "@/components/LoadMore";
+
+const PAGE_SIZE = 50;
+const STATUS_STATS = ["in_progress", "in_review", "completed", "approved", "cancelled"];
 
 interface Project {
   id: string;
@@ -36,20 +42,69 @@ interface Project {
 
 export default function AdminProjects() {
   const navigate = useNavigate();
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [filteredProjects, setFilteredProjects] = useState<Project[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [sortBy, setSortBy] = useState<OrderBy<Column<"projects">>>({ column: "created_at", ascending: false });
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [totalProjects, setTotalProjects] = useState(0);
+  const debouncedSearch = useDebouncedValue(searchTerm);
+
+  const where: Where<"projects"> = {};
+  if (debouncedSearch) where.name = { ilike: `%${debouncedSearch}%` };
+  if (statusFilter !== "all") where.status = statusFilter;
+
+  const {
+    rows: filteredProjects,
+    total,
+    initialLoading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    reload: loadProjects
+  } = usePaginatedQuery({
+    collection: "projects",
+    where,
+    orderBy: sortBy,
+    pageSize: PAGE_SIZE
+  });
 
   useEffect(() => {
     checkAdminAuth();
-    loadProjects();
+    loadStats();
   }, []);
 
   useEffect(() => {
-    filterProjects();
-  }, [searchTerm, statusFilter, projects]);
+    if (error) {
+      console.error("Error loading projects:", error);
+      toast.error("Failed to load projects");
+    }
+  }, [error]);
+
+  const loadStats = async () => {
+    try {
+      const [all, ...perStatus] = await Promise.all([
+        db.query({ collection: "projects", operation: "count" }),
+        ...STATUS_STATS.map((status) =>
+          db.query({ collection: "projects", operation: "count", where: { status } })
+        )
+      ]);
+      setTotalProjects(all);
+      setStatusCounts(Object.fromEntries(STATUS_STATS.map((status, i) => [status, perStatus[i]])));
+    } catch (error) {
+      console.error("Error loading project stats:", error);
+    }
+  };
+
+  const handleSort = (column: Column<"projects">) => {
+    setSortBy((prev) => ({
+      column,
+      ascending: prev.column === column ? !prev.ascending : true
+    }));
+  };
+
+  const sortIndicator = (column: string) =>
+    sortBy.column === column ? (sortBy.ascending ? " ↑" : " ↓") : "";
 
   const checkAdminAuth = async () => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -71,40 +126,6 @@ export default function AdminProjects() {
     }
   };
 
-  const loadProjects = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("projects")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setProjects(data || []);
-      setFilteredProjects(data || []);
-    } catch (error) {
-      console.error("Error loading projects:", error);
-      toast.error("Failed to load projects");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filterProjects = () => {
-    let filtered = projects;
-
-    if (searchTerm) {
-      filtered = filtered.filter(project =>
-        project.name.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(project => project.status === statusFilter);
-    }
-
-    setFilteredProjects(filtered);
-  };
-
   const updateProjectStatus = async (projectId: string, newStatus: string) => {
     try {
       const { error } = await supabase
@@ -115,6 +136,7 @@ export default function AdminProjects() {
       if (error) throw error;
       toast.success("Project status updated");
       loadProjects();
+      loadStats();
     } catch (error) {
       console.error("Error updating project:", error);
       toast.error("Failed to update project status");
@@ -133,7 +155,7 @@ export default function AdminProjects() {
     return colors[status] || "bg-muted";
   };
 
-  if (loading) {
+  if (initialLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
@@ -191,7 +213,7 @@ export default function AdminProjects() {
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Projects</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{projects.length}</div>
+              <div className="text-3xl font-bold">{totalProjects}</div>
             </CardContent>
           </Card>
 
@@ -201,7 +223,7 @@ export default function AdminProjects() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-primary">
-                {projects.filter(p => p.status === 'in_progress').length}
+                {statusCounts.in_progress || 0}
               </div>
             </CardContent>
           </Card>
@@ -212,7 +234,7 @@ export default function AdminProjects() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-warning">
-                {projects.filter(p => p.status === 'in_review').length}
+                {statusCounts.in_review || 0}
               </div>
             </CardContent>
           </Card>
@@ -223,7 +245,7 @@ export default function AdminProjects() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-success">
-                {projects.filter(p => p.status === 'completed' || p.status === 'approved').length}
+                {(statusCounts.completed || 0) + (statusCounts.approved || 0)}
               </div>
             </CardContent>
           </Card>
@@ -234,7 +256,7 @@ export default function AdminProjects() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-destructive">
-                {projects.filter(p => p.status === 'cancelled').length}
+                {statusCounts.cancelled || 0}
               </div>
             </CardContent>
           </Card>
@@ -246,12 +268,24 @@ export default function AdminProjects() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Project Name</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Fee</TableHead>
-                  <TableHead>Deadline</TableHead>
-                  <TableHead>Created</TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("name")}>
+                    Project Name{sortIndicator("name")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("project_type")}>
+                    Type{sortIndicator("project_type")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("status")}>
+                    Status{sortIndicator("status")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("fee")}>
+                    Fee{sortIndicator("fee")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("deadline")}>
+                    Deadline{sortIndicator("deadline")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("created_at")}>
+                    Created{sortIndicator("created_at")}
+                  </TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -326,6 +360,13 @@ export default function AdminProjects() {
                 ))}
               </TableBody>
             </Table>
+            <LoadMore
+              loaded={filteredProjects.length}
+              total={total}
+              hasMore={hasMore}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+            />
           </CardContent>
         </Card>
       </div>
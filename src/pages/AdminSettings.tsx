@@ -9,8 +9,9 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
-import { Settings, CreditCard, ToggleLeft } from "lucide-react";
+import { Settings, CreditCard, ToggleLeft, KeyRound } from "lucide-react";
 import { toast } from "sonner";
+import { secrets } from "@/lib/secrets";
 
 export default function AdminSettings() {
   const navigate = useNavigate();
@@ -18,6 +19,8 @@ export default function AdminSettings() {
   const [appMode, setAppMode] = useState("free");
   const [razorpayKeyId, setRazorpayKeyId] = useState("");
   const [razorpayKeySecret, setRazorpayKeySecret] = useState("");
+  const [razorpaySecretStored, setRazorpaySecretStored] = useState(false);
+  const [rotating, setRotating] = useState(false);
 
   useEffect(() => {
     checkAdminAndLoad();
@@ -58,18 +61,10 @@ export default function AdminSettings() {
         setAppMode((modeData.value as any).mode);
       }
 
-      // Load Razorpay config
-      const { data: razorpayData } = await supabase
-        .from("app_settings" as any)
-        .select("value")
-        .eq("key", "razorpay_config")
-        .single();
-
-      if (razorpayData && "value" in razorpayData) {
-        const config = razorpayData.value as any;
-        setRazorpayKeyId(config.key_id || "");
-        setRazorpayKeySecret(config.key_secret || "");
-      }
+      // Load Razorpay config; the secret only comes back as "stored" or not
+      const razorpay = await secrets.get("razorpay_config");
+      setRazorpayKeyId((razorpay.value.key_id as string) || "");
+      setRazorpaySecretStored(razorpay.stored.includes("key_secret"));
     } catch (error) {
       console.error("Error loading settings:", error);
       toast.error("Failed to load settings");
@@ -99,17 +94,13 @@ export default function AdminSettings() {
 
   const saveRazorpayConfig = async () => {
     try {
-      const { error } = await supabase
-        .from("app_settings" as any)
-        .update({
-          value: {
-            key_id: razorpayKeyId,
-            key_secret: razorpayKeySecret
-          }
-        })
-        .eq("key", "razorpay_config");
+      await secrets.save("razorpay_config", {
+        key_id: razorpayKeyId,
+        key_secret: razorpayKeySecret
+      });
 
-      if (error) throw error;
+      if (razorpayKeySecret) setRazorpaySecretStored(true);
+      setRazorpayKeySecret("");
       toast.success("Razorpay configuration saved");
     } catch (error) {
       console.error("Error saving Razorpay config:", error);
@@ -117,6 +108,19 @@ export default function AdminSettings() {
     }
   };
 
+  const rotateSecrets = async () => {
+    setRotating(true);
+    try {
+      const rotated = await secrets.rotate();
+      toast.success(rotated > 0 ? `Re-encrypted ${rotated} stored credential set${rotated === 1 ? "" : "s"}` : "All secrets already use the current key");
+    } catch (error: any) {
+      console.error("Error rotating secrets:", error);
+      toast.error(error.message || "Failed to rotate secrets");
+    } finally {
+      setRotating(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -219,7 +223,7 @@ export default function AdminSettings() {
                     type="password"
                     value={razorpayKeySecret}
                     onChange={(e) => setRazorpayKeySecret(e.target.value)}
-                    placeholder="Enter secret key"
+                    placeholder={razorpaySecretStored ? "Stored encrypted. Leave blank to keep it" : "Enter secret key"}
                   />
                 </div>
 
@@ -241,6 +245,33 @@ export default function AdminSettings() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Secret Encryption */}
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  Credential Encryption
+                </CardTitle>
+                <CardDescription>
+                  Payment and database credentials are encrypted with a key held by the server
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-sm text-muted-foreground p-3 bg-muted rounded-lg">
+                  <p className="font-semibold mb-1">To rotate the encryption key:</p>
+                  <ol className="list-decimal list-inside space-y-1">
+                    <li>Move the current SECRETS_ENCRYPTION_KEY to SECRETS_ENCRYPTION_KEY_PREVIOUS</li>
+                    <li>Set a new 32 byte, base64 encoded SECRETS_ENCRYPTION_KEY</li>
+                    <li>Re-encrypt stored credentials below, then remove the previous key</li>
+                  </ol>
+                </div>
+
+                <Button variant="outline" className="w-full" onClick={rotateSecrets} disabled={rotating}>
+                  {rotating ? "Re-encrypting..." : "Re-encrypt With Current Key"}
+                </Button>
+              </CardContent>
+            </Card>
           </main>
         </div>
       </div>
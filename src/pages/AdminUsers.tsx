@@ -33,6 +33,11 @@ import {
   AlertDialogHeader, 
   AlertDialogTitle 
 } from "@/components/ui/alert-dialog";
+import { db, type Column, type OrderBy, type Where } from "@/lib/database-config";
+import { usePaginatedQuery, useDebouncedValue } from "@/hooks/use-paginated-query";
+import { LoadMore } from "@/components/LoadMore";
+
+const PAGE_SIZE = 50;
 
 interface UserProfile {
   id: string;
@@ -46,23 +51,79 @@ interface UserProfile {
 
 export default function AdminUsers() {
   const navigate = useNavigate();
-  const [users, setUsers] = useState<UserProfile[]>([]);
-  const [filteredUsers, setFilteredUsers] = useState<UserProfile[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [tierFilter, setTierFilter] = useState("all");
+  const [sortBy, setSortBy] = useState<OrderBy<Column<"profiles">>>({ column: "created_at", ascending: false });
+  const [stats, setStats] = useState({ total: 0, active: 0, editors: 0, agencies: 0 });
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const debouncedSearch = useDebouncedValue(searchTerm);
+
+  const where: Where<"profiles"> = {};
+  if (debouncedSearch) {
+    where.or = [
+      { email: { ilike: `%${debouncedSearch}%` } },
+      { full_name: { ilike: `%${debouncedSearch}%` } }
+    ];
+  }
+  if (categoryFilter !== "all") where.user_category = categoryFilter;
+  if (tierFilter !== "all") where.subscription_tier = tierFilter;
+
+  const {
+    rows: filteredUsers,
+    total,
+    initialLoading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    reload: loadUsers
+  } = usePaginatedQuery({
+    collection: "profiles",
+    where,
+    orderBy: sortBy,
+    pageSize: PAGE_SIZE
+  });
 
   useEffect(() => {
     checkAdminAuth();
-    loadUsers();
+    loadStats();
   }, []);
 
   useEffect(() => {
-    filterUsers();
-  }, [searchTerm, categoryFilter, tierFilter, users]);
+    if (error) {
+      console.error("Error loading users:", error);
+      toast.error("Failed to load users");
+    }
+  }, [error]);
+
+  const loadStats = async () => {
+    try {
+      const count = (where?: Where<"profiles">) =>
+        db.query({ collection: "profiles", operation: "count", where }) as Promise<number>;
+
+      const [total, active, editors, agencies] = await Promise.all([
+        count(),
+        count({ subscription_active: true }),
+        count({ user_category: "editor" }),
+        count({ user_category: "agency" })
+      ]);
+      setStats({ total, active, editors, agencies });
+    } catch (error) {
+      console.error("Error loading user stats:", error);
+    }
+  };
+
+  const handleSort = (column: Column<"profiles">) => {
+    setSortBy((prev) => ({
+      column,
+      ascending: prev.column === column ? !prev.ascending : true
+    }));
+  };
+
+  const sortIndicator = (column: string) =>
+    sortBy.column === column ? (sortBy.ascending ? " ↑" : " ↓") : "";
 
   const checkAdminAuth = async () => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -85,45 +146,6 @@ export default function AdminUsers() {
     }
   };
 
-  const loadUsers = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setUsers(data || []);
-      setFilteredUsers(data || []);
-    } catch (error) {
-      console.error("Error loading users:", error);
-      toast.error("Failed to load users");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filterUsers = () => {
-    let filtered = users;
-
-    if (searchTerm) {
-      filtered = filtered.filter(user =>
-        user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        user.full_name?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    if (categoryFilter !== "all") {
-      filtered = filtered.filter(user => user.user_category === categoryFilter);
-    }
-
-    if (tierFilter !== "all") {
-      filtered = filtered.filter(user => user.subscription_tier === tierFilter);
-    }
-
-    setFilteredUsers(filtered);
-  };
-
   const handleToggleSubscription = async (userId: string, currentStatus: boolean) => {
     try {
       const { error } = await supabase
@@ -135,6 +157,7 @@ export default function AdminUsers() {
 
       toast.success(`Subscription ${!currentStatus ? "activated" : "deactivated"}`);
       loadUsers();
+      loadStats();
 
       // Log admin action
       await logAdminAction("toggle_subscription", "profile", userId, {
@@ -156,6 +179,7 @@ export default function AdminUsers() {
 
       toast.success("User deleted successfully");
       loadUsers();
+      loadStats();
       setDeleteDialogOpen(false);
       setSelectedUserId(null);
 
@@ -180,7 +204,7 @@ export default function AdminUsers() {
     });
   };
 
-  if (loading) {
+  if (initialLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
@@ -252,7 +276,7 @@ export default function AdminUsers() {
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Users</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold">{users.length}</div>
+              <div className="text-3xl font-bold">{stats.total}</div>
             </CardContent>
           </Card>
 
@@ -262,7 +286,7 @@ export default function AdminUsers() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-success">
-                {users.filter(u => u.subscription_active).length}
+                {stats.active}
               </div>
             </CardContent>
           </Card>
@@ -273,7 +297,7 @@ export default function AdminUsers() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold">
-                {users.filter(u => u.user_category === 'editor').length}
+                {stats.editors}
               </div>
             </CardContent>
           </Card>
@@ -284,7 +308,7 @@ export default function AdminUsers() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold">
-                {users.filter(u => u.user_category === 'agency').length}
+                {stats.agencies}
               </div>
             </CardContent>
           </Card>
@@ -296,11 +320,19 @@ export default function AdminUsers() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>User</TableHead>
-                  <TableHead>Category</TableHead>
-                  <TableHead>Tier</TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("full_name")}>
+                    User{sortIndicator("full_name")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("user_category")}>
+                    Category{sortIndicator("user_category")}
+                  </TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("subscription_tier")}>
+                    Tier{sortIndicator("subscription_tier")}
+                  </TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Joined</TableHead>
+                  <TableHead className="cursor-pointer" onClick={() => handleSort("created_at")}>
+                    Joined{sortIndicator("created_at")}
+                  </TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -361,6 +393,13 @@ export default function AdminUsers() {
                 ))}
               </TableBody>
             </Table>
+            <LoadMore
+              loaded={filteredUsers.length}
+              total={total}
+              hasMore={hasMore}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+            />
           </CardContent>
         </Card>
       </div>
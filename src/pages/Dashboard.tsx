@@ -77,6 +77,8 @@ const Dashboard = () => {
   };
 
   const handleSignOut = async () => {
+    // Cached reads and unsent writes must not carry over to the next person on this browser
+    await db.offline.clear();
     await supabase.auth.signOut();
     navigate("/");
   };
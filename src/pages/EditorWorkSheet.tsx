@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
+import { db, type Where } from "@/lib/database-config";
 import { AppSidebar } from "@/components/AppSidebar";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -38,7 +38,8 @@ const EditorWorkSheet = () => {
   const navigate = useNavigate();
   const [editor, setEditor] = useState<Editor | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
-  const [filteredProjects, setFilteredProjects] = useState<Project[]>([]);
+  const [parentNames, setParentNames] = useState<Record<string, string>>({});
+  const [totals, setTotals] = useState({ total: 0, completed: 0, totalFee: 0 });
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState<string>("all");
   const [selectedYear, setSelectedYear] = useState<string>("all");
@@ -57,41 +58,91 @@ const EditorWorkSheet = () => {
   useEffect(() => {
     if (editorId) {
       fetchEditorData();
-      fetchProjects();
     }
   }, [editorId]);
 
   useEffect(() => {
-    filterProjects();
-  }, [projects, selectedMonth, selectedYear]);
+    if (editorId) {
+      fetchProjects();
+    }
+  }, [editorId, selectedMonth, selectedYear]);
 
   const fetchEditorData = async () => {
     try {
-      const { data, error } = await supabase
-        .from("editors")
-        .select("*")
-        .eq("id", editorId)
-        .single();
-
-      if (error) throw error;
-      setEditor(data);
+      const data = await db.query({
+        collection: "editors",
+        operation: "select",
+        where: { id: editorId },
+        limit: 1
+      });
+
+      if (!data?.length) throw new Error("Editor not found");
+      setEditor(data[0]);
     } catch (error: any) {
       toast.error("Failed to fetch editor data");
       console.error(error);
     }
   };
 
+  const getDateFilter = async (): Promise<Where<"projects"> | null> => {
+    if (selectedYear === "all") {
+      if (selectedMonth === "all") return null;
+
+      // A month without a year matches that month in every year since the editor's first project
+      const [first] = await db.query({
+        collection: "projects",
+        operation: "aggregate",
+        where: { editor_id: editorId },
+        aggregates: { since: { min: "created_at" } }
+      });
+      const firstYear = first?.since ? new Date(first.since).getFullYear() : currentYear;
+      const spanned = Array.from({ length: Math.max(currentYear - firstYear, 0) + 1 }, (_, i) => firstYear + i);
+      return {
+        or: spanned.map((year) => {
+          const start = new Date(year, Number(selectedMonth), 1);
+          return { created_at: { gte: start.toISOString(), lte: endOfMonth(start).toISOString() } };
+        })
+      };
+    }
+
+    const start = selectedMonth === "all"
+      ? new Date(Number(selectedYear), 0, 1)
+      : startOfMonth(new Date(Number(selectedYear), Number(selectedMonth), 1));
+    const end = selectedMonth === "all"
+      ? new Date(Number(selectedYear), 11, 31, 23, 59, 59, 999)
+      : endOfMonth(start);
+
+    return { created_at: { gte: start.toISOString(), lte: end.toISOString() } };
+  };
+
   const fetchProjects = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from("projects")
-        .select("*")
-        .eq("editor_id", editorId)
-        .order("created_at", { ascending: false });
+      const dateFilter = await getDateFilter();
+      const where: Where<"projects"> = { editor_id: editorId, ...(dateFilter && { and: [dateFilter] }) };
+      const [data, byStatus] = await Promise.all([
+        db.query({
+          collection: "projects",
+          operation: "select",
+          where,
+          orderBy: { column: "created_at", ascending: false }
+        }),
+        db.query({
+          collection: "projects",
+          operation: "aggregate",
+          where,
+          aggregates: { count: { count: "*" }, fees: { sum: "fee" } },
+          groupBy: ["status"]
+        })
+      ]);
 
-      if (error) throw error;
       setProjects(data || []);
+      setTotals({
+        total: byStatus.reduce((acc, row) => acc + row.count, 0),
+        completed: byStatus.find((row) => row.status === "completed")?.count || 0,
+        totalFee: byStatus.reduce((acc, row) => acc + (row.fees || 0), 0)
+      });
+      await fetchParentNames(data || []);
     } catch (error: any) {
       toast.error("Failed to fetch projects");
       console.error(error);
@@ -100,27 +151,27 @@ const EditorWorkSheet = () => {
     }
   };
 
-  const filterProjects = () => {
-    if (selectedMonth === "all" && selectedYear === "all") {
-      setFilteredProjects(projects);
+  // Parents may fall outside the selected date range, so look them up separately
+  const fetchParentNames = async (rows: Project[]) => {
+    const parentIds = [...new Set(rows.map(p => p.parent_project_id).filter(Boolean))];
+    if (parentIds.length === 0) {
+      setParentNames({});
       return;
     }
 
-    const filtered = projects.filter((project) => {
-      const projectDate = new Date(project.created_at);
-      const yearMatch = selectedYear !== "all" ? projectDate.getFullYear().toString() === selectedYear : true;
-      const monthMatch = selectedMonth !== "all" ? projectDate.getMonth().toString() === selectedMonth : true;
-      return yearMatch && monthMatch;
+    const parents = await db.query({
+      collection: "projects",
+      operation: "select",
+      select: "id, name",
+      where: { id: { in: parentIds } }
     });
 
-    setFilteredProjects(filtered);
+    setParentNames(Object.fromEntries((parents || []).map((p: { id: string; name: string }) => [p.id, p.name])));
   };
 
+  // Counts and fees come from the database; the completion time needs per-project dates
   const calculateMetrics = () => {
-    const total = filteredProjects.length;
-    const completed = filteredProjects.filter(p => p.status === "completed").length;
-    
-    const completedWithDates = filteredProjects.filter(p => 
+    const completedWithDates = projects.filter(p => 
       p.status === "completed" && p.assigned_date && p.updated_at
     );
     
@@ -131,9 +182,7 @@ const EditorWorkSheet = () => {
         }, 0) / completedWithDates.length
       : 0;
 
-    const totalFee = filteredProjects.reduce((acc, p) => acc + (p.fee || 0), 0);
-
-    return { total, completed, avgCompletionTime: Math.round(avgCompletionTime), totalFee };
+    return { ...totals, avgCompletionTime: Math.round(avgCompletionTime) };
   };
 
   const metrics = calculateMetrics();
@@ -150,8 +199,7 @@ const EditorWorkSheet = () => {
 
   const getParentProjectName = (parentId: string | null) => {
     if (!parentId) return null;
-    const parent = projects.find(p => p.id === parentId);
-    return parent?.name;
+    return parentNames[parentId];
   };
 
   return (
@@ -277,7 +325,7 @@ const EditorWorkSheet = () => {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filteredProjects.map((project) => {
+                      {projects.map((project) => {
                         const parentName = getParentProjectName(project.parent_project_id);
                         const displayName = parentName ? `${parentName}: ${project.name}` : project.name;
                         const completionDays = project.status === "completed" && project.assigned_date
@@ -300,7 +348,7 @@ const EditorWorkSheet = () => {
                           </TableRow>
                         );
                       })}
-                      {filteredProjects.length === 0 && (
+                      {projects.length === 0 && (
                         <TableRow>
                           <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                             No projects found
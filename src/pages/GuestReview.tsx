@@ -0,0 +1,406 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, Clock, Download, Lock, MessageSquare, Reply, Send, Video, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  UniversalVideoPlayer,
+  type RangeDraft,
+  type TimelineMarker
+} from "@/components/video-preview/UniversalVideoPlayer";
+import { GuestReviewError, openGuestReview, postGuestComment, type GuestReview as GuestReviewData } from "@/lib/review-links";
+import { DEFAULT_FRAME_RATE, formatTimecode, snapToFrame } from "@/lib/timecode";
+import { errorMessage } from "@/lib/utils";
+
+// Remembered across links so a returning guest isn't asked again
+const GUEST_NAME_KEY = "guest-review-name";
+
+const GuestReview = () => {
+  const { token } = useParams();
+  const passwordKey = `review-link-password-${token}`;
+  const [review, setReview] = useState<GuestReviewData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [linkError, setLinkError] = useState<GuestReviewError | null>(null);
+  const [password, setPassword] = useState(() => sessionStorage.getItem(passwordKey) || "");
+  const [passwordInput, setPasswordInput] = useState("");
+  const [guestName, setGuestName] = useState(() => localStorage.getItem(GUEST_NAME_KEY) || "");
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [nameInput, setNameInput] = useState("");
+  const [commentText, setCommentText] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [rangeDraft, setRangeDraft] = useState<RangeDraft | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const playerRef = useRef<{ seekTo?: (seconds: number) => void }>(null);
+
+  const frameRate = review?.version.frameRate || DEFAULT_FRAME_RATE;
+  const topLevel = (review?.feedback ?? [])
+    .filter((comment) => !comment.parentId)
+    .sort((a, b) => (a.timestamp ?? Infinity) - (b.timestamp ?? Infinity));
+
+  const markers: TimelineMarker[] = topLevel
+    .filter((comment) => comment.timestamp !== null)
+    .map((comment) => ({
+      id: comment.id,
+      start: comment.timestamp!,
+      end: comment.endTimestamp,
+      resolved: comment.resolved,
+      text: comment.text,
+      authorName: comment.author
+    }));
+
+  const loadReview = useCallback(async (withPassword: string) => {
+    if (!token) return;
+    try {
+      const data = await openGuestReview(token, withPassword || undefined);
+      setReview(data);
+      setLinkError(null);
+      if (withPassword) sessionStorage.setItem(passwordKey, withPassword);
+    } catch (error) {
+      if (error instanceof GuestReviewError) {
+        setLinkError(error);
+        if (error.passwordRequired) sessionStorage.removeItem(passwordKey);
+      } else {
+        console.error("Error opening review link:", error);
+        toast.error("Failed to open this review link");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [token, passwordKey]);
+
+  useEffect(() => {
+    loadReview(password);
+  }, [loadReview, password]);
+
+  const handleSubmitPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setPassword(passwordInput);
+  };
+
+  const handleSaveName = () => {
+    const name = nameInput.trim();
+    if (!name) return;
+    localStorage.setItem(GUEST_NAME_KEY, name);
+    setGuestName(name);
+    setNameDialogOpen(false);
+    submitComment(name);
+  };
+
+  const submitComment = async (name: string) => {
+    if (!token || !commentText.trim()) return;
+
+    const range = rangeDraft?.end != null ? rangeDraft : null;
+    const start = snapToFrame(range ? range.start : currentTime, frameRate);
+    const end = range ? snapToFrame(range.end!, frameRate) : undefined;
+
+    setSubmitting(true);
+    try {
+      await postGuestComment(token, password || undefined, {
+        guestName: name,
+        text: commentText.trim(),
+        ...(replyTo ? { parentId: replyTo } : { timestamp: start, endTimestamp: end })
+      });
+      setCommentText("");
+      setReplyTo(null);
+      setRangeDraft(null);
+      toast.success("Comment added");
+      loadReview(password);
+    } catch (error) {
+      console.error("Error adding guest comment:", error);
+      toast.error(errorMessage(error, "Failed to add comment"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmitComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!commentText.trim()) return;
+    if (!guestName) {
+      setNameInput("");
+      setNameDialogOpen(true);
+      return;
+    }
+    submitComment(guestName);
+  };
+
+  const handleSeek = (seconds: number) => playerRef.current?.seekTo?.(seconds);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!review) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-success/10 p-4">
+        <div className="w-full max-w-md">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-primary mb-4 shadow-glow">
+              <Video className="w-8 h-8 text-primary-foreground" />
+            </div>
+            <h1 className="text-3xl font-bold gradient-primary bg-clip-text text-transparent">
+              Xrozen Workflow
+            </h1>
+          </div>
+
+          <Card className="shadow-elegant">
+            {linkError?.passwordRequired ? (
+              <>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Lock className="w-5 h-5" />
+                    Password Required
+                  </CardTitle>
+                  <CardDescription>
+                    {linkError.status === 429
+                      ? linkError.message
+                      : password
+                        ? "That password is not right, please try again"
+                        : "Enter the password you were given to open this review"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleSubmitPassword} className="space-y-4">
+                    <Input
+                      type="password"
+                      placeholder="Password"
+                      value={passwordInput}
+                      onChange={(e) => setPasswordInput(e.target.value)}
+                      autoFocus
+                    />
+                    <Button type="submit" className="w-full" disabled={!passwordInput}>
+                      Open Review
+                    </Button>
+                  </form>
+                </CardContent>
+              </>
+            ) : (
+              <CardHeader>
+                <CardTitle>Review Link Unavailable</CardTitle>
+                <CardDescription>
+                  {linkError?.message || "This review link could not be opened"}. Ask the person who shared it for a new one.
+                </CardDescription>
+              </CardHeader>
+            )}
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-success/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="flex items-center justify-between px-6 py-4 gap-4">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-9 h-9 rounded-xl bg-primary">
+              <Video className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="font-bold leading-tight">{review.project.name}</h1>
+              <p className="text-xs text-muted-foreground">Guest review</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {review.downloadUrl && (
+              <Button asChild variant="outline" size="sm">
+                <a href={review.downloadUrl} target="_blank" rel="noopener noreferrer">
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            )}
+            <Badge variant="outline">Version {review.version.versionNumber}</Badge>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Card className="shadow-elegant">
+              <CardContent className="p-0">
+                {review.version.playbackUrl ? (
+                  <UniversalVideoPlayer
+                    ref={playerRef}
+                    url={review.version.playbackUrl}
+                    onTimeUpdate={setCurrentTime}
+                    frameRate={frameRate}
+                    markers={markers}
+                    onMarkerSelect={(marker) => handleSeek(marker.start)}
+                    rangeDraft={rangeDraft}
+                    onRangeDraftChange={setRangeDraft}
+                    poster={review.version.poster || undefined}
+                    scrubSprite={review.version.sprite}
+                  />
+                ) : (
+                  <div className="flex flex-col items-center justify-center gap-2 py-24 text-muted-foreground">
+                    <Video className="w-10 h-10" />
+                    <p className="text-sm">There is no preview of this version to play yet</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            {review.expiresAt && (
+              <p className="text-xs text-muted-foreground mt-2">
+                This link works until {new Date(review.expiresAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+
+          <div className="lg:col-span-1">
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="w-5 h-5" />
+                  Comments ({topLevel.length})
+                </CardTitle>
+                {guestName && (
+                  <CardDescription>
+                    Commenting as {guestName}{" "}
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => {
+                        setNameInput(guestName);
+                        setNameDialogOpen(true);
+                      }}
+                    >
+                      (change)
+                    </button>
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form onSubmit={handleSubmitComment} className="space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    {replyTo ? (
+                      <span className="flex items-center gap-1">
+                        <Reply className="w-3 h-3" />
+                        Replying to {topLevel.find((comment) => comment.id === replyTo)?.author}
+                        <button type="button" onClick={() => setReplyTo(null)} title="Cancel reply">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 font-mono">
+                        <Clock className="w-3 h-3" />
+                        {rangeDraft?.end != null
+                          ? `${formatTimecode(rangeDraft.start, frameRate)} - ${formatTimecode(rangeDraft.end, frameRate)}`
+                          : formatTimecode(currentTime, frameRate)}
+                      </span>
+                    )}
+                    {!replyTo && <span>I / O to mark a range</span>}
+                  </div>
+                  <Textarea
+                    placeholder="Add a comment at the current frame..."
+                    value={commentText}
+                    onChange={(e) => setCommentText(e.target.value)}
+                    rows={3}
+                  />
+                  <Button type="submit" className="w-full" disabled={!commentText.trim() || submitting}>
+                    <Send className="w-4 h-4 mr-2" />
+                    {submitting ? "Sending..." : "Send"}
+                  </Button>
+                </form>
+
+                <ScrollArea className="h-[480px] pr-3">
+                  <div className="space-y-3">
+                    {topLevel.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-8">No comments yet</p>
+                    )}
+                    {topLevel.map((comment) => (
+                      <div key={comment.id} className="rounded-lg border p-3 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium">{comment.author}</span>
+                          {comment.resolved && (
+                            <Badge className="bg-success">
+                              <CheckCircle className="w-3 h-3 mr-1" />
+                              Resolved
+                            </Badge>
+                          )}
+                        </div>
+                        {comment.timestamp !== null && (
+                          <button
+                            type="button"
+                            className="text-xs font-mono text-primary hover:underline"
+                            onClick={() => handleSeek(comment.timestamp!)}
+                          >
+                            {formatTimecode(comment.timestamp, frameRate)}
+                            {comment.endTimestamp !== null && ` - ${formatTimecode(comment.endTimestamp, frameRate)}`}
+                          </button>
+                        )}
+                        <p className="text-sm whitespace-pre-wrap break-words">{comment.text}</p>
+                        {review.feedback
+                          .filter((reply) => reply.parentId === comment.id)
+                          .map((reply) => (
+                            <div key={reply.id} className="ml-3 border-l pl-3">
+                              <span className="text-xs font-medium">{reply.author}</span>
+                              <p className="text-sm whitespace-pre-wrap break-words">{reply.text}</p>
+                            </div>
+                          ))}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setReplyTo(comment.id)}
+                        >
+                          <Reply className="w-3 h-3 mr-1" />
+                          Reply
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>What's your name?</DialogTitle>
+            <DialogDescription>Your comments are shown to the team under this name</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="guest_name">Name</Label>
+            <Input
+              id="guest_name"
+              value={nameInput}
+              maxLength={80}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveName()}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setNameDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveName} disabled={!nameInput.trim()}>
+              Continue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default GuestReview;
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { FileText, Plus, TrendingUp, DollarSign, Clock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { db } from "@/lib/database-config";
 import { toast } from "sonner";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
@@ -55,13 +56,13 @@ export default function Invoices() {
       } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from("invoices")
-        .select("*")
-        .eq("editor_id", user.id)
-        .order("created_at", { ascending: false });
+      const data = await db.query({
+        collection: "invoices",
+        operation: "select",
+        where: { editor_id: user.id },
+        orderBy: { column: "created_at", ascending: false }
+      });
 
-      if (error) throw error;
       // Type-cast to our Invoice type which includes all fields
       setInvoices((data as Invoice[]) || []);
     } catch (error) {
@@ -76,12 +77,11 @@ export default function Invoices() {
     if (!selectedInvoiceId) return;
 
     try {
-      const { error } = await supabase
-        .from("invoices")
-        .delete()
-        .eq("id", selectedInvoiceId);
-
-      if (error) throw error;
+      await db.query({
+        collection: "invoices",
+        operation: "delete",
+        where: { id: selectedInvoiceId }
+      });
 
       toast.success("Invoice deleted successfully");
       setInvoices(invoices.filter((inv) => inv.id !== selectedInvoiceId));
@@ -108,19 +108,22 @@ export default function Invoices() {
       if (!user) return;
 
       // Fetch projects for this invoice
-      const { data: projects, error } = await supabase
-        .from("projects")
-        .select("name, fee")
-        .eq("invoice_id", invoice.id);
-
-      if (error) throw error;
+      const projects = await db.query({
+        collection: "projects",
+        operation: "select",
+        select: "name, fee",
+        where: { invoice_id: invoice.id }
+      });
 
       // Fetch user profile for editor name
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("full_name")
-        .eq("id", user.id)
-        .single();
+      const profiles = await db.query({
+        collection: "profiles",
+        operation: "select",
+        select: "full_name",
+        where: { id: user.id },
+        limit: 1
+      });
+      const profile = profiles?.[0];
 
       await generateInvoicePDF(
         invoice, 
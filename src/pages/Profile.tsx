@@ -12,6 +12,7 @@ import { toast } from "sonner";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { db } from "@/lib/database-config";
+import type { Enums } from "@/integrations/supabase/types";
 
 const Profile = () => {
   const navigate = useNavigate();
@@ -98,8 +99,8 @@ const Profile = () => {
         where: { id: profile.id },
         data: {
           full_name: fullName,
-          user_category: userCategory,
-          subscription_tier: subscriptionTier
+          user_category: userCategory as Enums<"user_category">,
+          subscription_tier: subscriptionTier as Enums<"subscription_tier">
         }
       });
 
@@ -10,12 +10,16 @@ import { db } from "@/lib/database-config";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { VersionManagement } from "@/components/project-details/VersionManagement";
+import { FeedbackHistory } from "@/components/project-details/FeedbackHistory";
+import { ApprovalStagesCard } from "@/components/project-details/ApprovalStagesCard";
+import type { ApprovalStage } from "@/lib/approval-workflow";
 
 const ProjectDetails = () => {
   const navigate = useNavigate();
   const { projectId } = useParams();
   const [project, setProject] = useState<any>(null);
   const [versions, setVersions] = useState<any[]>([]);
+  const [approvalStages, setApprovalStages] = useState<ApprovalStage[]>([]);
   const [editor, setEditor] = useState<any>(null);
   const [client, setClient] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -116,6 +120,8 @@ const ProjectDetails = () => {
       }) as any[];
       
       setVersions(versionsData || []);
+
+      await loadApprovalStages();
     } catch (error: any) {
       console.error("Error loading project details:", error);
       toast.error("Failed to load project details");
@@ -124,6 +130,20 @@ const ProjectDetails = () => {
     }
   };
 
+  const loadApprovalStages = async () => {
+    try {
+      const stagesData = await db.query({
+        collection: 'approval_stages',
+        operation: 'select',
+        where: { project_id: projectId },
+        orderBy: { column: 'position', ascending: true }
+      });
+      setApprovalStages(stagesData || []);
+    } catch (error) {
+      console.error("Error loading approval stages:", error);
+    }
+  };
+
   const handleStatusUpdate = async (newStatus: string) => {
     try {
       await db.query({
@@ -172,6 +192,8 @@ const ProjectDetails = () => {
     return null;
   }
 
+  const memberIds: string[] = [...new Set([project.creator_id, editor?.user_id, client?.user_id].filter(Boolean))];
+
   return (
     <SidebarProvider>
       <div className="flex w-full min-h-screen">
@@ -319,6 +341,14 @@ const ProjectDetails = () => {
               </CardContent>
             </Card>
 
+            <ApprovalStagesCard
+              projectId={projectId!}
+              stages={approvalStages}
+              onStagesUpdate={loadApprovalStages}
+              canManage={project.creator_id === currentUserId}
+              memberIds={memberIds}
+            />
+
             {/* Version Management */}
             <VersionManagement
               projectId={projectId!}
@@ -326,7 +356,12 @@ const ProjectDetails = () => {
               onVersionsUpdate={loadProjectDetails}
               userRole={userRole}
               isProjectCreator={project?.creator_id === currentUserId}
+              currentUserId={currentUserId}
+              approvalStages={approvalStages}
+              memberIds={memberIds}
             />
+
+            <FeedbackHistory versions={versions} />
           </main>
         </div>
       </div>
@@ -1,54 +1,135 @@
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Video, Plus } from "lucide-react";
 import { toast } from "sonner";
-import { db } from "@/lib/database-config";
+import { db, type Column, type Row, type Where } from "@/lib/database-config";
+import { usePaginatedQuery, useDebouncedValue } from "@/hooks/use-paginated-query";
+import { LoadMore } from "@/components/LoadMore";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { ProjectsTable } from "@/components/projects/ProjectsTable";
 import { ProjectFormDialog } from "@/components/projects/ProjectFormDialog";
 import { ProjectSearch } from "@/components/projects/ProjectSearch";
 
+const PAGE_SIZE = 25;
+
+const searchClauses = (search: string): Where<"projects">[] => {
+  const pattern = `%${search}%`;
+  return [
+    { name: { ilike: pattern } },
+    { project_type: { ilike: pattern } },
+    { status: { ilike: pattern } },
+    { description: { ilike: pattern } }
+  ];
+};
+
 const Projects = () => {
   const navigate = useNavigate();
-  const [projects, setProjects] = useState<any[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [subProjects, setSubProjects] = useState<Row<"projects">[]>([]);
   const [editors, setEditors] = useState<any[]>([]);
   const [clients, setClients] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<any>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
   const [parentProjectId, setParentProjectId] = useState<string | null>(null);
+  // Projects with a sub-project that matches the search, which are listed along with direct matches
+  const [matchingParentIds, setMatchingParentIds] = useState<string[]>([]);
+  const debouncedSearch = useDebouncedValue(searchQuery);
+
+  // Only top-level projects are paged; their sub-projects are loaded alongside each page
+  const where: Where<"projects"> = { creator_id: userId, parent_project_id: null };
+  if (debouncedSearch) {
+    where.or = [
+      ...searchClauses(debouncedSearch),
+      ...(matchingParentIds.length ? [{ id: { in: matchingParentIds } }] : [])
+    ];
+  }
+
+  const {
+    rows: projects,
+    total,
+    initialLoading: loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+    reload: loadProjects
+  } = usePaginatedQuery(userId ? {
+    collection: 'projects',
+    where,
+    orderBy: sortConfig
+      ? { column: sortConfig.key as Column<'projects'>, ascending: sortConfig.direction === 'asc' }
+      : { column: 'created_at', ascending: false },
+    pageSize: PAGE_SIZE
+  } : null);
 
   useEffect(() => {
-    loadProjects();
+    loadSession();
     loadEditors();
     loadClients();
   }, []);
 
-  const loadProjects = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
+  useEffect(() => {
+    if (error) toast.error("Failed to load projects");
+  }, [error]);
 
-      const projectsData = await db.query({
+  useEffect(() => {
+    loadSubProjects();
+  }, [projects]);
+
+  useEffect(() => {
+    loadMatchingParents();
+  }, [userId, debouncedSearch]);
+
+  const loadSession = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+    setUserId(session.user.id);
+  };
+
+  const loadSubProjects = async () => {
+    if (projects.length === 0) {
+      setSubProjects([]);
+      return;
+    }
+
+    try {
+      const data = await db.query({
         collection: 'projects',
         operation: 'select',
-        where: { creator_id: session.user.id },
-        orderBy: { column: 'created_at', ascending: false }
-      }) as any[];
+        where: { parent_project_id: { in: projects.map((p) => p.id) } },
+        orderBy: { column: 'created_at', ascending: true }
+      });
+      setSubProjects(data || []);
+    } catch (error) {
+      console.error("Error loading sub-projects:", error);
+    }
+  };
 
-      setProjects(projectsData || []);
-    } catch (error: any) {
-      toast.error("Failed to load projects");
-    } finally {
-      setLoading(false);
+  const loadMatchingParents = async () => {
+    if (!userId || !debouncedSearch) {
+      setMatchingParentIds([]);
+      return;
+    }
+
+    try {
+      const matches = await db.query({
+        collection: 'projects',
+        operation: 'select',
+        select: 'parent_project_id',
+        where: { creator_id: userId, parent_project_id: { neq: null }, or: searchClauses(debouncedSearch) }
+      });
+      setMatchingParentIds([...new Set((matches || []).map((match) => match.parent_project_id as string))]);
+    } catch (error) {
+      console.error("Error searching sub-projects:", error);
+      setMatchingParentIds([]);
     }
   };
 
@@ -132,7 +213,8 @@ const Projects = () => {
         where: { id: projectId },
       });
 
-      setProjects(projects.filter(p => p.id !== projectId));
+      setSubProjects(subProjects.filter(p => p.id !== projectId));
+      loadProjects();
       toast.success("Project deleted successfully");
     } catch (error) {
       console.error("Error deleting project:", error);
@@ -156,35 +238,6 @@ const Projects = () => {
     setSortConfig({ key, direction });
   };
 
-  const filteredAndSortedProjects = useMemo(() => {
-    let filtered = projects;
-
-    // Filter by search query
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(project =>
-        project.name.toLowerCase().includes(query) ||
-        project.project_type?.toLowerCase().includes(query) ||
-        project.status.toLowerCase().includes(query) ||
-        project.description?.toLowerCase().includes(query)
-      );
-    }
-
-    // Sort
-    if (sortConfig) {
-      filtered = [...filtered].sort((a, b) => {
-        const aValue = a[sortConfig.key] || '';
-        const bValue = b[sortConfig.key] || '';
-        
-        if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
-        if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
-
-    return filtered;
-  }, [projects, searchQuery, sortConfig]);
-
   const handleProjectClick = (projectId: string) => {
     navigate(`/projects/${projectId}`);
   };
@@ -215,7 +268,7 @@ const Projects = () => {
               </div>
               
               <div className="flex items-center gap-4">
-                <ProjectSearch onSearch={setSearchQuery} />
+                <ProjectSearch value={searchQuery} onChange={setSearchQuery} />
                 <Button className="gradient-primary" onClick={() => setDialogOpen(true)}>
                   <Plus className="w-4 h-4 mr-2" />
                   New Project
@@ -233,7 +286,7 @@ const Projects = () => {
             </div>
 
             <ProjectsTable
-              projects={filteredAndSortedProjects}
+              projects={[...projects, ...subProjects]}
               onEdit={handleEdit}
               onDelete={handleDelete}
               onAddSubProject={handleAddSubProject}
@@ -241,6 +294,13 @@ const Projects = () => {
               sortConfig={sortConfig}
               onSort={handleSort}
             />
+            <LoadMore
+              loaded={projects.length}
+              total={total}
+              hasMore={hasMore}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+            />
 
             <ProjectFormDialog
               open={dialogOpen}
@@ -0,0 +1,374 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { db, type Row } from "@/lib/database-config";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ArrowLeft, Columns2, SplitSquareHorizontal, Contrast, Play, Pause, Volume2 } from "lucide-react";
+import { toast } from "sonner";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { UniversalVideoPlayer } from "@/components/video-preview/UniversalVideoPlayer";
+import { usePlaybackUrl } from "@/hooks/use-playback-url";
+import { isNativeVideo } from "@/lib/video-platform";
+import { DEFAULT_FRAME_RATE, formatTimecode } from "@/lib/timecode";
+
+type CompareMode = "side-by-side" | "wipe" | "difference";
+
+/** The UniversalVideoPlayer controls the compare view drives */
+interface ComparePlayer {
+  play?: () => void;
+  pause?: () => void;
+  seekTo?: (seconds: number) => void;
+  getCurrentTime?: () => number;
+  isPaused?: () => boolean;
+  setMuted?: (muted: boolean) => void;
+}
+
+const VersionCompare = () => {
+  const { projectId } = useParams();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [project, setProject] = useState<Row<"projects"> | null>(null);
+  const [versions, setVersions] = useState<Row<"video_versions">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedMode, setMode] = useState<CompareMode>("side-by-side");
+  const [wipe, setWipe] = useState(50);
+  const [wiping, setWiping] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [durations, setDurations] = useState<{ a: number; b: number }>({ a: 0, b: 0 });
+  const [audio, setAudio] = useState<"a" | "b">("b");
+  const playerA = useRef<ComparePlayer>(null);
+  const playerB = useRef<ComparePlayer>(null);
+
+  const versionA = versions.find((version) => version.id === searchParams.get("a"));
+  const versionB = versions.find((version) => version.id === searchParams.get("b"));
+  const { url: urlA } = usePlaybackUrl(versionA ? versionA.preview_url || versionA.final_url : "");
+  const { url: urlB } = usePlaybackUrl(versionB ? versionB.preview_url || versionB.final_url : "");
+  // Wipe and difference composite the two frames, which only works with our own <video> elements
+  const canComposite = isNativeVideo(urlA) && isNativeVideo(urlB);
+  const mode = canComposite ? selectedMode : "side-by-side";
+  const duration = Math.max(durations.a, durations.b);
+  const frameRateA = Number(versionA?.frame_rate) || DEFAULT_FRAME_RATE;
+  const frameRateB = Number(versionB?.frame_rate) || DEFAULT_FRAME_RATE;
+
+  useEffect(() => {
+    loadVersions();
+  }, [projectId]);
+
+  // Start over whenever a different pair is picked
+  useEffect(() => {
+    setPlaying(false);
+    setCurrentTime(0);
+    setDurations({ a: 0, b: 0 });
+  }, [versionA?.id, versionB?.id]);
+
+  // Only one version is heard at a time
+  useEffect(() => {
+    playerA.current?.setMuted?.(audio !== "a");
+    playerB.current?.setMuted?.(audio !== "b");
+  }, [audio, durations]);
+
+  // A leads; B is pulled back whenever it drifts. Embedded players only report their
+  // time about once a second, so they get a looser tolerance.
+  useEffect(() => {
+    if (!playing) return;
+
+    const tolerance = canComposite ? 0.1 : 1;
+    const interval = setInterval(() => {
+      const time = playerA.current?.getCurrentTime?.() ?? 0;
+      const other = playerB.current?.getCurrentTime?.() ?? 0;
+      if (Math.abs(time - other) > tolerance) playerB.current?.seekTo?.(time);
+
+      if (duration > 0 && time >= duration - 0.05 && playerA.current?.isPaused?.()) {
+        setPlaying(false);
+      }
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [playing, canComposite, duration]);
+
+  const loadVersions = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const projectData = await db.query({
+        collection: 'projects',
+        operation: 'select',
+        where: { id: projectId }
+      });
+
+      if (!projectData || projectData.length === 0) {
+        toast.error("Project not found");
+        navigate("/projects");
+        return;
+      }
+      setProject(projectData[0]);
+
+      const versionsData = await db.query({
+        collection: 'video_versions',
+        operation: 'select',
+        where: { project_id: projectId },
+        orderBy: { column: 'version_number', ascending: true }
+      });
+      setVersions(versionsData || []);
+
+      // Default to the latest version against the one before it
+      if ((!searchParams.get("a") || !searchParams.get("b")) && versionsData?.length >= 2) {
+        setSearchParams(
+          {
+            a: versionsData[versionsData.length - 2].id,
+            b: versionsData[versionsData.length - 1].id
+          },
+          { replace: true }
+        );
+      }
+    } catch (error) {
+      console.error("Error loading versions:", error);
+      toast.error("Failed to load versions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectVersion = (side: "a" | "b", versionId: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(side, versionId);
+    setSearchParams(next, { replace: true });
+  };
+
+  const handlePlayPause = () => {
+    if (playing) {
+      playerA.current?.pause?.();
+      playerB.current?.pause?.();
+      // Line both up on the same frame when stopping
+      playerB.current?.seekTo?.(playerA.current?.getCurrentTime?.() ?? currentTime);
+    } else {
+      playerB.current?.seekTo?.(playerA.current?.getCurrentTime?.() ?? currentTime);
+      playerA.current?.play?.();
+      playerB.current?.play?.();
+    }
+    setPlaying(!playing);
+  };
+
+  const handleSeek = (value: number[]) => {
+    playerA.current?.seekTo?.(value[0]);
+    playerB.current?.seekTo?.(value[0]);
+    setCurrentTime(value[0]);
+  };
+
+  const updateWipe = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setWipe(Math.min(100, Math.max(0, ((event.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return null;
+  }
+
+  const overlay = mode !== "side-by-side";
+
+  return (
+    <SidebarProvider>
+      <div className="flex w-full min-h-screen">
+        <AppSidebar />
+        <div className="flex-1 bg-gradient-to-br from-background via-primary/5 to-success/5">
+          <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+            <div className="flex items-center justify-between px-6 py-4 gap-4">
+              <div className="flex items-center gap-4">
+                <SidebarTrigger />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate(`/projects/${project.id}`)}
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Project
+                </Button>
+              </div>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={mode}
+                onValueChange={(value) => value && setMode(value as CompareMode)}
+              >
+                <ToggleGroupItem value="side-by-side" title="Side by side">
+                  <Columns2 className="w-4 h-4" />
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="wipe"
+                  disabled={!canComposite}
+                  title={canComposite ? "Wipe" : "Wipe needs both versions to be direct video files"}
+                >
+                  <SplitSquareHorizontal className="w-4 h-4" />
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="difference"
+                  disabled={!canComposite}
+                  title={canComposite ? "Difference" : "Difference needs both versions to be direct video files"}
+                >
+                  <Contrast className="w-4 h-4" />
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          </header>
+
+          <main className="px-8 py-8">
+            <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold mb-2">{project.name}</h1>
+                <p className="text-muted-foreground">Compare versions</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={versionA?.id} onValueChange={(value) => selectVersion("a", value)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder="Version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id} disabled={version.id === versionB?.id}>
+                        v{version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">vs</span>
+                <Select value={versionB?.id} onValueChange={(value) => selectVersion("b", value)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder="Version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id} disabled={version.id === versionA?.id}>
+                        v{version.version_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!versionA || !versionB ? (
+              <Card className="shadow-elegant">
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  {versions.length < 2
+                    ? "This project needs at least two versions to compare"
+                    : "Pick two versions to compare"}
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="shadow-elegant overflow-hidden">
+                <CardContent className="p-0">
+                  {/* The players stay mounted across modes so switching keeps the playhead */}
+                  <div className={overlay ? "relative bg-black" : "grid grid-cols-1 md:grid-cols-2 gap-px bg-border"}>
+                    <div className="bg-black">
+                      {!overlay && (
+                        <Badge variant="outline" className="m-2 bg-background">v{versionA.version_number}</Badge>
+                      )}
+                      <UniversalVideoPlayer
+                        ref={playerA}
+                        url={urlA}
+                        frameRate={frameRateA}
+                        showControls={false}
+                        onTimeUpdate={setCurrentTime}
+                        onDurationChange={(value) => setDurations((current) => ({ ...current, a: value }))}
+                      />
+                    </div>
+                    <div
+                      className={overlay ? "absolute inset-0" : "bg-black"}
+                      style={
+                        mode === "wipe"
+                          ? { clipPath: `inset(0 0 0 ${wipe}%)` }
+                          : mode === "difference"
+                            ? { mixBlendMode: "difference" }
+                            : undefined
+                      }
+                    >
+                      {!overlay && (
+                        <Badge variant="outline" className="m-2 bg-background">v{versionB.version_number}</Badge>
+                      )}
+                      <UniversalVideoPlayer
+                        ref={playerB}
+                        url={urlB}
+                        frameRate={frameRateB}
+                        showControls={false}
+                        onDurationChange={(value) => setDurations((current) => ({ ...current, b: value }))}
+                      />
+                    </div>
+
+                    {mode === "wipe" && (
+                      <div
+                        className="absolute inset-0 cursor-ew-resize touch-none"
+                        onPointerDown={(e) => {
+                          e.currentTarget.setPointerCapture(e.pointerId);
+                          setWiping(true);
+                          updateWipe(e);
+                        }}
+                        onPointerMove={(e) => wiping && updateWipe(e)}
+                        onPointerUp={() => setWiping(false)}
+                      >
+                        <div className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow" style={{ left: `${wipe}%` }} />
+                        <Badge variant="outline" className="absolute left-2 top-2 bg-background">v{versionA.version_number}</Badge>
+                        <Badge variant="outline" className="absolute right-2 top-2 bg-background">v{versionB.version_number}</Badge>
+                      </div>
+                    )}
+
+                    {mode === "difference" && (
+                      <Badge variant="outline" className="absolute left-2 top-2 bg-background">
+                        v{versionA.version_number} − v{versionB.version_number} (unchanged areas are black)
+                      </Badge>
+                    )}
+                  </div>
+
+                  {/* Shared transport */}
+                  <div className="flex items-center gap-3 border-t p-3">
+                    <Button size="sm" variant="ghost" onClick={handlePlayPause}>
+                      {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                    {duration > 0 ? (
+                      <Slider value={[currentTime]} max={duration} step={0.1} onValueChange={handleSeek} className="flex-1" />
+                    ) : (
+                      <div className="flex-1" />
+                    )}
+                    <span className="text-sm text-muted-foreground font-mono tabular-nums">
+                      {formatTimecode(currentTime, frameRateA)} / {formatTimecode(duration, frameRateA)}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Switch which version is heard"
+                      onClick={() => setAudio(audio === "a" ? "b" : "a")}
+                    >
+                      <Volume2 className="w-4 h-4 mr-1" />
+                      v{(audio === "a" ? versionA : versionB).version_number}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default VersionCompare;
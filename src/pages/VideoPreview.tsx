@@ -1,27 +1,122 @@
 import { useEffect, useState, useRef } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { db } from "@/lib/database-config";
+import { db, type Row } from "@/lib/database-config";
+import { errorMessage } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, MessageSquare, Clock, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
-import { UniversalVideoPlayer } from "@/components/video-preview/UniversalVideoPlayer";
+import {
+  UniversalVideoPlayer,
+  type RangeDraft,
+  type TimeRange,
+  type TimelineMarker
+} from "@/components/video-preview/UniversalVideoPlayer";
+import { extractMentions, type ProjectMember } from "@/lib/mentions";
+import type { ResolutionAction } from "@/components/video-preview/FeedbackThread";
+import { isOnFrame, type AnnotationDraft, type TimedAnnotation } from "@/lib/annotations";
+import { DEFAULT_FRAME_RATE, formatFrameRate, snapToFrame } from "@/lib/timecode";
+import { ImageReviewer, type ImagePin, type PinDraft } from "@/components/video-preview/ImageReviewer";
+import { AudioReviewer } from "@/components/video-preview/AudioReviewer";
 import { FeedbackComments } from "@/components/video-preview/FeedbackComments";
+import { FeedbackExportMenu } from "@/components/video-preview/FeedbackExportMenu";
+import type { ImportedMarker, ReviewMarker } from "@/lib/nle-markers";
+import { usePlaybackUrl } from "@/hooks/use-playback-url";
+import { parseVersionMedia } from "@/lib/version-media";
+import { detectMediaKind } from "@/lib/video-platform";
+import { feedbackAuthorName } from "@/lib/review-links";
 import { Badge } from "@/components/ui/badge";
 
 const VideoPreview = () => {
   const { versionId } = useParams();
   const navigate = useNavigate();
+  // ?feedback=<id> opens the page at that comment, e.g. from the task board
+  const [searchParams] = useSearchParams();
+  const linkedFeedbackId = searchParams.get("feedback");
+  const openedLink = useRef<string | null>(null);
   const [version, setVersion] = useState<any>(null);
   const [project, setProject] = useState<any>(null);
   const [feedback, setFeedback] = useState<any[]>([]);
+  const [authors, setAuthors] = useState<Record<string, { full_name: string | null; avatar_url: string | null; email: string }>>({});
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [carriedFromVersions, setCarriedFromVersions] = useState<Record<string, number>>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentTime, setCurrentTime] = useState(0);
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null);
+  const [rangeDraft, setRangeDraft] = useState<RangeDraft | null>(null);
+  const [loopRange, setLoopRange] = useState<TimeRange | null>(null);
+  const [pinDraft, setPinDraft] = useState<PinDraft | null>(null);
+  const [selectedPinId, setSelectedPinId] = useState<string | null>(null);
   const playerRef = useRef<any>(null);
 
+  const frameRate = Number(version?.frame_rate) || DEFAULT_FRAME_RATE;
+  // Stills are reviewed with pins and audio on a waveform; everything else plays as video
+  const mediaKind = detectMediaKind(version?.preview_url || version?.final_url);
+  // Uploaded files play through signed URLs that expire, so they're resolved here rather than stored
+  const playback = usePlaybackUrl(version?.preview_url || version?.final_url);
+  const finalLink = usePlaybackUrl(version?.final_url);
+  // Thumbnails are made from the preview file, so they only apply while it is what plays
+  const media = version?.preview_url ? parseVersionMedia(version.media) : null;
+  const poster = usePlaybackUrl(media?.poster);
+  const sprite = usePlaybackUrl(media?.sprite?.url);
+
+  // Replies live in the thread of their parent; only top-level comments sit on the timeline
+  const topLevel = feedback.filter((item) => !item.parent_id);
+
+  const authorNames: Record<string, string> = {
+    ...Object.fromEntries(members.map((member) => [member.userId, member.name])),
+    ...Object.fromEntries(
+      Object.entries(authors).map(([id, profile]) => [id, profile.full_name || profile.email])
+    )
+  };
+
+  const annotations: TimedAnnotation[] = topLevel
+    .filter((item) => item.annotations?.length && item.timestamp_seconds !== null)
+    .map((item) => ({ id: item.id, timestamp: Number(item.timestamp_seconds), shapes: item.annotations }));
+
+  const markers: TimelineMarker[] = topLevel
+    .filter((item) => item.timestamp_seconds !== null)
+    .map((item) => ({
+      id: item.id,
+      start: Number(item.timestamp_seconds),
+      end: item.end_seconds !== null && item.end_seconds !== undefined ? Number(item.end_seconds) : null,
+      resolved: item.is_resolved,
+      text: item.comment_text,
+      authorName: feedbackAuthorName(item, authorNames),
+      avatarUrl: item.user_id ? authors[item.user_id]?.avatar_url : null
+    }));
+
+  // Pins are numbered in the order they were left
+  const pins: ImagePin[] = topLevel
+    .filter((item) => item.pin_x !== null && item.pin_x !== undefined)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map((item, index) => ({
+      id: item.id,
+      x: Number(item.pin_x),
+      y: Number(item.pin_y),
+      number: index + 1,
+      resolved: item.is_resolved,
+      text: item.comment_text,
+      authorName: feedbackAuthorName(item, authorNames)
+    }));
+  const pinNumbers = Object.fromEntries(pins.map((pin) => [pin.id, pin.number]));
+
+  const reviewMarkers: ReviewMarker[] = topLevel
+    .filter((item) => item.timestamp_seconds !== null)
+    .map((item) => ({
+      start: Number(item.timestamp_seconds),
+      end: item.end_seconds !== null && item.end_seconds !== undefined ? Number(item.end_seconds) : null,
+      text: item.comment_text,
+      author: feedbackAuthorName(item, authorNames),
+      status: item.is_resolved ? 'resolved' : item.resolved_by ? 'awaiting' : 'open',
+      replies: feedback.filter((reply) => reply.parent_id === item.id).length,
+      createdAt: item.created_at
+    }));
+
   useEffect(() => {
     loadVersionData();
     subscribeToFeedback();
@@ -34,6 +129,7 @@ const VideoPreview = () => {
         navigate("/auth");
         return;
       }
+      setCurrentUserId(session.user.id);
 
       // Load version
       const versionData = await db.query({
@@ -59,6 +155,7 @@ const VideoPreview = () => {
 
       if (projectData && projectData.length > 0) {
         setProject(projectData[0]);
+        loadMembers(projectData[0]);
       }
 
       // Load feedback
@@ -81,11 +178,96 @@ const VideoPreview = () => {
       }) as any[];
 
       setFeedback(feedbackData || []);
+
+      // Authors for the timeline markers
+      const authorIds = [...new Set((feedbackData || []).map((item) => item.user_id).filter(Boolean))];
+      if (authorIds.length > 0) {
+        const profiles = await db.query({
+          collection: 'profiles',
+          operation: 'select',
+          select: 'id, full_name, avatar_url, email',
+          where: { id: { in: authorIds } }
+        });
+        setAuthors(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile])));
+      }
+
+      // Which version each carried-over comment came from
+      const sourceIds = [...new Set((feedbackData || []).map((item) => item.carried_from_id).filter(Boolean))];
+      if (sourceIds.length > 0) {
+        const sources = await db.query({
+          collection: 'video_feedback',
+          operation: 'select',
+          select: 'id, version_id',
+          where: { id: { in: sourceIds } }
+        });
+        const sourceVersions = await db.query({
+          collection: 'video_versions',
+          operation: 'select',
+          select: 'id, version_number',
+          where: { id: { in: [...new Set((sources || []).map((source) => source.version_id))] } }
+        });
+        const numbers = Object.fromEntries((sourceVersions || []).map((row) => [row.id, row.version_number]));
+        const sourceVersionById = Object.fromEntries((sources || []).map((source) => [source.id, numbers[source.version_id]]));
+        setCarriedFromVersions(
+          Object.fromEntries(
+            (feedbackData || [])
+              .filter((item) => item.carried_from_id && sourceVersionById[item.carried_from_id])
+              .map((item) => [item.id, sourceVersionById[item.carried_from_id]])
+          )
+        );
+      }
     } catch (error) {
       console.error("Error loading feedback:", error);
     }
   };
 
+  // Creator, assigned editor and clients of the project, for @mentions
+  const loadMembers = async (projectRow: Pick<Row<'projects'>, 'id' | 'client_id' | 'creator_id' | 'editor_id'>) => {
+    try {
+      const projectClients = await db.query({
+        collection: 'project_clients',
+        operation: 'select',
+        select: 'client_id',
+        where: { project_id: projectRow.id }
+      });
+      const clientIds = [projectRow.client_id, ...(projectClients || []).map((row) => row.client_id)].filter(Boolean);
+
+      const [creators, editors, clients] = await Promise.all([
+        db.query({
+          collection: 'profiles',
+          operation: 'select',
+          select: 'id, full_name, email',
+          where: { id: projectRow.creator_id }
+        }),
+        projectRow.editor_id
+          ? db.query({
+              collection: 'editors',
+              operation: 'select',
+              select: 'user_id, full_name',
+              where: { id: projectRow.editor_id }
+            })
+          : Promise.resolve([]),
+        clientIds.length
+          ? db.query({
+              collection: 'clients',
+              operation: 'select',
+              select: 'user_id, full_name',
+              where: { id: { in: clientIds } }
+            })
+          : Promise.resolve([])
+      ]);
+
+      const found: ProjectMember[] = [
+        ...(creators || []).map((profile) => ({ userId: profile.id, name: profile.full_name || profile.email, role: 'creator' as const })),
+        ...(editors || []).filter((editor) => editor.user_id).map((editor) => ({ userId: editor.user_id!, name: editor.full_name, role: 'editor' as const })),
+        ...(clients || []).filter((client) => client.user_id).map((client) => ({ userId: client.user_id!, name: client.full_name, role: 'client' as const }))
+      ];
+      setMembers(found.filter((member, index) => found.findIndex((other) => other.userId === member.userId) === index));
+    } catch (error) {
+      console.error("Error loading project members:", error);
+    }
+  };
+
   const subscribeToFeedback = () => {
     if (!versionId) return;
     
@@ -110,11 +292,39 @@ const VideoPreview = () => {
     };
   };
 
-  const handleAddFeedback = async (commentText: string, timestamp?: number) => {
+  const handleAddFeedback = async (commentText: string, timestamp?: number, endTimestamp?: number) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      if (mediaKind === 'image') {
+        await db.query({
+          collection: 'video_feedback',
+          operation: 'insert',
+          data: {
+            version_id: versionId,
+            user_id: user.id,
+            comment_text: commentText,
+            timestamp_seconds: null,
+            pin_x: pinDraft?.x ?? null,
+            pin_y: pinDraft?.y ?? null,
+            mentions: extractMentions(commentText, members)
+          }
+        });
+
+        setPinDraft(null);
+        toast.success("Feedback added");
+        loadFeedback();
+        return;
+      }
+
+      // A drawing belongs to the exact frame it was made on, whatever the comment box says.
+      // Times are stored at the start of their frame; audio has no frames and keeps the exact time.
+      const drawing = annotationDraft?.shapes.length ? annotationDraft : null;
+      const snap = (seconds: number) => (mediaKind === 'audio' ? seconds : snapToFrame(seconds, frameRate));
+      const start = snap(drawing ? drawing.timestamp : timestamp !== undefined ? timestamp : currentTime);
+      const end = endTimestamp !== undefined ? snap(endTimestamp) : undefined;
+
       await db.query({
         collection: 'video_feedback',
         operation: 'insert',
@@ -122,10 +332,15 @@ const VideoPreview = () => {
           version_id: versionId,
           user_id: user.id,
           comment_text: commentText,
-          timestamp_seconds: timestamp !== undefined ? timestamp : currentTime
+          timestamp_seconds: start,
+          end_seconds: end !== undefined && end > start ? end : null,
+          annotations: drawing ? drawing.shapes : null,
+          mentions: extractMentions(commentText, members)
         }
       });
 
+      setAnnotationDraft(null);
+      setRangeDraft(null);
       toast.success("Feedback added");
       loadFeedback();
     } catch (error) {
@@ -134,26 +349,155 @@ const VideoPreview = () => {
     }
   };
 
+  // Markers from the editor's NLE become comments at the same frames
+  // Keyed to the millisecond, as numeric columns don't round-trip floats exactly
+  const markerKey = (start: number, end: number | null, text: string) =>
+    JSON.stringify([Math.round(start * 1000), end === null ? null : Math.round(end * 1000), text.trim()]);
+
+  const handleImportMarkers = async (imported: ImportedMarker[]) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Please sign in again to import markers");
+
+    // Importing the same file again only adds the markers that aren't comments yet
+    const existing = await db.query({
+      collection: 'video_feedback',
+      operation: 'select',
+      select: 'timestamp_seconds, end_seconds, comment_text',
+      where: { version_id: versionId }
+    });
+    const seen = new Set(
+      (existing || [])
+        .filter((item) => item.timestamp_seconds !== null)
+        .map((item) =>
+          markerKey(Number(item.timestamp_seconds), item.end_seconds === null ? null : Number(item.end_seconds), item.comment_text)
+        )
+    );
+
+    const comments = imported
+      .map((marker) => {
+        const start = snapToFrame(marker.start, frameRate);
+        const end = marker.end !== null ? snapToFrame(marker.end, frameRate) : null;
+        return { start, end: end !== null && end > start ? end : null, text: marker.text };
+      })
+      .filter(({ start, end, text }) => {
+        const key = markerKey(start, end, text);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    const skipped = imported.length - comments.length;
+
+    if (comments.length === 0) {
+      toast.info("These markers are already comments on this version");
+      return;
+    }
+
+    // All or nothing, so a failed import can simply be retried
+    try {
+      await db.transaction((tx) => {
+        comments.forEach(({ start, end, text }) => {
+          tx.insert('video_feedback', {
+            version_id: versionId,
+            user_id: user.id,
+            comment_text: text,
+            timestamp_seconds: start,
+            end_seconds: end,
+            mentions: extractMentions(text, members)
+          });
+        });
+      });
+    } catch (error) {
+      throw new Error(`None of the ${comments.length} markers were imported: ${errorMessage(error, "the server rejected them")}`);
+    }
+
+    toast.success(
+      `Imported ${comments.length} comment${comments.length === 1 ? "" : "s"}` +
+        (skipped ? `, skipped ${skipped} already on this version` : "")
+    );
+    loadFeedback();
+  };
+
   const handleSeekToTimestamp = (seconds: number) => {
     if (playerRef.current && playerRef.current.seekTo) {
+      setLoopRange(null);
+      // Stay on the frame so its drawing can be seen
+      if (annotations.some((annotation) => isOnFrame(seconds, annotation.timestamp, frameRate))) {
+        playerRef.current.pause?.();
+      }
       playerRef.current.seekTo(seconds);
     }
   };
 
-  const handleResolveFeedback = async (feedbackId: string, resolved: boolean) => {
+  useEffect(() => {
+    if (!linkedFeedbackId || openedLink.current === linkedFeedbackId || !playback.url) return;
+    const item = feedback.find((entry) => entry.id === linkedFeedbackId);
+    if (!item) return;
+
+    openedLink.current = linkedFeedbackId;
+    if (item.pin_x !== null && item.pin_x !== undefined) {
+      setSelectedPinId(item.id);
+    } else if (item.timestamp_seconds !== null) {
+      handleSeekToTimestamp(Number(item.timestamp_seconds));
+    }
+  }, [linkedFeedbackId, feedback, playback.url]);
+
+  const handleReply = async (parentId: string, commentText: string) => {
     try {
       await db.query({
         collection: 'video_feedback',
-        operation: 'update',
-        where: { id: feedbackId },
-        data: { is_resolved: resolved }
+        operation: 'insert',
+        data: {
+          version_id: versionId,
+          user_id: currentUserId,
+          parent_id: parentId,
+          comment_text: commentText,
+          timestamp_seconds: null,
+          mentions: extractMentions(commentText, members)
+        }
       });
 
-      toast.success(resolved ? "Feedback marked as resolved" : "Feedback reopened");
+      loadFeedback();
+    } catch (error) {
+      console.error("Error adding reply:", error);
+      toast.error("Failed to add reply");
+      throw error;
+    }
+  };
+
+  // set_feedback_resolution checks who may do what: anyone on the project resolves, the author confirms
+  const handleResolveFeedback = async (feedbackId: string, action: ResolutionAction) => {
+    try {
+      await db.rpc('set_feedback_resolution', {
+        _feedback_id: feedbackId,
+        _action: action
+      });
+
+      toast.success(
+        action === 'resolve'
+          ? "Feedback marked as done"
+          : action === 'confirm'
+            ? "Resolution confirmed"
+            : "Feedback reopened"
+      );
       loadFeedback();
     } catch (error) {
       console.error("Error updating feedback:", error);
-      toast.error("Failed to update feedback");
+      toast.error(errorMessage(error, "Failed to update feedback"));
+    }
+  };
+
+  const handleSetAddressed = async (feedbackId: string, addressed: boolean) => {
+    try {
+      await db.rpc('set_feedback_addressed', {
+        _feedback_id: feedbackId,
+        _addressed: addressed
+      });
+
+      toast.success(addressed ? "Marked as addressed" : "Marked as not addressed yet");
+      loadFeedback();
+    } catch (error) {
+      console.error("Error updating feedback:", error);
+      toast.error(errorMessage(error, "Failed to update feedback"));
     }
   };
 
@@ -188,6 +532,16 @@ const VideoPreview = () => {
                 </Button>
               </div>
               <div className="flex items-center gap-2">
+                {mediaKind !== 'image' && (
+                  <FeedbackExportMenu
+                    markers={reviewMarkers}
+                    projectName={project.name}
+                    versionNumber={version.version_number}
+                    frameRate={frameRate}
+                    duration={media?.duration}
+                    onImport={handleImportMarkers}
+                  />
+                )}
                 <Badge variant="outline">
                   Version {version.version_number}
                 </Badge>
@@ -204,7 +558,10 @@ const VideoPreview = () => {
           <main className="px-8 py-8">
             <div className="mb-6">
               <h1 className="text-3xl font-bold mb-2">{project.name}</h1>
-              <p className="text-muted-foreground">Version {version.version_number} Preview</p>
+              <p className="text-muted-foreground">
+                Version {version.version_number} Preview
+                {mediaKind === 'video' && ` · ${formatFrameRate(frameRate)}`}
+              </p>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -212,11 +569,55 @@ const VideoPreview = () => {
               <div className="lg:col-span-2">
                 <Card className="shadow-elegant">
                   <CardContent className="p-0">
-                    <UniversalVideoPlayer
-                      ref={playerRef}
-                      url={version.preview_url || version.final_url}
-                      onTimeUpdate={setCurrentTime}
-                    />
+                    {playback.error ? (
+                      <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+                        <p className="text-muted-foreground">Could not load the video file</p>
+                      </div>
+                    ) : playback.isLoading ? (
+                      <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+                        <p className="text-muted-foreground">Loading video...</p>
+                      </div>
+                    ) : mediaKind === 'image' ? (
+                      <ImageReviewer
+                        url={playback.url}
+                        pins={pins}
+                        pinDraft={pinDraft}
+                        onPinDraftChange={setPinDraft}
+                        selectedPinId={selectedPinId}
+                        onPinSelect={(pin) => setSelectedPinId(pin.id)}
+                      />
+                    ) : mediaKind === 'audio' ? (
+                      <AudioReviewer
+                        ref={playerRef}
+                        url={playback.url}
+                        waveformUrl={media?.waveform}
+                        onTimeUpdate={setCurrentTime}
+                        markers={markers}
+                        onMarkerSelect={(marker) => handleSeekToTimestamp(marker.start)}
+                        rangeDraft={rangeDraft}
+                        onRangeDraftChange={setRangeDraft}
+                        loopRange={loopRange}
+                        onLoopRangeChange={setLoopRange}
+                      />
+                    ) : (
+                      <UniversalVideoPlayer
+                        ref={playerRef}
+                        url={playback.url}
+                        poster={poster.url || undefined}
+                        scrubSprite={media?.sprite && sprite.url ? { url: sprite.url, sheet: media.sprite } : null}
+                        onTimeUpdate={setCurrentTime}
+                        frameRate={frameRate}
+                        markers={markers}
+                        onMarkerSelect={(marker) => handleSeekToTimestamp(marker.start)}
+                        rangeDraft={rangeDraft}
+                        onRangeDraftChange={setRangeDraft}
+                        loopRange={loopRange}
+                        onLoopRangeChange={setLoopRange}
+                        annotations={annotations}
+                        annotationDraft={annotationDraft}
+                        onAnnotationDraftChange={setAnnotationDraft}
+                      />
+                    )}
                   </CardContent>
                 </Card>
 
@@ -230,7 +631,7 @@ const VideoPreview = () => {
                     </CardHeader>
                     <CardContent>
                       <a
-                        href={version.final_url}
+                        href={finalLink.url || undefined}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-primary hover:underline font-medium"
@@ -249,8 +650,26 @@ const VideoPreview = () => {
                   currentTime={currentTime}
                   onAddFeedback={handleAddFeedback}
                   onSeekToTimestamp={handleSeekToTimestamp}
+                  onPlayRange={(start, end) => setLoopRange({ start, end })}
                   onResolveFeedback={handleResolveFeedback}
+                  onReply={handleReply}
+                  members={members}
+                  currentUserId={currentUserId}
+                  authorNames={authorNames}
+                  frameRate={mediaKind === 'video' ? frameRate : undefined}
+                  versionNumber={version.version_number}
+                  carriedFromVersions={carriedFromVersions}
+                  onSetAddressed={handleSetAddressed}
                   playerRef={playerRef}
+                  annotationDraft={annotationDraft}
+                  onDiscardAnnotation={() => setAnnotationDraft(null)}
+                  rangeDraft={rangeDraft}
+                  onClearRange={() => setRangeDraft(null)}
+                  mediaKind={mediaKind}
+                  pinDraft={pinDraft}
+                  onClearPin={() => setPinDraft(null)}
+                  pinNumbers={pinNumbers}
+                  onSelectPin={setSelectedPinId}
                 />
               </div>
             </div>
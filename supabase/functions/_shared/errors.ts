@@ -0,0 +1,8 @@
+// Errors from the Supabase client are plain objects rather than Error instances,
+// so checking `instanceof Error` alone would drop their message.
+
+/** The message of a thrown Error or of a Supabase error object */
+export const errorMessage = (error: unknown, fallback: string) => {
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && message ? message : fallback;
+};
@@ -0,0 +1,155 @@
+// Encryption for provider credentials stored in database_config.config and
+// app_settings.value. Secret fields are replaced by an envelope
+// { "encrypted": "v1:<key id>:<iv>:<ciphertext>" } sealed with AES-256-GCM.
+//
+// SECRETS_ENCRYPTION_KEY: base64 encoded 32 byte key used for new writes
+// SECRETS_ENCRYPTION_KEY_PREVIOUS: the key being rotated out, still accepted for reads
+
+type Settings = Record<string, unknown>;
+
+export interface EncryptedSecret {
+  encrypted: string;
+}
+
+// Which fields hold secrets, per app_settings key / database_config
+export const SECRET_FIELDS: Record<string, string[]> = {
+  database_config: ['accessToken'],
+  razorpay_config: ['key_secret'],
+};
+
+const VERSION = 'v1';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+interface EncryptionKey {
+  id: string;
+  key: CryptoKey;
+}
+
+const importKey = async (encoded: string): Promise<EncryptionKey> => {
+  const raw = fromBase64(encoded);
+  if (raw.length !== 32) {
+    throw new Error('Encryption keys must be 32 bytes, base64 encoded');
+  }
+
+  // The id only tells keys apart, it reveals nothing about the key itself
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  const id = Array.from(digest.slice(0, 4), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  const key = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { id, key };
+};
+
+let keys: Promise<{ current: EncryptionKey; previous: EncryptionKey | null }> | null = null;
+
+const loadKeys = () => {
+  if (!keys) {
+    keys = (async () => {
+      const current = Deno.env.get('SECRETS_ENCRYPTION_KEY');
+      if (!current) throw new Error('SECRETS_ENCRYPTION_KEY is not configured');
+      const previous = Deno.env.get('SECRETS_ENCRYPTION_KEY_PREVIOUS');
+      return {
+        current: await importKey(current),
+        previous: previous ? await importKey(previous) : null,
+      };
+    })();
+    keys.catch(() => {
+      keys = null;
+    });
+  }
+  return keys;
+};
+
+export const isEncrypted = (value: unknown): value is EncryptedSecret =>
+  typeof value === 'object' && value !== null && typeof (value as EncryptedSecret).encrypted === 'string';
+
+export const encryptSecret = async (plaintext: string): Promise<EncryptedSecret> => {
+  const { current } = await loadKeys();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, current.key, new TextEncoder().encode(plaintext))
+  );
+  return { encrypted: [VERSION, current.id, toBase64(iv), toBase64(ciphertext)].join(':') };
+};
+
+/** Decrypts an envelope. Plain strings written before encryption existed are returned as they are. */
+export const decryptSecret = async (value: unknown): Promise<string | null> => {
+  if (typeof value === 'string') return value;
+  if (!isEncrypted(value)) return null;
+
+  const [version, keyId, iv, ciphertext] = value.encrypted.split(':');
+  if (version !== VERSION) throw new Error(`Unsupported secret format: ${version}`);
+
+  const { current, previous } = await loadKeys();
+  const key = [current, previous].find((candidate) => candidate?.id === keyId);
+  if (!key) throw new Error('Secret was encrypted with a key that is no longer configured');
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key.key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+};
+
+/** Secret fields of a stored value, decrypted */
+export const openSecrets = async (name: string, value: Settings | null): Promise<Settings> => {
+  const opened: Settings = { ...(value || {}) };
+  for (const field of SECRET_FIELDS[name] || []) {
+    opened[field] = await decryptSecret(opened[field]);
+  }
+  return opened;
+};
+
+/**
+ * Encrypts the secret fields of `next`. A secret left blank keeps the value
+ * from `previous`, so the admin UI never has to send existing secrets back.
+ */
+export const sealSecrets = async (name: string, next: Settings, previous: Settings | null): Promise<Settings> => {
+  const sealed: Settings = { ...next };
+  for (const field of SECRET_FIELDS[name] || []) {
+    const value = next[field];
+    if (typeof value === 'string' && value !== '') {
+      sealed[field] = await encryptSecret(value);
+    } else if (previous?.[field] !== undefined && previous[field] !== null && previous[field] !== '') {
+      sealed[field] = previous[field];
+    } else {
+      delete sealed[field];
+    }
+  }
+  return sealed;
+};
+
+/** Drops secret fields and lists which of them are set */
+export const maskSecrets = (name: string, value: Settings | null) => {
+  const masked: Settings = { ...(value || {}) };
+  const stored: string[] = [];
+  for (const field of SECRET_FIELDS[name] || []) {
+    if (masked[field] !== undefined && masked[field] !== null && masked[field] !== '') stored.push(field);
+    delete masked[field];
+  }
+  return { value: masked, stored };
+};
+
+/**
+ * Re-encrypts secret fields with the current key. Returns null when nothing
+ * needed rotating; legacy plain strings are encrypted on the way.
+ */
+export const rotateSecrets = async (name: string, value: Settings | null): Promise<Settings | null> => {
+  if (!value) return null;
+  const { current } = await loadKeys();
+
+  let changed = false;
+  const rotated: Settings = { ...value };
+  for (const field of SECRET_FIELDS[name] || []) {
+    const stored = value[field];
+    const upToDate = isEncrypted(stored) && stored.encrypted.split(':')[1] === current.id;
+    if (upToDate || stored === undefined || stored === null || stored === '') continue;
+
+    const plaintext = await decryptSecret(stored);
+    if (plaintext === null) continue;
+    rotated[field] = await encryptSecret(plaintext);
+    changed = true;
+  }
+  return changed ? rotated : null;
+};
@@ -0,0 +1,365 @@
+// Parameterised SQL for the self-hosted PostgreSQL / SQLite databases behind
+// sql-gateway. Identifiers are checked and quoted, values are always parameters.
+
+export type SqlDialect = 'postgresql' | 'sqlite';
+
+export interface SqlStatement {
+  text: string;
+  params: unknown[];
+}
+
+export type Rows = Record<string, unknown>[];
+
+export type QueryOperation = 'select' | 'insert' | 'update' | 'delete' | 'count' | 'aggregate';
+
+export const QUERY_OPERATIONS: QueryOperation[] = ['select', 'insert', 'update', 'delete', 'count', 'aggregate'];
+
+type FilterValue = string | number | boolean | null;
+
+type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'like' | 'ilike' | 'is';
+
+const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'like', 'ilike', 'is'];
+
+const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'];
+
+/** Same shape as WhereClause in src/lib/database-config.ts */
+export type WhereClause = {
+  and?: WhereClause[];
+  or?: WhereClause[];
+} & {
+  [column: string]: unknown;
+};
+
+interface OrderBy {
+  column: string;
+  ascending: boolean;
+}
+
+/** A UniversalQuery as sent by src/lib/sql-adapter.ts; everything in it is untrusted */
+export interface UniversalQuery {
+  collection: string;
+  operation: QueryOperation;
+  data?: Record<string, unknown> | Record<string, unknown>[];
+  where?: WhereClause;
+  orderBy?: OrderBy | OrderBy[];
+  limit?: number;
+  offset?: number;
+  select?: string;
+  aggregates?: Record<string, Record<string, string>>;
+  groupBy?: string[];
+}
+
+/** Extra condition ANDed into a statement's WHERE, built with the statement's own parameters */
+export type Restriction = (builder: StatementBuilder) => string;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const quoteIdentifier = (name: string): string => {
+  if (typeof name !== 'string' || !IDENTIFIER.test(name)) {
+    throw new Error(`Invalid identifier: ${name}`);
+  }
+  return `"${name}"`;
+};
+
+// Translates a LIKE pattern into a case-sensitive SQLite GLOB pattern
+const likeToGlob = (pattern: string): string =>
+  pattern.replace(/[*?[\]]/g, '[$&]').replace(/%/g, '*').replace(/_/g, '?');
+
+const isFilterValue = (value: unknown): value is FilterValue =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const filterValue = (value: unknown): FilterValue => {
+  if (!isFilterValue(value)) throw new Error('Filter values must be strings, numbers, booleans or null');
+  return value;
+};
+
+const nonNegative = (value: unknown, name: string): number => {
+  if (!Number.isInteger(value) || (value as number) < 0) throw new Error(`${name} must be a non-negative integer`);
+  return value as number;
+};
+
+export class StatementBuilder {
+  readonly params: unknown[] = [];
+
+  constructor(readonly dialect: SqlDialect) {}
+
+  param(value: unknown): string {
+    this.params.push(this.normalize(value));
+    return this.dialect === 'postgresql' ? `$${this.params.length}` : '?';
+  }
+
+  private normalize(value: unknown): unknown {
+    if (this.dialect !== 'sqlite') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value;
+  }
+
+  private comparison(col: string, operator: string, value: unknown): string {
+    switch (operator) {
+      case 'eq':
+        return value === null ? `${col} IS NULL` : `${col} = ${this.param(filterValue(value))}`;
+      case 'neq':
+        return value === null ? `${col} IS NOT NULL` : `${col} <> ${this.param(filterValue(value))}`;
+      case 'gt':
+        return `${col} > ${this.param(filterValue(value))}`;
+      case 'gte':
+        return `${col} >= ${this.param(filterValue(value))}`;
+      case 'lt':
+        return `${col} < ${this.param(filterValue(value))}`;
+      case 'lte':
+        return `${col} <= ${this.param(filterValue(value))}`;
+      case 'in': {
+        if (!Array.isArray(value)) throw new Error('"in" filters take a list of values');
+        if (value.length === 0) return '1 = 0';
+        return `${col} IN (${value.map((v) => this.param(filterValue(v))).join(', ')})`;
+      }
+      case 'like':
+      case 'ilike': {
+        if (typeof value !== 'string') throw new Error(`"${operator}" filters take a pattern`);
+        // SQLite LIKE is already case-insensitive for ASCII, and GLOB is its case-sensitive match
+        if (this.dialect === 'sqlite') {
+          return operator === 'like' ? `${col} GLOB ${this.param(likeToGlob(value))}` : `${col} LIKE ${this.param(value)}`;
+        }
+        return `${col} ${operator === 'like' ? 'LIKE' : 'ILIKE'} ${this.param(value)}`;
+      }
+      case 'is':
+        if (value === null) return `${col} IS NULL`;
+        if (typeof value !== 'boolean') throw new Error('"is" filters take null, true or false');
+        return `${col} IS ${value ? 'TRUE' : 'FALSE'}`;
+      default:
+        throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  }
+
+  where(where: WhereClause): string {
+    if (!isPlainObject(where)) throw new Error('Invalid where clause');
+    const parts: string[] = [];
+
+    Object.entries(where).forEach(([column, condition]) => {
+      if (column === 'and' || column === 'or' || condition === undefined) return;
+      const col = quoteIdentifier(column);
+
+      // A bare value is shorthand for { eq: value }
+      if (isPlainObject(condition)) {
+        Object.entries(condition).forEach(([operator, value]) => {
+          if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+            throw new Error(`Unsupported filter operator: ${operator}`);
+          }
+          if (value !== undefined) parts.push(this.comparison(col, operator, value));
+        });
+      } else {
+        parts.push(this.comparison(col, condition === null ? 'is' : 'eq', condition));
+      }
+    });
+
+    where.and?.forEach((clause) => {
+      const nested = this.where(clause);
+      if (nested) parts.push(`(${nested})`);
+    });
+
+    if (where.or?.length) {
+      const groups = where.or.map((clause) => this.where(clause) || '1 = 1');
+      parts.push(`(${groups.map((group) => `(${group})`).join(' OR ')})`);
+    }
+
+    return parts.join(' AND ');
+  }
+}
+
+// Rows where at least one of the columns is set
+const anyNotNull = (columns: string[]) =>
+  `(${columns.map((column) => `${quoteIdentifier(column)} IS NOT NULL`).join(' OR ')})`;
+
+/**
+ * Multi-row INSERT ... RETURNING *. With ignoreConflicts, rows whose key
+ * already exists are skipped instead of failing the statement.
+ */
+export const compileInsert = (
+  collection: string,
+  rows: Rows,
+  dialect: SqlDialect,
+  { ignoreConflicts = false }: { ignoreConflicts?: boolean } = {}
+): SqlStatement => {
+  if (rows.length === 0) throw new Error('Insert requires data');
+  if (!rows.every(isPlainObject)) throw new Error('Insert data must be objects');
+
+  const builder = new StatementBuilder(dialect);
+
+  // Columns missing from a row are inserted as NULL, matching supabase-js bulk inserts
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const values = rows
+    .map((row) => `(${columns.map((column) => builder.param(row[column] ?? null)).join(', ')})`)
+    .join(', ');
+
+  return {
+    text: `INSERT INTO ${quoteIdentifier(collection)} (${columns.map(quoteIdentifier).join(', ')}) VALUES ${values}` +
+      `${ignoreConflicts ? ' ON CONFLICT DO NOTHING' : ''} RETURNING *`,
+    params: builder.params
+  };
+};
+
+/** Row count of a table, optionally only rows with one of `nonNull` set */
+export const compileCount = (collection: string, nonNull: string[] = []): SqlStatement => ({
+  text: `SELECT COUNT(*) AS count FROM ${quoteIdentifier(collection)}${nonNull.length ? ` WHERE ${anyNotNull(nonNull)}` : ''}`,
+  params: []
+});
+
+/** The next `limit` rows after `afterId` in id order, for keyset paging through a whole table */
+export const compilePage = (
+  collection: string,
+  dialect: SqlDialect,
+  { afterId, limit, nonNull = [] }: { afterId: string | null; limit: number; nonNull?: string[] }
+): SqlStatement => {
+  const builder = new StatementBuilder(dialect);
+  const conditions = [
+    ...(afterId ? [`${quoteIdentifier('id')} > ${builder.param(afterId)}`] : []),
+    ...(nonNull.length ? [anyNotNull(nonNull)] : [])
+  ];
+
+  return {
+    text: `SELECT * FROM ${quoteIdentifier(collection)}` +
+      `${conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''}` +
+      ` ORDER BY ${quoteIdentifier('id')} ASC LIMIT ${builder.param(limit)}`,
+    params: builder.params
+  };
+};
+
+/**
+ * Sets `columns` on every row in a single UPDATE, picking each row's values
+ * with CASE on its id. The columns are references to other rows, so Postgres
+ * gets the values as uuids.
+ */
+export const compileRelink = (collection: string, columns: string[], rows: Rows, dialect: SqlDialect): SqlStatement => {
+  if (rows.length === 0 || columns.length === 0) throw new Error('Relink requires rows and columns');
+
+  const builder = new StatementBuilder(dialect);
+  const id = quoteIdentifier('id');
+  const cast = dialect === 'postgresql' ? '::uuid' : '';
+
+  const assignments = columns.map((column) => {
+    const cases = rows
+      .map((row) => `WHEN ${builder.param(row.id)} THEN ${builder.param(row[column] ?? null)}${cast}`)
+      .join(' ');
+    return `${quoteIdentifier(column)} = CASE ${id} ${cases} ELSE ${quoteIdentifier(column)} END`;
+  });
+  const ids = rows.map((row) => builder.param(row.id)).join(', ');
+
+  return {
+    text: `UPDATE ${quoteIdentifier(collection)} SET ${assignments.join(', ')} WHERE ${id} IN (${ids})`,
+    params: builder.params
+  };
+};
+
+const parseSelect = (select?: string): string => {
+  if (!select || select.trim() === '*') return '*';
+  return select.split(',').map((column) => quoteIdentifier(column.trim())).join(', ');
+};
+
+/**
+ * Compiles a UniversalQuery into a single SQL statement. `restrict` is ANDed
+ * into the WHERE of everything except inserts; embedded PostgREST resources
+ * in `select` are not supported.
+ */
+export const compileQuery = (query: UniversalQuery, dialect: SqlDialect, restrict?: Restriction): SqlStatement => {
+  const { collection, operation, data, where, orderBy, limit, offset, select, aggregates, groupBy } = query;
+  const builder = new StatementBuilder(dialect);
+  const table = quoteIdentifier(collection);
+  const whereSql = () => {
+    const conditions = [
+      where ? builder.where(where) : '',
+      restrict ? restrict(builder) : ''
+    ].filter(Boolean);
+    return conditions.length ? ` WHERE ${conditions.map((condition) => `(${condition})`).join(' AND ')}` : '';
+  };
+
+  switch (operation) {
+    case 'select': {
+      let text = `SELECT ${parseSelect(select)} FROM ${table}${whereSql()}`;
+      const orderings = Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [];
+      if (orderings.length) {
+        // Explicit null placement so SQLite sorts like Postgres
+        text += ` ORDER BY ${orderings
+          .map(({ column, ascending }) =>
+            `${quoteIdentifier(column)} ${ascending ? 'ASC NULLS LAST' : 'DESC NULLS FIRST'}`)
+          .join(', ')}`;
+      }
+      if (limit) {
+        text += ` LIMIT ${builder.param(nonNegative(limit, 'limit'))}`;
+      } else if (offset && dialect === 'sqlite') {
+        text += ' LIMIT -1';
+      }
+      if (offset) {
+        text += ` OFFSET ${builder.param(nonNegative(offset, 'offset'))}`;
+      }
+      return { text, params: builder.params };
+    }
+
+    case 'insert':
+      return compileInsert(collection, Array.isArray(data) ? data : [data as Record<string, unknown>], dialect);
+
+    case 'update': {
+      if (!where) throw new Error('Update requires where clause');
+      if (!isPlainObject(data)) throw new Error('Update requires data');
+      const assignments = Object.entries(data)
+        .map(([column, value]) => `${quoteIdentifier(column)} = ${builder.param(value)}`)
+        .join(', ');
+      if (!assignments) throw new Error('Update requires data');
+
+      return {
+        text: `UPDATE ${table} SET ${assignments}${whereSql()} RETURNING *`,
+        params: builder.params
+      };
+    }
+
+    case 'delete':
+      if (!where) throw new Error('Delete requires where clause');
+      return { text: `DELETE FROM ${table}${whereSql()}`, params: builder.params };
+
+    case 'count':
+      return { text: `SELECT COUNT(*) AS count FROM ${table}${whereSql()}`, params: builder.params };
+
+    case 'aggregate': {
+      const groups = (groupBy || []).map(quoteIdentifier).join(', ');
+      const expressions = Object.entries(aggregates || {}).map(([alias, expression]) => {
+        const [fn, column] = (Object.entries(expression || {})[0] || []) as string[];
+        if (!AGGREGATE_FUNCTIONS.includes(fn)) throw new Error(`Unsupported aggregate: ${fn}`);
+        const target = fn === 'count' && column === '*' ? '*' : quoteIdentifier(column);
+        return `${fn.toUpperCase()}(${target}) AS ${quoteIdentifier(alias)}`;
+      });
+      if (expressions.length === 0) throw new Error('Aggregate requires at least one aggregate');
+
+      let text = `SELECT ${[groups, ...expressions].filter(Boolean).join(', ')} FROM ${table}${whereSql()}`;
+      if (groups) {
+        text += ` GROUP BY ${groups} ORDER BY ${groups}`;
+      }
+      return { text, params: builder.params };
+    }
+
+    default:
+      throw new Error(`Unsupported operation: ${operation}`);
+  }
+};
+
+/**
+ * Counts the given rows that do not satisfy `rule`, so writes can be checked
+ * after the fact inside the same transaction (like a policy's WITH CHECK).
+ */
+export const compileRuleCheck = (
+  collection: string,
+  ids: unknown[],
+  dialect: SqlDialect,
+  rule: Restriction
+): SqlStatement => {
+  const builder = new StatementBuilder(dialect);
+  const id = `${quoteIdentifier(collection)}.${quoteIdentifier('id')}`;
+  const list = ids.map((value) => builder.param(value)).join(', ');
+
+  return {
+    text: `SELECT COUNT(*) AS count FROM ${quoteIdentifier(collection)} WHERE ${id} IN (${list}) AND NOT COALESCE((${rule(builder)}), FALSE)`,
+    params: builder.params
+  };
+};
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { openSecrets } from "./secrets.ts";
+
+// Server-side access to a provider's sql-gateway. The gateway access token is
+// stored encrypted in database_config and only ever decrypted by the functions.
+
+type Settings = Record<string, unknown>;
+
+export interface GatewayCredentials {
+  gatewayUrl: string;
+  accessToken: string;
+}
+
+export const SQL_PROVIDERS = ['postgresql', 'sqlite'];
+
+/** A request the gateway answered with an error status */
+export class GatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/** The active database_config row, with its secrets still sealed */
+export const activeDatabaseConfig = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase
+    .from('database_config')
+    .select('provider, config')
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data as { provider: string; config: Settings } | null;
+};
+
+const toCredentials = ({ gatewayUrl, accessToken }: Settings): GatewayCredentials => {
+  if (typeof gatewayUrl !== 'string' || !/^https?:\/\//.test(gatewayUrl)) {
+    throw new Error('A valid SQL gateway URL is required');
+  }
+  if (typeof accessToken !== 'string' || !accessToken) {
+    throw new Error('SQL gateway access token is required');
+  }
+  return { gatewayUrl, accessToken };
+};
+
+/** Provider and gateway credentials of the active SQL provider */
+export const activeGatewayCredentials = async (supabase: SupabaseClient) => {
+  const active = await activeDatabaseConfig(supabase);
+  if (!active || !SQL_PROVIDERS.includes(active.provider)) {
+    throw new Error('No SQL provider is active');
+  }
+  return {
+    provider: active.provider,
+    credentials: toCredentials(await openSecrets('database_config', active.config))
+  };
+};
+
+/**
+ * Gateway credentials typed into the admin page. A blank access token means
+ * "keep the stored one", which only applies while the provider and the gateway
+ * URL stay the same, so the stored token is never sent to another host.
+ */
+export const candidateGatewayCredentials = async (
+  supabase: SupabaseClient,
+  provider: string,
+  credentials: Settings
+): Promise<GatewayCredentials> => {
+  if (credentials.accessToken) return toCredentials(credentials);
+
+  const active = await activeDatabaseConfig(supabase);
+  const sameGateway = active?.provider === provider && active.config.gatewayUrl === credentials.gatewayUrl;
+  const stored = sameGateway ? await openSecrets('database_config', active.config) : {};
+  return toCredentials({ ...credentials, accessToken: stored.accessToken });
+};
+
+/** Posts a request to the gateway and returns its JSON payload, throwing its error message on failure */
+export const callGateway = async <T>(credentials: GatewayCredentials, body: Settings): Promise<T> => {
+  const response = await fetch(credentials.gatewayUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${credentials.accessToken}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new GatewayError(response.status, payload.error || `SQL gateway responded with ${response.status}`);
+  }
+  return payload as T;
+};
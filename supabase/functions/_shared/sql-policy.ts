@@ -0,0 +1,205 @@
+import {
+  QUERY_OPERATIONS,
+  quoteIdentifier,
+  type Restriction,
+  type StatementBuilder,
+  type UniversalQuery
+} from "./sql-compiler.ts";
+
+// Which tables and operations app users may run against a self-hosted database,
+// and the row rules that stand in for the Supabase RLS policies there. Rules are
+// SQL conditions on the row being read or written; reads, updates and deletes
+// only see rows that pass, and inserted or updated rows must pass afterwards.
+// Tables missing here (database_config, app_settings) are never reachable.
+
+export type Access = 'read' | 'insert' | 'update' | 'delete';
+
+export class PolicyError extends Error {}
+
+interface RuleScope {
+  builder: StatementBuilder;
+  /** A column of the row being checked */
+  column(name: string): string;
+  /** The calling user's id, as a parameter */
+  user(): string;
+}
+
+type RowRule = (scope: RuleScope) => string;
+
+type TablePolicy = Partial<Record<Access, RowRule>> & {
+  /** The only columns an update may set, where not every column is open */
+  updatable?: string[];
+  /** Flags an update may turn off but never on */
+  clearable?: string[];
+  /** Columns no update may set, on tables where the rest are open */
+  fixed?: string[];
+};
+
+const anyone: RowRule = () => '1 = 1';
+
+const own = (column: string): RowRule => (scope) => `${scope.column(column)} = ${scope.user()}`;
+
+const either = (...rules: RowRule[]): RowRule => (scope) => rules.map((rule) => `(${rule(scope)})`).join(' OR ');
+
+const hasRole = (...roles: string[]): RowRule => (scope) =>
+  `EXISTS (SELECT 1 FROM "user_roles" ur WHERE ur."user_id" = ${scope.user()}` +
+  ` AND ur."role" IN (${roles.map((role) => scope.builder.param(role)).join(', ')}))`;
+
+// As is_approval_reviewer(): named on one of the project's approval stages
+const isReviewer = (scope: RuleScope, project: string) =>
+  scope.builder.dialect === 'postgresql'
+    ? `EXISTS (SELECT 1 FROM "approval_stages" st WHERE st."project_id" = ${project} AND ${scope.user()} = ANY (st."reviewer_ids"))`
+    : `EXISTS (SELECT 1 FROM "approval_stages" st, json_each(st."reviewer_ids") reviewer` +
+      ` WHERE st."project_id" = ${project} AND reviewer.value = ${scope.user()})`;
+
+// As can_manage_project(): the creator or the editor
+const canManage = (scope: RuleScope, project: string) =>
+  `EXISTS (SELECT 1 FROM "projects" mp LEFT JOIN "editors" me ON me."id" = mp."editor_id"` +
+  ` WHERE mp."id" = ${project} AND (mp."creator_id" = ${scope.user()} OR me."user_id" = ${scope.user()}))`;
+
+// As the approval_stages policies: the creator alone, not the editor
+const isCreator = (scope: RuleScope, project: string) =>
+  `EXISTS (SELECT 1 FROM "projects" cp WHERE cp."id" = ${project} AND cp."creator_id" = ${scope.user()})`;
+
+// As is_project_member(): the creator, editor, a client or an approval reviewer
+const isMember = (scope: RuleScope, project: string) =>
+  `(EXISTS (SELECT 1 FROM "projects" pp LEFT JOIN "editors" pe ON pe."id" = pp."editor_id"` +
+  ` LEFT JOIN "clients" pc ON pc."id" = pp."client_id"` +
+  ` WHERE pp."id" = ${project} AND (pp."creator_id" = ${scope.user()} OR pe."user_id" = ${scope.user()} OR pc."user_id" = ${scope.user()}))` +
+  ` OR EXISTS (SELECT 1 FROM "project_clients" xpc JOIN "clients" xc ON xc."id" = xpc."client_id"` +
+  ` WHERE xpc."project_id" = ${project} AND xc."user_id" = ${scope.user()})` +
+  ` OR ${isReviewer(scope, project)})`;
+
+type ProjectCheck = (scope: RuleScope, project: string) => string;
+
+const onProject = (check: ProjectCheck, column = 'project_id'): RowRule => (scope) => check(scope, scope.column(column));
+
+// For rows that hang off a version rather than a project
+const onVersion = (check: ProjectCheck): RowRule => (scope) =>
+  `EXISTS (SELECT 1 FROM "video_versions" vv WHERE vv."id" = ${scope.column('version_id')} AND (${check(scope, 'vv."project_id"')}))`;
+
+const ownConversation: RowRule = (scope) =>
+  `EXISTS (SELECT 1 FROM "ai_conversations" ac WHERE ac."id" = ${scope.column('conversation_id')} AND ac."user_id" = ${scope.user()})`;
+
+const ownInvoice: RowRule = (scope) =>
+  `EXISTS (SELECT 1 FROM "invoices" iv WHERE iv."id" = ${scope.column('invoice_id')} AND iv."editor_id" = ${scope.user()})`;
+
+const admin = hasRole('admin');
+
+// As guard_version_approval and guard_version_ready: a version starts out pending and
+// outside review. Sign-off goes through record_approval_decision, which only Supabase has
+const undecidedVersion: RowRule = (scope) =>
+  `COALESCE(${scope.column('approval_status')}, 'pending') <> 'approved'` +
+  ` AND NOT COALESCE(${scope.column('is_approved')}, FALSE)` +
+  ` AND NOT COALESCE(${scope.column('final_link_requested')}, FALSE)` +
+  ` AND ${scope.column('ready_for_review_at')} IS NULL`;
+
+const POLICIES: Record<string, TablePolicy> = {
+  profiles: { read: anyone, insert: own('id'), update: own('id') },
+  user_roles: { read: own('user_id') },
+  editors: { read: anyone, insert: anyone, update: anyone, delete: hasRole('agency') },
+  clients: { read: anyone, insert: anyone, update: anyone, delete: hasRole('editor', 'agency') },
+  project_types: { read: anyone, insert: anyone },
+  subscription_plans: { read: anyone, insert: admin, update: admin, delete: admin },
+  projects: {
+    read: onProject(isMember, 'id'),
+    insert: own('creator_id'),
+    update: onProject(canManage, 'id'),
+    delete: onProject(canManage, 'id'),
+    // As guard_project_creator(): stage edits rely on who the creator is
+    fixed: ['creator_id']
+  },
+  project_clients: {
+    read: either(onProject(canManage), (scope) =>
+      `EXISTS (SELECT 1 FROM "clients" oc WHERE oc."id" = ${scope.column('client_id')} AND oc."user_id" = ${scope.user()})`),
+    insert: onProject(canManage),
+    update: onProject(canManage),
+    delete: onProject(canManage)
+  },
+  // Stages say who signs a version off, so the editor cannot name themselves
+  approval_stages: {
+    read: onProject(isMember),
+    insert: onProject(isCreator),
+    update: onProject(isCreator),
+    delete: onProject(isCreator)
+  },
+  // Approval and review state are left out; editors only clear a final link request
+  video_versions: {
+    read: onProject(isMember),
+    insert: (scope) => `${onProject(canManage)(scope)} AND ${undecidedVersion(scope)}`,
+    update: onProject(canManage),
+    delete: onProject(canManage),
+    updatable: ['preview_url', 'preview_sha256', 'final_url', 'final_sha256', 'frame_rate', 'media', 'correction_notes', 'updated_at'],
+    clearable: ['final_link_requested']
+  },
+  review_links: { read: onVersion(canManage), update: onVersion(canManage) },
+  approval_log: { read: onVersion(isMember) },
+  // Resolving and addressing comments go through functions; people only edit their own text
+  video_feedback: {
+    read: onVersion(isMember),
+    insert: (scope) => `${own('user_id')(scope)} AND ${onVersion(isMember)(scope)}`,
+    update: own('user_id'),
+    delete: own('user_id'),
+    updatable: ['comment_text']
+  },
+  feedback_tasks: { read: onVersion(isMember), update: onVersion(canManage) },
+  messages: { read: either(own('sender_id'), own('recipient_id')), insert: own('sender_id') },
+  payments: {
+    read: either(own('payer_id'), own('recipient_id')),
+    insert: either(own('payer_id'), own('recipient_id')),
+    update: either(own('payer_id'), own('recipient_id'))
+  },
+  invoices: { read: own('editor_id'), insert: own('editor_id'), update: own('editor_id'), delete: own('editor_id') },
+  invoice_projects: { read: ownInvoice, insert: ownInvoice, update: ownInvoice, delete: ownInvoice },
+  transactions: { read: own('editor_id'), insert: own('editor_id'), update: own('editor_id'), delete: own('editor_id') },
+  ai_conversations: { read: own('user_id'), insert: own('user_id'), update: own('user_id'), delete: own('user_id') },
+  ai_messages: { read: ownConversation, insert: ownConversation, delete: ownConversation },
+  api_keys: { read: admin, insert: admin, update: admin, delete: admin },
+  notifications: { read: own('user_id'), update: own('user_id'), delete: own('user_id') },
+  admin_activity_logs: { read: admin, insert: admin }
+};
+
+const ACCESS: Record<UniversalQuery['operation'], Access> = {
+  select: 'read',
+  count: 'read',
+  aggregate: 'read',
+  insert: 'insert',
+  update: 'update',
+  delete: 'delete'
+};
+
+/** The access a query needs, or a PolicyError if the table does not allow it */
+export const authorize = ({ collection, operation, data }: UniversalQuery): Access => {
+  if (!QUERY_OPERATIONS.includes(operation)) throw new PolicyError(`Unsupported operation: ${operation}`);
+  const access = ACCESS[operation];
+  const policy = POLICIES[collection];
+  if (!policy?.[access]) {
+    throw new PolicyError(`${operation} on ${collection} is not allowed`);
+  }
+
+  if (access === 'update' && policy.updatable) {
+    const locked = Object.entries(data || {})
+      .filter(([column, value]) => !policy.updatable!.includes(column) && !(policy.clearable?.includes(column) && !value))
+      .map(([column]) => column);
+    if (locked.length) throw new PolicyError(`${locked.join(', ')} on ${collection} cannot be changed directly`);
+  }
+  if (access === 'update' && policy.fixed) {
+    const locked = Object.keys(data || {}).filter((column) => policy.fixed!.includes(column));
+    if (locked.length) throw new PolicyError(`${locked.join(', ')} on ${collection} cannot be changed`);
+  }
+  return access;
+};
+
+/** The row rule for `access` on `collection` as the given user, for compileQuery and compileRuleCheck */
+export const rowRule = (collection: string, access: Access, userId: string): Restriction => {
+  const rule = POLICIES[collection]?.[access];
+  if (!rule) throw new PolicyError(`${access} on ${collection} is not allowed`);
+
+  const table = quoteIdentifier(collection);
+  return (builder) =>
+    rule({
+      builder,
+      column: (name) => `${table}.${quoteIdentifier(name)}`,
+      user: () => builder.param(userId)
+    });
+};
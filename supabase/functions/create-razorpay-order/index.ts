@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { openSecrets } from "../_shared/secrets.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,13 +27,13 @@ serve(async (req) => {
       .eq('key', 'razorpay_config')
       .single();
 
-    if (!config || !(config.value as any).key_id || !(config.value as any).key_secret) {
+    const { key_id: razorpayKeyId, key_secret: razorpayKeySecret } =
+      await openSecrets('razorpay_config', (config?.value as any) ?? null);
+
+    if (!razorpayKeyId || !razorpayKeySecret) {
       throw new Error('Razorpay not configured');
     }
 
-    const razorpayKeyId = (config.value as any).key_id;
-    const razorpayKeySecret = (config.value as any).key_secret;
-
     // Create Razorpay order
     const auth = btoa(`${razorpayKeyId}:${razorpayKeySecret}`);
     
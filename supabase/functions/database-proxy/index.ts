@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { compileQuery, QUERY_OPERATIONS, type SqlDialect, type UniversalQuery } from "../_shared/sql-compiler.ts";
+import {
+  activeGatewayCredentials,
+  callGateway,
+  candidateGatewayCredentials,
+  GatewayError,
+  SQL_PROVIDERS
+} from "../_shared/sql-gateway.ts";
+import { authorize, PolicyError, rowRule } from "../_shared/sql-policy.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+// Forwards queries from src/lib/sql-adapter.ts to the sql-gateway of the active
+// provider as the signed-in user. Queries on tables or operations the user may
+// not use are rejected here; the gateway applies the row rules. The gateway
+// access token is stored encrypted in database_config and only decrypted here,
+// so it never reaches the browser.
+//
+// { queries }                               -> { results }
+// { action: 'test', provider, credentials } -> { success }  admins trying out unsaved settings
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const MAX_QUERIES = 100;
+
+/** The request's queries, or a 400 if they are not a list of UniversalQuery objects */
+const parseQueries = (queries: unknown): UniversalQuery[] => {
+  if (!Array.isArray(queries) || queries.length === 0) {
+    throw new HttpError(400, 'No queries provided');
+  }
+  if (queries.length > MAX_QUERIES) {
+    throw new HttpError(400, `At most ${MAX_QUERIES} queries can run together`);
+  }
+  queries.forEach((query) => {
+    if (
+      typeof query !== 'object' || query === null ||
+      typeof query.collection !== 'string' ||
+      !QUERY_OPERATIONS.includes(query.operation)
+    ) {
+      throw new HttpError(400, 'Invalid query');
+    }
+  });
+  return queries as UniversalQuery[];
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await req.json();
+
+    if (body.action === 'test') {
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) throw new HttpError(403, 'Admin access required');
+      if (!SQL_PROVIDERS.includes(body.provider)) {
+        throw new HttpError(400, `The ${body.provider} provider is not supported yet`);
+      }
+
+      const gateway = await candidateGatewayCredentials(supabase, body.provider, body.credentials || {});
+      const success = await callGateway(gateway, { action: 'ping' }).then(() => true, () => false);
+      return new Response(JSON.stringify({ success }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      });
+    }
+
+    const queries = parseQueries(body.queries);
+    const { provider, credentials } = await activeGatewayCredentials(supabase);
+
+    // Refuse anything the caller may not run before it reaches the database.
+    // The gateway compiles again and applies the same row rules itself.
+    const dialect = provider as SqlDialect;
+    queries.forEach((query) => {
+      const access = authorize(query);
+      try {
+        compileQuery(query, dialect, rowRule(query.collection, access, user.id));
+      } catch (error) {
+        throw new HttpError(400, errorMessage(error, 'Invalid query'));
+      }
+    });
+
+    const result = await callGateway(credentials, { action: 'query', userId: user.id, queries });
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+  } catch (error) {
+    console.error('Database proxy error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error, 'Unknown error') }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError || error instanceof GatewayError
+          ? error.status
+          : error instanceof PolicyError ? 403 : 500
+      }
+    );
+  }
+});
@@ -0,0 +1,287 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Public side of review links. Guests have no account, so every request carries the
+// link token (and password, if the link has one) and is checked here before acting
+// with the service role. Wrong passwords lock a link for a while after a few tries,
+// and each link takes only so many comments in a given time.
+//
+// { action: 'open', token, password? }
+//   -> { project, version, allowDownload, expiresAt, feedback }
+// { action: 'comment', token, password?, guestName, text, timestamp?, endTimestamp?, parentId? }
+//   -> { feedback }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'project-videos';
+const STORAGE_PREFIX = `storage://${BUCKET}/`;
+const SIGNED_URL_TTL = 4 * 60 * 60;
+// Links without downloads only stream the preview, through URLs that soon stop working
+const STREAM_URL_TTL = 15 * 60;
+const MAX_COMMENTS = 20;
+const COMMENT_WINDOW_MS = 10 * 60 * 1000;
+const MAX_NAME_LENGTH = 80;
+const MAX_COMMENT_LENGTH = 5000;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+type Client = ReturnType<typeof createClient>;
+
+interface ReviewLink {
+  id: string;
+  version_id: string;
+  password_hash: string | null;
+  expires_at: string | null;
+  allow_download: boolean;
+  revoked_at: string | null;
+}
+
+interface SpriteSheet {
+  url: string;
+  [key: string]: unknown;
+}
+
+interface Version {
+  id: string;
+  project_id: string;
+  version_number: number;
+  preview_url: string | null;
+  final_url: string | null;
+  frame_rate: number | string;
+  media: { poster?: string; sprite?: SpriteSheet } | null;
+}
+
+interface FeedbackRow {
+  id: string;
+  parent_id: string | null;
+  user_id: string | null;
+  guest_name: string | null;
+  comment_text: string;
+  timestamp_seconds: number | string | null;
+  end_seconds: number | string | null;
+  is_resolved: boolean;
+  created_at: string;
+}
+
+interface Profile {
+  id: string;
+  full_name: string | null;
+}
+
+interface CommentBody {
+  guestName?: unknown;
+  text?: unknown;
+  timestamp?: unknown;
+  endTimestamp?: unknown;
+  parentId?: unknown;
+}
+
+// Stored files are private; guests get the same short-lived signed URLs members do
+const signed = async (
+  supabase: Client,
+  url: string | null | undefined,
+  { download = false, ttl = SIGNED_URL_TTL } = {}
+) => {
+  if (!url || !url.startsWith(STORAGE_PREFIX)) return url ?? null;
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(url.slice(STORAGE_PREFIX.length), ttl, download ? { download: true } : undefined);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+const openReview = async (supabase: Client, link: ReviewLink, version: Version) => {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('name')
+    .eq('id', version.project_id)
+    .single();
+
+  const { data: feedback } = await supabase
+    .from('video_feedback')
+    .select('id, parent_id, user_id, guest_name, comment_text, timestamp_seconds, end_seconds, is_resolved, created_at')
+    .eq('version_id', version.id)
+    .order('created_at', { ascending: true });
+
+  // Guests see members by name only, never their email address
+  const rows = (feedback ?? []) as FeedbackRow[];
+  const userIds = [...new Set(rows.map((item) => item.user_id).filter(Boolean))];
+  const { data: profiles } = userIds.length
+    ? await supabase.from('profiles').select('id, full_name').in('id', userIds)
+    : { data: [] };
+  const names = Object.fromEntries(
+    ((profiles ?? []) as Profile[]).map((profile) => [profile.id, profile.full_name || 'Team member'])
+  );
+
+  const media = version.media;
+  // Without downloads the final file is never handed out, not even to play
+  const sourceUrl = link.allow_download ? version.preview_url || version.final_url : version.preview_url;
+  const ttl = link.allow_download ? SIGNED_URL_TTL : STREAM_URL_TTL;
+
+  return {
+    project: { name: project?.name ?? '' },
+    version: {
+      versionNumber: version.version_number,
+      frameRate: Number(version.frame_rate),
+      playbackUrl: await signed(supabase, sourceUrl, { ttl }),
+      poster: version.preview_url ? await signed(supabase, media?.poster, { ttl }) : null,
+      sprite: version.preview_url && media?.sprite
+        ? { url: await signed(supabase, media.sprite.url, { ttl }), sheet: media.sprite }
+        : null
+    },
+    allowDownload: link.allow_download,
+    downloadUrl: link.allow_download ? await signed(supabase, version.final_url || sourceUrl, { download: true }) : null,
+    expiresAt: link.expires_at,
+    feedback: rows.map((item) => ({
+      id: item.id,
+      parentId: item.parent_id,
+      author: item.user_id ? names[item.user_id] ?? 'Team member' : `${item.guest_name} (guest)`,
+      isGuest: !item.user_id,
+      text: item.comment_text,
+      timestamp: item.timestamp_seconds === null ? null : Number(item.timestamp_seconds),
+      endTimestamp: item.end_seconds === null ? null : Number(item.end_seconds),
+      resolved: item.is_resolved,
+      createdAt: item.created_at
+    }))
+  };
+};
+
+const addComment = async (supabase: Client, link: ReviewLink, body: CommentBody) => {
+  const guestName = typeof body.guestName === 'string' ? body.guestName.trim() : '';
+  const text = typeof body.text === 'string' ? body.text.trim() : '';
+  if (!guestName || guestName.length > MAX_NAME_LENGTH) throw new HttpError(400, 'Please enter your name');
+  if (!text || text.length > MAX_COMMENT_LENGTH) throw new HttpError(400, 'Please enter a comment');
+
+  const { count, error: countError } = await supabase
+    .from('video_feedback')
+    .select('id', { count: 'exact', head: true })
+    .eq('review_link_id', link.id)
+    .gte('created_at', new Date(Date.now() - COMMENT_WINDOW_MS).toISOString());
+  if (countError) throw countError;
+  if ((count ?? 0) >= MAX_COMMENTS) {
+    throw new HttpError(429, 'Too many comments through this link. Please wait a few minutes and try again');
+  }
+
+  const isTime = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  let parentId: string | null = null;
+  if (body.parentId) {
+    // Replies stay within the version the link shares
+    const { data: parent } = await supabase
+      .from('video_feedback')
+      .select('id')
+      .eq('id', body.parentId)
+      .eq('version_id', link.version_id)
+      .is('parent_id', null)
+      .maybeSingle();
+    if (!parent) throw new HttpError(400, 'The comment being answered was not found');
+    parentId = parent.id;
+  }
+
+  const timestamp = !parentId && isTime(body.timestamp) ? (body.timestamp as number) : null;
+  const endTimestamp = timestamp !== null && isTime(body.endTimestamp) && (body.endTimestamp as number) > timestamp
+    ? (body.endTimestamp as number)
+    : null;
+
+  const { data: feedback, error } = await supabase
+    .from('video_feedback')
+    .insert({
+      version_id: link.version_id,
+      user_id: null,
+      guest_name: guestName,
+      review_link_id: link.id,
+      parent_id: parentId,
+      comment_text: text,
+      timestamp_seconds: timestamp,
+      end_seconds: endTimestamp
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  return { feedback };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json();
+    if (typeof body.token !== 'string' || !body.token) throw new HttpError(400, 'A review link token is required');
+
+    const { data } = await supabase
+      .from('review_links')
+      .select('*')
+      .eq('token', body.token)
+      .maybeSingle();
+    const link = data as ReviewLink | null;
+
+    if (!link) throw new HttpError(404, 'This review link does not exist');
+    if (link.revoked_at) throw new HttpError(410, 'This review link has been revoked');
+    if (link.expires_at && new Date(link.expires_at) <= new Date()) throw new HttpError(410, 'This review link has expired');
+
+    if (link.password_hash) {
+      if (typeof body.password !== 'string' || !body.password) {
+        throw new HttpError(401, 'This review link is password protected', { passwordRequired: true });
+      }
+      const { data: check, error } = await supabase.rpc('check_review_link_password', {
+        _link_id: link.id,
+        _password: body.password
+      });
+      if (error) throw error;
+      if (check === 'locked') {
+        throw new HttpError(429, 'Too many incorrect passwords. Please try again in 15 minutes', { passwordRequired: true });
+      }
+      if (check !== 'ok') throw new HttpError(401, 'Incorrect password', { passwordRequired: true });
+    }
+
+    const { data: version } = await supabase
+      .from('video_versions')
+      .select('id, project_id, version_number, preview_url, final_url, frame_rate, media')
+      .eq('id', link.version_id)
+      .single();
+    if (!version) throw new HttpError(404, 'This version no longer exists');
+
+    let result: Record<string, unknown>;
+    if (body.action === 'open') {
+      result = await openReview(supabase, link, version as Version);
+    } else if (body.action === 'comment') {
+      result = await addComment(supabase, link, body);
+    } else {
+      throw new HttpError(400, `Unknown action: ${body.action}`);
+    }
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    if (!(error instanceof HttpError)) console.error('Error in guest review:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof HttpError ? error.details : {})
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError ? error.status : 500
+      }
+    );
+  }
+});
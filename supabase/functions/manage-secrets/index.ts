@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { maskSecrets, rotateSecrets, sealSecrets, SECRET_FIELDS } from "../_shared/secrets.ts";
+import { SQL_PROVIDERS } from "../_shared/sql-gateway.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+// Admin-only access to settings that hold credentials. Secrets are write-only:
+// they are encrypted here before being stored and only ever returned masked.
+//
+// { action: 'get', key }                       -> { value, stored }
+// { action: 'save', key, value }               -> { success }
+// { action: 'save', key: 'database_config', provider, value }
+// { action: 'rotate' }                         -> { rotated }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type Settings = Record<string, unknown>;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (!isAdmin) throw new HttpError(403, 'Admin access required');
+
+    const logAction = (action: string, resourceType: string, resourceId: string, details: Settings) =>
+      supabase.from('admin_activity_logs').insert({
+        admin_id: user.id,
+        action,
+        resource_type: resourceType,
+        resource_id: resourceId,
+        details
+      });
+
+    const { action, key, value, provider } = await req.json();
+    let result: unknown;
+
+    switch (action) {
+      case 'get': {
+        if (!SECRET_FIELDS[key] || key === 'database_config') throw new HttpError(400, `Unknown setting: ${key}`);
+        const { data } = await supabase.from('app_settings').select('value').eq('key', key).maybeSingle();
+        result = maskSecrets(key, (data?.value as Settings) ?? null);
+        break;
+      }
+
+      case 'save': {
+        if (!SECRET_FIELDS[key]) throw new HttpError(400, `Unknown setting: ${key}`);
+        if (!value || typeof value !== 'object') throw new HttpError(400, 'A settings object is required');
+
+        const updatedSecrets = SECRET_FIELDS[key].filter((field) => typeof value[field] === 'string' && value[field] !== '');
+
+        if (key === 'database_config') {
+          if (!provider) throw new HttpError(400, 'A provider is required');
+
+          const { data: active } = await supabase
+            .from('database_config')
+            .select('id, provider, config')
+            .eq('is_active', true)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          // Blank secrets are only carried over when the provider and its gateway URL stay the same,
+          // so a stored token is never sent to another host
+          const activeConfig = (active?.config as Settings | undefined) ?? null;
+          const previous =
+            active?.provider === provider && activeConfig?.gatewayUrl === value.gatewayUrl ? activeConfig : null;
+          const config = await sealSecrets(key, value, previous);
+          if (SQL_PROVIDERS.includes(provider) && !config.accessToken) {
+            throw new HttpError(400, 'A gateway access token is required for this gateway URL');
+          }
+
+          // The newest active row wins, so inserting first never leaves the app without a config
+          const { data: inserted, error } = await supabase
+            .from('database_config')
+            .insert({ provider, config, is_active: true })
+            .select('id')
+            .single();
+          if (error) throw error;
+
+          const { error: deactivateError } = await supabase
+            .from('database_config')
+            .update({ is_active: false })
+            .eq('is_active', true)
+            .neq('id', inserted.id);
+          if (deactivateError) throw deactivateError;
+
+          await logAction('update_database_provider', 'database_config', inserted.id, {
+            provider,
+            previous_provider: active?.provider ?? null,
+            secrets_updated: updatedSecrets
+          });
+        } else {
+          const { data: existing } = await supabase.from('app_settings').select('value').eq('key', key).maybeSingle();
+          const sealed = await sealSecrets(key, value, (existing?.value as Settings) ?? null);
+
+          const { error } = existing
+            ? await supabase.from('app_settings').update({ value: sealed }).eq('key', key)
+            : await supabase.from('app_settings').insert({ key, value: sealed });
+          if (error) throw error;
+
+          await logAction('update_settings', 'app_settings', key, { secrets_updated: updatedSecrets });
+        }
+
+        result = { success: true };
+        break;
+      }
+
+      case 'rotate': {
+        let rotated = 0;
+
+        const { data: configs, error: configError } = await supabase.from('database_config').select('id, config');
+        if (configError) throw configError;
+        for (const row of configs || []) {
+          const config = await rotateSecrets('database_config', row.config as Settings);
+          if (!config) continue;
+          const { error } = await supabase.from('database_config').update({ config }).eq('id', row.id);
+          if (error) throw error;
+          rotated++;
+        }
+
+        const settingKeys = Object.keys(SECRET_FIELDS).filter((name) => name !== 'database_config');
+        const { data: settings, error: settingsError } = await supabase
+          .from('app_settings')
+          .select('key, value')
+          .in('key', settingKeys);
+        if (settingsError) throw settingsError;
+        for (const row of settings || []) {
+          const sealed = await rotateSecrets(row.key, row.value as Settings);
+          if (!sealed) continue;
+          const { error } = await supabase.from('app_settings').update({ value: sealed }).eq('key', row.key);
+          if (error) throw error;
+          rotated++;
+        }
+
+        await logAction('rotate_secrets', 'secrets', 'all', { rotated });
+        result = { rotated };
+        break;
+      }
+
+      default:
+        throw new HttpError(400, `Unknown action: ${action}`);
+    }
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Error managing secrets:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error, 'Unknown error') }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError ? error.status : 500
+      }
+    );
+  }
+});
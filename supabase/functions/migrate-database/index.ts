@@ -0,0 +1,349 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Rows } from "../_shared/sql-compiler.ts";
+import {
+  activeDatabaseConfig,
+  callGateway,
+  candidateGatewayCredentials,
+  SQL_PROVIDERS,
+  type GatewayCredentials
+} from "../_shared/sql-gateway.ts";
+import { openSecrets } from "../_shared/secrets.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+// Copies every table from the active provider into another one, then compares
+// the row counts of both sides. Runs with the service role, so no user's rows
+// are hidden by RLS. Admin only.
+//
+// Each call works for up to TIME_BUDGET_MS and returns where it stopped; the
+// client calls again with that checkpoint until `done`, which also resumes a
+// migration that was cut off.
+//
+// { provider, credentials, checkpoint? } -> { checkpoint, progress, done, mismatches? }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+interface MigrationTable {
+  name: string;
+  /** Columns that point at rows copied later (or at the same table); filled in after all tables are copied */
+  deferredColumns?: string[];
+  /** Columns the database computes itself, left out of the copy */
+  generatedColumns?: string[];
+}
+
+// Parents before children. database_config and app_settings stay on Supabase.
+const MIGRATION_TABLES: MigrationTable[] = [
+  { name: 'profiles' },
+  { name: 'user_roles' },
+  { name: 'editors' },
+  { name: 'clients' },
+  { name: 'project_types' },
+  { name: 'subscription_plans' },
+  { name: 'projects', deferredColumns: ['parent_project_id', 'invoice_id'] },
+  { name: 'project_clients' },
+  { name: 'approval_stages' },
+  { name: 'video_versions' },
+  { name: 'review_links', generatedColumns: ['has_password'] },
+  { name: 'approval_log' },
+  { name: 'video_feedback', deferredColumns: ['parent_id', 'carried_from_id'] },
+  { name: 'feedback_tasks' },
+  { name: 'messages', deferredColumns: ['reply_to_message_id'] },
+  { name: 'payments' },
+  { name: 'invoices' },
+  { name: 'invoice_projects' },
+  { name: 'transactions' },
+  { name: 'ai_conversations' },
+  { name: 'ai_messages' },
+  { name: 'api_keys' },
+  { name: 'notifications' },
+  { name: 'admin_activity_logs' },
+];
+
+const DEFERRED_TABLES = MIGRATION_TABLES.filter((table) => table.deferredColumns?.length);
+
+type Phase = 'copy' | 'relink' | 'verify';
+
+interface Checkpoint {
+  provider: string;
+  phase: Phase;
+  tableIndex: number;
+  lastId: string | null;
+  migratedRows: number;
+}
+
+interface Progress {
+  phase: Phase | 'done';
+  table: string;
+  tableIndex: number;
+  totalTables: number;
+  migratedRows: number;
+  totalRows: number;
+}
+
+interface Mismatch {
+  table: string;
+  source: number;
+  target: number;
+}
+
+const BATCH_SIZE = 500;
+const TIME_BUDGET_MS = 50_000;
+
+/** One side of the migration */
+interface Store {
+  count(table: string, nonNull?: string[]): Promise<number>;
+  /** The next rows after `afterId` in id order */
+  page(table: string, afterId: string | null, limit: number, nonNull?: string[]): Promise<Rows>;
+  /** Inserts rows with their ids, skipping rows that already exist */
+  import(table: string, rows: Rows): Promise<void>;
+  /** Sets `columns` on rows that already exist */
+  relink(table: string, columns: string[], rows: Rows): Promise<void>;
+}
+
+const supabaseStore = (supabase: SupabaseClient): Store => {
+  const anyNotNull = (columns: string[]) => columns.map((column) => `${column}.not.is.null`).join(',');
+
+  return {
+    async count(table, nonNull = []) {
+      let query = supabase.from(table).select('*', { count: 'exact', head: true });
+      if (nonNull.length) query = query.or(anyNotNull(nonNull));
+      const { count, error } = await query;
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async page(table, afterId, limit, nonNull = []) {
+      let query = supabase.from(table).select('*').order('id', { ascending: true }).limit(limit);
+      if (afterId) query = query.gt('id', afterId);
+      if (nonNull.length) query = query.or(anyNotNull(nonNull));
+      const { data, error } = await query;
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async import(table, rows) {
+      const { error } = await supabase.from(table).upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw error;
+    },
+
+    async relink(table, columns, rows) {
+      // execute_batch applies all of the updates in one call and one transaction
+      const operations = rows.map((row) => ({
+        collection: table,
+        operation: 'update',
+        where: { id: row.id },
+        data: Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))
+      }));
+      const { error } = await supabase.rpc('execute_batch', { operations });
+      if (error) throw error;
+    }
+  };
+};
+
+const gatewayStore = (credentials: GatewayCredentials): Store => ({
+  async count(collection, nonNull) {
+    const { count } = await callGateway<{ count: number }>(credentials, { action: 'count', collection, nonNull });
+    return count;
+  },
+
+  async page(collection, afterId, limit, nonNull) {
+    const { rows } = await callGateway<{ rows: Rows }>(credentials, { action: 'page', collection, afterId, limit, nonNull });
+    return rows;
+  },
+
+  async import(collection, rows) {
+    await callGateway(credentials, { action: 'import', collection, rows });
+  },
+
+  async relink(collection, columns, rows) {
+    await callGateway(credentials, { action: 'relink', collection, columns, rows });
+  }
+});
+
+const withoutColumns = (row: Rows[number], columns: string[]) => {
+  const copy = { ...row };
+  columns.forEach((column) => {
+    delete copy[column];
+  });
+  return copy;
+};
+
+const nullColumns = (row: Rows[number], columns: string[]) => {
+  const copy = { ...row };
+  columns.forEach((column) => {
+    if (column in copy) copy[column] = null;
+  });
+  return copy;
+};
+
+const tablesOf = (phase: Phase) => (phase === 'relink' ? DEFERRED_TABLES : MIGRATION_TABLES);
+
+const nextPhase: Record<Phase, Phase | null> = { copy: 'relink', relink: 'verify', verify: null };
+
+const isCheckpoint = (value: unknown, provider: string): value is Checkpoint => {
+  const checkpoint = value as Checkpoint | null;
+  return (
+    !!checkpoint &&
+    checkpoint.provider === provider &&
+    ['copy', 'relink', 'verify'].includes(checkpoint.phase) &&
+    Number.isInteger(checkpoint.tableIndex) &&
+    checkpoint.tableIndex >= 0
+  );
+};
+
+/**
+ * Works through the checkpoint until the time budget is spent. Every batch is
+ * written with import(), which skips rows that already exist, so repeating a
+ * batch after an interruption is harmless.
+ */
+const migrate = async (source: Store, target: Store, start: Checkpoint, deadline: number) => {
+  let checkpoint = start;
+  let progress: Progress | null = null;
+  const totals = new Map<string, number>();
+
+  while (Date.now() < deadline) {
+    const { phase, tableIndex } = checkpoint;
+    const tables = tablesOf(phase);
+
+    if (phase === 'verify') {
+      const mismatches: Mismatch[] = [];
+      for (const table of MIGRATION_TABLES) {
+        const [sourceCount, targetCount] = await Promise.all([source.count(table.name), target.count(table.name)]);
+        if (sourceCount !== targetCount) {
+          mismatches.push({ table: table.name, source: sourceCount, target: targetCount });
+        }
+      }
+      const done: Progress = {
+        phase: 'done',
+        table: '',
+        tableIndex: MIGRATION_TABLES.length,
+        totalTables: MIGRATION_TABLES.length,
+        migratedRows: 0,
+        totalRows: 0
+      };
+      return { checkpoint: null, progress: done, done: mismatches.length === 0, mismatches };
+    }
+
+    if (tableIndex >= tables.length) {
+      checkpoint = { provider: checkpoint.provider, phase: nextPhase[phase]!, tableIndex: 0, lastId: null, migratedRows: 0 };
+      continue;
+    }
+
+    const table = tables[tableIndex];
+    const nonNull = phase === 'relink' ? table.deferredColumns! : [];
+    const totalKey = `${phase}:${table.name}`;
+    if (!totals.has(totalKey)) totals.set(totalKey, await source.count(table.name, nonNull));
+
+    const rows = await source.page(table.name, checkpoint.lastId, BATCH_SIZE, nonNull);
+    if (rows.length > 0) {
+      if (phase === 'copy') {
+        await target.import(
+          table.name,
+          rows.map((row) => nullColumns(withoutColumns(row, table.generatedColumns || []), table.deferredColumns || []))
+        );
+      } else {
+        await target.relink(table.name, table.deferredColumns!, rows);
+      }
+    }
+
+    const migratedRows = checkpoint.migratedRows + rows.length;
+    progress = {
+      phase,
+      table: table.name,
+      tableIndex,
+      totalTables: tables.length,
+      migratedRows,
+      totalRows: totals.get(totalKey)!
+    };
+    checkpoint = rows.length < BATCH_SIZE
+      ? { ...checkpoint, tableIndex: tableIndex + 1, lastId: null, migratedRows: 0 }
+      : { ...checkpoint, lastId: rows[rows.length - 1].id as string, migratedRows };
+  }
+
+  return { checkpoint, progress, done: false };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const deadline = Date.now() + TIME_BUDGET_MS;
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (!isAdmin) throw new HttpError(403, 'Admin access required');
+
+    const { provider, credentials, checkpoint } = await req.json();
+    if (provider !== 'supabase' && !SQL_PROVIDERS.includes(provider)) {
+      throw new HttpError(400, `The ${provider} provider is not supported yet`);
+    }
+
+    const active = await activeDatabaseConfig(supabase);
+    const activeProvider = active?.provider ?? 'supabase';
+    if (activeProvider === provider) throw new HttpError(400, `${provider} is already the active provider`);
+
+    const source = activeProvider === 'supabase'
+      ? supabaseStore(supabase)
+      : gatewayStore(await candidateGatewayCredentials(supabase, activeProvider, await openSecrets('database_config', active!.config)));
+
+    let target: Store;
+    if (provider === 'supabase') {
+      target = supabaseStore(supabase);
+    } else {
+      const gateway = await candidateGatewayCredentials(supabase, provider, credentials || {});
+      target = gatewayStore(gateway);
+
+      if (!isCheckpoint(checkpoint, provider)) {
+        const { tables } = await callGateway<{ tables: string[] }>(gateway, { action: 'tables' });
+        const missing = MIGRATION_TABLES.map((table) => table.name).filter((name) => !tables.includes(name));
+        if (missing.length) {
+          throw new HttpError(
+            409,
+            `The ${provider} database is missing ${missing.join(', ')}. Apply supabase/sql-targets/${provider}.sql to it first`
+          );
+        }
+      }
+    }
+
+    const start: Checkpoint = isCheckpoint(checkpoint, provider)
+      ? checkpoint
+      : { provider, phase: 'copy', tableIndex: 0, lastId: null, migratedRows: 0 };
+
+    const result = await migrate(source, target, start, deadline);
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Database migration error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error, 'Unknown error') }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError ? error.status : 500
+      }
+    );
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { openSecrets } from "../_shared/secrets.ts";
 import { createHmac } from "https://deno.land/std@0.177.0/node/crypto.ts";
 
 const corsHeaders = {
@@ -27,15 +28,16 @@ serve(async (req) => {
       .eq('key', 'razorpay_config')
       .single();
 
-    if (!config || !(config.value as any).key_secret) {
+    const { key_secret: razorpayKeySecret } =
+      await openSecrets('razorpay_config', (config?.value as any) ?? null);
+
+    if (!razorpayKeySecret) {
       throw new Error('Razorpay not configured');
     }
 
-    const razorpayKeySecret = (config.value as any).key_secret;
-
     // Verify signature
     const text = `${razorpay_order_id}|${razorpay_payment_id}`;
-    const generated_signature = createHmac('sha256', razorpayKeySecret)
+    const generated_signature = createHmac('sha256', razorpayKeySecret as string)
       .update(text)
       .digest('hex');
 
@@ -0,0 +1,91 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Confirms that a version file uploaded to the project-videos bucket is byte-for-byte
+// the file the uploader hashed. The object is streamed through SHA-256 so large
+// videos are never held in memory. A mismatching object is deleted, but only when
+// the caller is the one who uploaded it.
+//
+// { path, sha256 } -> { verified }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'project-videos';
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    const { path, sha256 } = await req.json();
+    if (typeof path !== 'string' || typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(sha256)) {
+      throw new HttpError(400, 'A path and a hex SHA-256 are required');
+    }
+    if (path.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')) {
+      throw new HttpError(400, 'Invalid path');
+    }
+
+    const projectId = path.split('/')[0];
+    const { data: isMember } = await supabase.rpc('is_project_member', { _project_id: projectId, _user_id: user.id });
+    if (!isMember) throw new HttpError(403, 'Not a member of this project');
+
+    const response = await fetch(
+      `${supabaseUrl}/storage/v1/object/${BUCKET}/${path.split('/').map(encodeURIComponent).join('/')}`,
+      { headers: { Authorization: `Bearer ${serviceRoleKey}` } }
+    );
+    if (response.status === 404 || response.status === 400) throw new HttpError(404, 'Uploaded file not found');
+    if (!response.ok || !response.body) throw new Error(`Storage responded with ${response.status}`);
+
+    const digest = toHex(await crypto.subtle.digest('SHA-256', response.body));
+    const verified = digest === sha256.toLowerCase();
+
+    if (!verified) {
+      console.error(`Checksum mismatch for ${path}: expected ${sha256}, got ${digest}`);
+      // Someone else's file is reported as unverified and left alone
+      const { data: owner, error } = await supabase.rpc('project_video_owner', { _name: path });
+      if (error) throw error;
+      if (owner === user.id) {
+        await supabase.storage.from(BUCKET).remove([path]);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ verified }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+  } catch (error) {
+    console.error('Error verifying upload:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError ? error.status : 500
+      }
+    );
+  }
+});
@@ -0,0 +1,13 @@
+-- Allow admins to switch the active database provider
+CREATE POLICY "Admins can manage database config"
+ON public.database_config
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+DROP TRIGGER IF EXISTS update_database_config_updated_at ON public.database_config;
+CREATE TRIGGER update_database_config_updated_at
+BEFORE UPDATE ON public.database_config
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,135 @@
+-- Atomic batch writes for db.transaction() on Supabase.
+-- Runs as the calling user (SECURITY INVOKER) so row level security still applies;
+-- any failing operation aborts the call and rolls back every earlier one.
+
+-- Compiles a flat where object ({ column: value } or { column: { eq, neq, gt, gte, lt, lte, in, like, ilike, is } })
+CREATE OR REPLACE FUNCTION public.batch_where_sql(_where JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _column TEXT;
+  _condition JSONB;
+  _operator TEXT;
+  _value JSONB;
+  _parts TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  FOR _column, _condition IN SELECT key, value FROM jsonb_each(COALESCE(_where, '{}'::jsonb)) LOOP
+    IF _column IN ('and', 'or') THEN
+      RAISE EXCEPTION 'Nested where clauses are not supported in batch operations';
+    END IF;
+
+    IF jsonb_typeof(_condition) <> 'object' THEN
+      _condition := jsonb_build_object('eq', _condition);
+    END IF;
+
+    FOR _operator, _value IN SELECT key, value FROM jsonb_each(_condition) LOOP
+      _parts := _parts || CASE
+        WHEN jsonb_typeof(_value) = 'null' AND _operator IN ('eq', 'is') THEN format('%I IS NULL', _column)
+        WHEN jsonb_typeof(_value) = 'null' AND _operator = 'neq' THEN format('%I IS NOT NULL', _column)
+        WHEN _operator = 'is' THEN format('%I IS %s', _column, CASE WHEN _value = 'true'::jsonb THEN 'TRUE' ELSE 'FALSE' END)
+        WHEN _operator = 'eq' THEN format('%I = %L', _column, _value #>> '{}')
+        WHEN _operator = 'neq' THEN format('%I <> %L', _column, _value #>> '{}')
+        WHEN _operator = 'gt' THEN format('%I > %L', _column, _value #>> '{}')
+        WHEN _operator = 'gte' THEN format('%I >= %L', _column, _value #>> '{}')
+        WHEN _operator = 'lt' THEN format('%I < %L', _column, _value #>> '{}')
+        WHEN _operator = 'lte' THEN format('%I <= %L', _column, _value #>> '{}')
+        WHEN _operator = 'like' THEN format('%I LIKE %L', _column, _value #>> '{}')
+        WHEN _operator = 'ilike' THEN format('%I ILIKE %L', _column, _value #>> '{}')
+        WHEN _operator = 'in' THEN format(
+          '%I = ANY(%L)',
+          _column,
+          COALESCE((SELECT array_agg(item)::TEXT FROM jsonb_array_elements_text(_value) AS item), '{}')
+        )
+      END;
+
+      IF _parts[array_length(_parts, 1)] IS NULL THEN
+        RAISE EXCEPTION 'Unsupported filter operator: %', _operator;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN array_to_string(_parts, ' AND ');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.execute_batch(operations JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _operation JSONB;
+  _collection TEXT;
+  _data JSONB;
+  _rows JSONB;
+  _columns TEXT;
+  _where TEXT;
+  _result JSONB;
+  _results JSONB := '[]'::jsonb;
+BEGIN
+  FOR _operation IN SELECT value FROM jsonb_array_elements(operations) LOOP
+    _collection := _operation->>'collection';
+    _data := _operation->'data';
+    _where := public.batch_where_sql(_operation->'where');
+    _result := NULL;
+
+    CASE _operation->>'operation'
+      WHEN 'insert' THEN
+        _rows := CASE WHEN jsonb_typeof(_data) = 'array' THEN _data ELSE jsonb_build_array(_data) END;
+
+        SELECT string_agg(DISTINCT format('%I', key), ', ')
+        INTO _columns
+        FROM jsonb_array_elements(_rows) AS row_data, jsonb_object_keys(row_data) AS key;
+
+        IF _columns IS NULL THEN
+          RAISE EXCEPTION 'Insert requires data';
+        END IF;
+
+        EXECUTE format(
+          'WITH inserted AS (INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1) RETURNING *) '
+          'SELECT to_jsonb(inserted) FROM inserted LIMIT 1',
+          _collection, _columns
+        ) INTO _result USING _rows;
+
+      WHEN 'update' THEN
+        IF _where = '' THEN
+          RAISE EXCEPTION 'Update requires where clause';
+        END IF;
+
+        SELECT string_agg(format('%I', key), ', ')
+        INTO _columns
+        FROM jsonb_object_keys(COALESCE(_data, '{}'::jsonb)) AS key;
+
+        IF _columns IS NULL THEN
+          RAISE EXCEPTION 'Update requires data';
+        END IF;
+
+        EXECUTE format(
+          'WITH updated AS (UPDATE public.%1$I SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)) WHERE %3$s RETURNING *) '
+          'SELECT to_jsonb(updated) FROM updated LIMIT 1',
+          _collection, _columns, _where
+        ) INTO _result USING _data;
+
+      WHEN 'delete' THEN
+        IF _where = '' THEN
+          RAISE EXCEPTION 'Delete requires where clause';
+        END IF;
+
+        EXECUTE format('DELETE FROM public.%I WHERE %s', _collection, _where);
+
+      ELSE
+        RAISE EXCEPTION 'Unsupported batch operation: %', _operation->>'operation';
+    END CASE;
+
+    _results := _results || jsonb_build_array(_result);
+  END LOOP;
+
+  RETURN _results;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.execute_batch(JSONB) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Columns the chat UI already reads and writes (replies, attachments, edits, reactions)
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS reply_to_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS attachment_url TEXT,
+ADD COLUMN IF NOT EXISTS attachment_type TEXT,
+ADD COLUMN IF NOT EXISTS edited BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS reactions JSONB DEFAULT '{}'::jsonb;
\ No newline at end of file
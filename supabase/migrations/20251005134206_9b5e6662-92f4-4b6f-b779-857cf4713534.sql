@@ -0,0 +1,127 @@
+-- Aggregates (count/sum/avg/min/max with optional group by) for db.query({ operation: 'aggregate' }).
+-- PostgREST aggregate functions are disabled on Supabase, so they go through an RPC
+-- that runs as the calling user and therefore still respects row level security.
+
+-- Compiles a where object, now including nested `and` / `or` groups
+CREATE OR REPLACE FUNCTION public.batch_where_sql(_where JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _column TEXT;
+  _condition JSONB;
+  _operator TEXT;
+  _value JSONB;
+  _groups TEXT[];
+  _parts TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  FOR _column, _condition IN SELECT key, value FROM jsonb_each(COALESCE(_where, '{}'::jsonb)) LOOP
+    IF _column IN ('and', 'or') THEN
+      SELECT array_agg(format('(%s)', COALESCE(NULLIF(public.batch_where_sql(clause), ''), 'TRUE')))
+      INTO _groups
+      FROM jsonb_array_elements(_condition) AS clause;
+
+      IF _groups IS NOT NULL THEN
+        _parts := _parts || format(
+          '(%s)',
+          array_to_string(_groups, CASE WHEN _column = 'and' THEN ' AND ' ELSE ' OR ' END)
+        );
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF jsonb_typeof(_condition) <> 'object' THEN
+      _condition := jsonb_build_object('eq', _condition);
+    END IF;
+
+    FOR _operator, _value IN SELECT key, value FROM jsonb_each(_condition) LOOP
+      _parts := _parts || CASE
+        WHEN jsonb_typeof(_value) = 'null' AND _operator IN ('eq', 'is') THEN format('%I IS NULL', _column)
+        WHEN jsonb_typeof(_value) = 'null' AND _operator = 'neq' THEN format('%I IS NOT NULL', _column)
+        WHEN _operator = 'is' THEN format('%I IS %s', _column, CASE WHEN _value = 'true'::jsonb THEN 'TRUE' ELSE 'FALSE' END)
+        WHEN _operator = 'eq' THEN format('%I = %L', _column, _value #>> '{}')
+        WHEN _operator = 'neq' THEN format('%I <> %L', _column, _value #>> '{}')
+        WHEN _operator = 'gt' THEN format('%I > %L', _column, _value #>> '{}')
+        WHEN _operator = 'gte' THEN format('%I >= %L', _column, _value #>> '{}')
+        WHEN _operator = 'lt' THEN format('%I < %L', _column, _value #>> '{}')
+        WHEN _operator = 'lte' THEN format('%I <= %L', _column, _value #>> '{}')
+        WHEN _operator = 'like' THEN format('%I LIKE %L', _column, _value #>> '{}')
+        WHEN _operator = 'ilike' THEN format('%I ILIKE %L', _column, _value #>> '{}')
+        WHEN _operator = 'in' THEN format(
+          '%I = ANY(%L)',
+          _column,
+          COALESCE((SELECT array_agg(item)::TEXT FROM jsonb_array_elements_text(_value) AS item), '{}')
+        )
+      END;
+
+      IF _parts[array_length(_parts, 1)] IS NULL THEN
+        RAISE EXCEPTION 'Unsupported filter operator: %', _operator;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN array_to_string(_parts, ' AND ');
+END;
+$$;
+
+-- _aggregates maps result aliases to { "<function>": "<column>" }, e.g. { "total": { "sum": "fee" }, "projects": { "count": "*" } }
+CREATE OR REPLACE FUNCTION public.execute_aggregate(
+  _collection TEXT,
+  _aggregates JSONB,
+  _where JSONB DEFAULT NULL,
+  _group_by TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _alias TEXT;
+  _expression JSONB;
+  _function TEXT;
+  _column TEXT;
+  _select TEXT[] := ARRAY[]::TEXT[];
+  _groups TEXT;
+  _filter TEXT := public.batch_where_sql(_where);
+  _result JSONB;
+BEGIN
+  SELECT string_agg(format('%I', column_name), ', ')
+  INTO _groups
+  FROM unnest(_group_by) AS column_name;
+
+  FOR _alias, _expression IN SELECT key, value FROM jsonb_each(COALESCE(_aggregates, '{}'::jsonb)) LOOP
+    SELECT key, value #>> '{}' INTO _function, _column FROM jsonb_each(_expression) LIMIT 1;
+
+    IF _function IS NULL OR _function NOT IN ('count', 'sum', 'avg', 'min', 'max') THEN
+      RAISE EXCEPTION 'Unsupported aggregate function: %', _function;
+    END IF;
+
+    _select := _select || format(
+      '%s(%s) AS %I',
+      _function,
+      CASE WHEN _function = 'count' AND _column = '*' THEN '*' ELSE format('%I', _column) END,
+      _alias
+    );
+  END LOOP;
+
+  IF array_length(_select, 1) IS NULL THEN
+    RAISE EXCEPTION 'Aggregate requires at least one aggregate';
+  END IF;
+
+  EXECUTE format(
+    'SELECT COALESCE(jsonb_agg(to_jsonb(result)), ''[]''::jsonb) FROM (SELECT %s FROM public.%I%s%s) AS result',
+    concat_ws(', ', _groups, array_to_string(_select, ', ')),
+    _collection,
+    CASE WHEN _filter = '' THEN '' ELSE ' WHERE ' || _filter END,
+    CASE WHEN _groups IS NULL THEN '' ELSE ' GROUP BY ' || _groups || ' ORDER BY ' || _groups END
+  ) INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.execute_aggregate(TEXT, JSONB, JSONB, TEXT[]) TO authenticated;
\ No newline at end of file
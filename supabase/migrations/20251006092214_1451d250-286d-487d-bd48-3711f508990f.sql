@@ -0,0 +1,41 @@
+-- Provider credentials in database_config are encrypted by the manage-secrets
+-- edge function and must not be readable by every user any more
+DROP POLICY IF EXISTS "Anyone can view database config" ON public.database_config;
+
+-- Everyone still needs to know which provider is active; secret fields are
+-- reported by name only. Keep in sync with SECRET_FIELDS in
+-- supabase/functions/_shared/secrets.ts
+CREATE OR REPLACE FUNCTION public.get_active_database_config()
+RETURNS TABLE (provider text, config jsonb, is_active boolean, stored_secrets text[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _secret_fields text[] := ARRAY['accessToken'];
+  _row public.database_config%ROWTYPE;
+BEGIN
+  SELECT * INTO _row
+  FROM public.database_config
+  WHERE database_config.is_active
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT
+    _row.provider,
+    _row.config - _secret_fields,
+    _row.is_active,
+    ARRAY(
+      SELECT field FROM unnest(_secret_fields) AS field
+      WHERE _row.config ? field AND _row.config->>field <> ''
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_active_database_config() FROM public;
+GRANT EXECUTE ON FUNCTION public.get_active_database_config() TO authenticated;
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Vector drawings (rectangles, arrows, freehand strokes) attached to a comment.
+-- Coordinates are 0-1 relative to the video frame at timestamp_seconds.
+ALTER TABLE public.video_feedback
+ADD COLUMN IF NOT EXISTS annotations jsonb;
+
+ALTER TABLE public.video_feedback
+DROP CONSTRAINT IF EXISTS video_feedback_annotations_is_array;
+
+ALTER TABLE public.video_feedback
+ADD CONSTRAINT video_feedback_annotations_is_array
+CHECK (annotations IS NULL OR jsonb_typeof(annotations) = 'array');
\ No newline at end of file
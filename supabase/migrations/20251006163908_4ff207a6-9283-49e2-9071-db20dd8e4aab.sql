@@ -0,0 +1,11 @@
+-- Range comments: timestamp_seconds is the in point, end_seconds the out point.
+-- Point comments keep end_seconds NULL.
+ALTER TABLE public.video_feedback
+ADD COLUMN IF NOT EXISTS end_seconds numeric;
+
+ALTER TABLE public.video_feedback
+DROP CONSTRAINT IF EXISTS video_feedback_range_order;
+
+ALTER TABLE public.video_feedback
+ADD CONSTRAINT video_feedback_range_order
+CHECK (end_seconds IS NULL OR (timestamp_seconds IS NOT NULL AND end_seconds > timestamp_seconds));
\ No newline at end of file
@@ -0,0 +1,200 @@
+-- Threaded replies, @mentions and a two-step resolution workflow for video feedback
+
+-- Everyone working on a project: its creator, the assigned editor and its clients
+CREATE OR REPLACE FUNCTION public.is_project_member(_project_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    LEFT JOIN public.editors e ON e.id = p.editor_id
+    LEFT JOIN public.clients c ON c.id = p.client_id
+    WHERE p.id = _project_id
+      AND (p.creator_id = _user_id OR e.user_id = _user_id OR c.user_id = _user_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.project_clients pc
+    JOIN public.clients c ON c.id = pc.client_id
+    WHERE pc.project_id = _project_id AND c.user_id = _user_id
+  );
+$$;
+
+ALTER TABLE public.video_feedback
+ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.video_feedback(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS mentions uuid[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS resolved_by uuid,
+ADD COLUMN IF NOT EXISTS resolved_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS video_feedback_parent_id_idx ON public.video_feedback(parent_id);
+
+-- Editors and clients take part in the discussion, not only the project creator
+DROP POLICY IF EXISTS "Users can view feedback for their projects" ON public.video_feedback;
+CREATE POLICY "Users can view feedback for their projects"
+ON public.video_feedback FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = video_feedback.version_id
+    AND public.is_project_member(vv.project_id, auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users can add feedback for their projects" ON public.video_feedback;
+CREATE POLICY "Users can add feedback for their projects"
+ON public.video_feedback FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = video_feedback.version_id
+    AND public.is_project_member(vv.project_id, auth.uid())
+  )
+);
+
+-- In-app notifications
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_created_at_idx ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+ON public.notifications FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+ON public.notifications FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications"
+ON public.notifications FOR DELETE
+USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Mentioned project members and the author of the comment being answered get notified.
+-- Runs as definer because users cannot insert notifications for each other.
+CREATE OR REPLACE FUNCTION public.notify_feedback_participants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _author text;
+  _link text;
+  _excerpt text;
+  _parent_author uuid;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = NEW.version_id;
+  SELECT coalesce(full_name, email) INTO _author FROM public.profiles WHERE id = NEW.user_id;
+  _link := '/video-preview/' || NEW.version_id;
+  _excerpt := left(NEW.comment_text, 140);
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT DISTINCT mentioned, 'feedback_mention', coalesce(_author, 'Someone') || ' mentioned you', _excerpt, _link
+  FROM unnest(NEW.mentions) AS mentioned
+  WHERE mentioned <> NEW.user_id
+    AND public.is_project_member(_project_id, mentioned);
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO _parent_author FROM public.video_feedback WHERE id = NEW.parent_id;
+    IF _parent_author IS NOT NULL AND _parent_author <> NEW.user_id AND NOT _parent_author = ANY (NEW.mentions) THEN
+      INSERT INTO public.notifications (user_id, type, title, body, link)
+      VALUES (_parent_author, 'feedback_reply', coalesce(_author, 'Someone') || ' replied to your comment', _excerpt, _link);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_feedback_participants ON public.video_feedback;
+CREATE TRIGGER notify_feedback_participants
+AFTER INSERT ON public.video_feedback
+FOR EACH ROW EXECUTE FUNCTION public.notify_feedback_participants();
+
+-- resolve: a project member (usually the editor) marks a comment as addressed.
+--          When the author does it themselves it counts as confirmed straight away.
+-- confirm: only the author can close a comment someone else resolved.
+-- reopen:  the author, or whoever resolved it, puts it back to open.
+CREATE OR REPLACE FUNCTION public.set_feedback_resolution(_feedback_id uuid, _action text)
+RETURNS public.video_feedback
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feedback public.video_feedback%ROWTYPE;
+  _project_id uuid;
+  _actor text;
+BEGIN
+  SELECT * INTO _feedback FROM public.video_feedback WHERE id = _feedback_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feedback not found';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _feedback.version_id;
+  IF NOT public.is_project_member(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this project';
+  END IF;
+
+  IF _action = 'resolve' THEN
+    UPDATE public.video_feedback
+    SET resolved_by = auth.uid(), resolved_at = now(), is_resolved = (user_id = auth.uid())
+    WHERE id = _feedback_id
+    RETURNING * INTO _feedback;
+
+    IF _feedback.user_id <> auth.uid() THEN
+      SELECT coalesce(full_name, email) INTO _actor FROM public.profiles WHERE id = auth.uid();
+      INSERT INTO public.notifications (user_id, type, title, body, link)
+      VALUES (
+        _feedback.user_id,
+        'feedback_resolved',
+        coalesce(_actor, 'Someone') || ' marked your comment as done',
+        left(_feedback.comment_text, 140),
+        '/video-preview/' || _feedback.version_id
+      );
+    END IF;
+  ELSIF _action = 'confirm' THEN
+    IF _feedback.user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can confirm a resolution';
+    END IF;
+    IF _feedback.resolved_by IS NULL THEN
+      RAISE EXCEPTION 'This comment has not been resolved yet';
+    END IF;
+
+    UPDATE public.video_feedback SET is_resolved = true
+    WHERE id = _feedback_id
+    RETURNING * INTO _feedback;
+  ELSIF _action = 'reopen' THEN
+    IF auth.uid() <> _feedback.user_id AND auth.uid() IS DISTINCT FROM _feedback.resolved_by THEN
+      RAISE EXCEPTION 'Only the author or the resolver can reopen this comment';
+    END IF;
+
+    UPDATE public.video_feedback
+    SET is_resolved = false, resolved_by = NULL, resolved_at = NULL
+    WHERE id = _feedback_id
+    RETURNING * INTO _feedback;
+  ELSE
+    RAISE EXCEPTION 'Unknown resolution action: %', _action;
+  END IF;
+
+  RETURN _feedback;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_feedback_resolution(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_project_member(uuid, uuid) TO authenticated;
\ No newline at end of file
@@ -0,0 +1,96 @@
+-- Carrying unresolved feedback over to a new version, and checking it off there
+
+-- A carried comment points at the one it was copied from, so a comment's history
+-- across versions is the chain of carried_from_id links.
+-- addressed stays NULL until someone answers "addressed in this version?".
+ALTER TABLE public.video_feedback
+ADD COLUMN IF NOT EXISTS carried_from_id uuid REFERENCES public.video_feedback(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS addressed boolean,
+ADD COLUMN IF NOT EXISTS addressed_by uuid,
+ADD COLUMN IF NOT EXISTS addressed_at timestamp with time zone;
+
+-- A comment is carried into a given version at most once
+CREATE UNIQUE INDEX IF NOT EXISTS video_feedback_carried_once_idx
+ON public.video_feedback(version_id, carried_from_id)
+WHERE carried_from_id IS NOT NULL;
+
+-- Copies the open top-level comments of one version onto another version of the same project.
+-- Mentions are not copied so nobody is notified twice. Returns how many were carried.
+CREATE OR REPLACE FUNCTION public.carry_forward_feedback(_from_version_id uuid, _to_version_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _carried integer;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _from_version_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.video_versions WHERE id = _to_version_id AND project_id = _project_id) THEN
+    RAISE EXCEPTION 'Both versions must belong to the same project';
+  END IF;
+
+  IF NOT public.is_project_member(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this project';
+  END IF;
+
+  INSERT INTO public.video_feedback (
+    version_id, user_id, comment_text, timestamp_seconds, end_seconds, annotations, carried_from_id, created_at
+  )
+  SELECT _to_version_id, f.user_id, f.comment_text, f.timestamp_seconds, f.end_seconds, f.annotations, f.id, f.created_at
+  FROM public.video_feedback f
+  WHERE f.version_id = _from_version_id
+    AND f.parent_id IS NULL
+    AND f.is_resolved IS NOT TRUE
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _carried = ROW_COUNT;
+  RETURN _carried;
+END;
+$$;
+
+-- Answers "addressed in this version?" on a carried comment. Yes also marks it as done,
+-- which leaves the author to confirm as with any other resolution.
+CREATE OR REPLACE FUNCTION public.set_feedback_addressed(_feedback_id uuid, _addressed boolean)
+RETURNS public.video_feedback
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feedback public.video_feedback%ROWTYPE;
+  _project_id uuid;
+BEGIN
+  SELECT * INTO _feedback FROM public.video_feedback WHERE id = _feedback_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feedback not found';
+  END IF;
+  IF _feedback.carried_from_id IS NULL THEN
+    RAISE EXCEPTION 'Only carried feedback can be checked off';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _feedback.version_id;
+  IF NOT public.is_project_member(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this project';
+  END IF;
+
+  UPDATE public.video_feedback
+  SET addressed = _addressed, addressed_by = auth.uid(), addressed_at = now()
+  WHERE id = _feedback_id
+  RETURNING * INTO _feedback;
+
+  IF _addressed AND _feedback.resolved_by IS NULL THEN
+    _feedback := public.set_feedback_resolution(_feedback_id, 'resolve');
+  END IF;
+
+  RETURN _feedback;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.carry_forward_feedback(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_feedback_addressed(uuid, boolean) TO authenticated;
\ No newline at end of file
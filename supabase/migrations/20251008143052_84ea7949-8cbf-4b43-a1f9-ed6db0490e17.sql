@@ -0,0 +1,4 @@
+-- Frame rate of each version, for frame stepping and SMPTE timecode in review
+ALTER TABLE public.video_versions
+ADD COLUMN IF NOT EXISTS frame_rate numeric(6,3) NOT NULL DEFAULT 24
+CONSTRAINT video_versions_frame_rate_range CHECK (frame_rate > 0 AND frame_rate <= 240);
\ No newline at end of file
@@ -0,0 +1,58 @@
+-- Version files uploaded to Storage instead of linked from elsewhere.
+-- Objects live at <project_id>/<upload_id>/<file name> in a private bucket and are played
+-- through short-lived signed URLs. A version's preview_url / final_url then holds
+-- "storage://project-videos/<path>".
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('project-videos', 'project-videos', false, 53687091200)
+ON CONFLICT (id) DO NOTHING;
+
+-- Project an object belongs to, from the first folder of its path
+CREATE OR REPLACE FUNCTION public.storage_object_project_id(_name text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN split_part(_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN split_part(_name, '/', 1)::uuid
+  END;
+$$;
+
+CREATE POLICY "Project members can view project videos"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'project-videos'
+  AND public.is_project_member(public.storage_object_project_id(name), auth.uid())
+);
+
+CREATE POLICY "Project members can upload project videos"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'project-videos'
+  AND public.is_project_member(public.storage_object_project_id(name), auth.uid())
+);
+
+-- Resumable uploads update the object as chunks arrive
+CREATE POLICY "Uploaders can update their project videos"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'project-videos' AND owner = auth.uid());
+
+CREATE POLICY "Uploaders and project creators can delete project videos"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'project-videos'
+  AND (
+    owner = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = public.storage_object_project_id(name)
+      AND p.creator_id = auth.uid()
+    )
+  )
+);
+
+-- SHA-256 of the uploaded file as computed by the uploader and confirmed by verify-upload
+ALTER TABLE public.video_versions
+ADD COLUMN IF NOT EXISTS preview_sha256 text,
+ADD COLUMN IF NOT EXISTS final_sha256 text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Poster frame, hover-scrub sprite sheet and audio waveform generated in the browser
+-- when a version is added. The files sit next to the version's uploads in the
+-- project-videos bucket; this column records where they are and how the sprite is laid out.
+ALTER TABLE public.video_versions
+ADD COLUMN IF NOT EXISTS media jsonb;
\ No newline at end of file
@@ -0,0 +1,286 @@
+-- Guest review links: anyone with a version's link (and its password, if one is set) can
+-- watch that version and comment under a guest name without an account. Guests never
+-- touch the tables directly; the guest-review edge function checks the link and acts
+-- with the service role.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- The people who run a project: its creator and the assigned editor
+CREATE OR REPLACE FUNCTION public.can_manage_project(_project_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    LEFT JOIN public.editors e ON e.id = p.editor_id
+    WHERE p.id = _project_id
+      AND (p.creator_id = _user_id OR e.user_id = _user_id)
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS public.review_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid NOT NULL REFERENCES public.video_versions(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  -- bcrypt; NULL when the link needs no password
+  password_hash text,
+  has_password boolean GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at timestamp with time zone,
+  allow_download boolean NOT NULL DEFAULT false,
+  created_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  revoked_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS review_links_version_id_idx ON public.review_links(version_id);
+
+ALTER TABLE public.review_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project managers can view review links"
+ON public.review_links FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = review_links.version_id
+    AND public.can_manage_project(vv.project_id, auth.uid())
+  )
+);
+
+-- Revoking sets revoked_at; links are created through create_review_link so the password gets hashed
+CREATE POLICY "Project managers can update review links"
+ON public.review_links FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = review_links.version_id
+    AND public.can_manage_project(vv.project_id, auth.uid())
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.create_review_link(
+  _version_id uuid,
+  _password text,
+  _expires_at timestamp with time zone,
+  _allow_download boolean
+)
+RETURNS public.review_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _link public.review_links%ROWTYPE;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _version_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+  IF NOT public.can_manage_project(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the project creator or editor can share this version';
+  END IF;
+  IF _expires_at IS NOT NULL AND _expires_at <= now() THEN
+    RAISE EXCEPTION 'The expiry date must be in the future';
+  END IF;
+
+  INSERT INTO public.review_links (version_id, password_hash, expires_at, allow_download, created_by)
+  VALUES (
+    _version_id,
+    CASE WHEN coalesce(_password, '') = '' THEN NULL ELSE extensions.crypt(_password, extensions.gen_salt('bf')) END,
+    _expires_at,
+    coalesce(_allow_download, false),
+    auth.uid()
+  )
+  RETURNING * INTO _link;
+
+  RETURN _link;
+END;
+$$;
+
+-- Used by the guest-review edge function only
+CREATE OR REPLACE FUNCTION public.review_link_password_matches(_link_id uuid, _password text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT password_hash IS NULL OR password_hash = extensions.crypt(coalesce(_password, ''), password_hash)
+  FROM public.review_links
+  WHERE id = _link_id;
+$$;
+
+-- Guest comments have no user, only the name the guest gave and the link they came through
+ALTER TABLE public.video_feedback
+ALTER COLUMN user_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS guest_name text,
+ADD COLUMN IF NOT EXISTS review_link_id uuid REFERENCES public.review_links(id) ON DELETE SET NULL;
+
+ALTER TABLE public.video_feedback
+ADD CONSTRAINT video_feedback_author_check CHECK (user_id IS NOT NULL OR guest_name IS NOT NULL);
+
+-- As before, plus: guest comments notify the project's creator and editor, and guests
+-- are named in notifications
+CREATE OR REPLACE FUNCTION public.notify_feedback_participants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _author text;
+  _link text;
+  _excerpt text;
+  _parent_author uuid;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = NEW.version_id;
+  IF NEW.user_id IS NULL THEN
+    _author := NEW.guest_name || ' (guest)';
+  ELSE
+    SELECT coalesce(full_name, email) INTO _author FROM public.profiles WHERE id = NEW.user_id;
+  END IF;
+  _link := '/video-preview/' || NEW.version_id;
+  _excerpt := left(NEW.comment_text, 140);
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT DISTINCT mentioned, 'feedback_mention', coalesce(_author, 'Someone') || ' mentioned you', _excerpt, _link
+  FROM unnest(NEW.mentions) AS mentioned
+  WHERE mentioned IS DISTINCT FROM NEW.user_id
+    AND public.is_project_member(_project_id, mentioned);
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO _parent_author FROM public.video_feedback WHERE id = NEW.parent_id;
+    IF _parent_author IS NOT NULL AND _parent_author IS DISTINCT FROM NEW.user_id AND NOT _parent_author = ANY (NEW.mentions) THEN
+      INSERT INTO public.notifications (user_id, type, title, body, link)
+      VALUES (_parent_author, 'feedback_reply', coalesce(_author, 'Someone') || ' replied to your comment', _excerpt, _link);
+    END IF;
+  END IF;
+
+  IF NEW.user_id IS NULL THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link)
+    SELECT DISTINCT manager, 'guest_feedback', _author || ' commented', _excerpt, _link
+    FROM public.projects p
+    LEFT JOIN public.editors e ON e.id = p.editor_id
+    CROSS JOIN LATERAL (VALUES (p.creator_id), (e.user_id)) AS managers(manager)
+    WHERE p.id = _project_id AND manager IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- As before, except that guest comments have no author to confirm a resolution,
+-- so resolving one closes it straight away
+CREATE OR REPLACE FUNCTION public.set_feedback_resolution(_feedback_id uuid, _action text)
+RETURNS public.video_feedback
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feedback public.video_feedback%ROWTYPE;
+  _project_id uuid;
+  _actor text;
+BEGIN
+  SELECT * INTO _feedback FROM public.video_feedback WHERE id = _feedback_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feedback not found';
+  END IF;
+
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _feedback.version_id;
+  IF NOT public.is_project_member(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this project';
+  END IF;
+
+  IF _action = 'resolve' THEN
+    UPDATE public.video_feedback
+    SET resolved_by = auth.uid(), resolved_at = now(), is_resolved = (user_id IS NULL OR user_id = auth.uid())
+    WHERE id = _feedback_id
+    RETURNING * INTO _feedback;
+
+    IF _feedback.user_id IS NOT NULL AND _feedback.user_id <> auth.uid() THEN
+      SELECT coalesce(full_name, email) INTO _actor FROM public.profiles WHERE id = auth.uid();
+      INSERT INTO public.notifications (user_id, type, title, body, link)
+      VALUES (
+        _feedback.user_id,
+        'feedback_resolved',
+        coalesce(_actor, 'Someone') || ' marked your comment as done',
+        left(_feedback.comment_text, 140),
+        '/video-preview/' || _feedback.version_id
+      );
+    END IF;
+  ELSIF _action = 'confirm' THEN
+    IF _feedback.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can confirm a resolution';
+    END IF;
+    IF _feedback.resolved_by IS NULL THEN
+      RAISE EXCEPTION 'This comment has not been resolved yet';
+    END IF;
+
+    UPDATE public.video_feedback SET is_resolved = true
+    WHERE id = _feedback_id
+    RETURNING * INTO _feedback;
+  ELSIF _action = 'reopen' THEN
+    IF auth.uid() IS DISTINCT FROM _feedback.user_id AND auth.uid() IS DISTINCT FROM _feedback.resolved_by THEN
+      RAISE EXCEPTION 'Only the author or the resolver can reopen this comment';
+    END IF;
+
+    UPDATE public.video_feedback
+    SET is_resolved = false, resolved_by = NULL, resolved_at = NULL
+    WHERE id = _feedback_id
+    RETURNING * INTO _feedback;
+  ELSE
+    RAISE EXCEPTION 'Unknown resolution action: %', _action;
+  END IF;
+
+  RETURN _feedback;
+END;
+$$;
+
+-- As before, keeping the guest's name on carried guest comments
+CREATE OR REPLACE FUNCTION public.carry_forward_feedback(_from_version_id uuid, _to_version_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _carried integer;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _from_version_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.video_versions WHERE id = _to_version_id AND project_id = _project_id) THEN
+    RAISE EXCEPTION 'Both versions must belong to the same project';
+  END IF;
+
+  IF NOT public.is_project_member(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this project';
+  END IF;
+
+  INSERT INTO public.video_feedback (
+    version_id, user_id, guest_name, comment_text, timestamp_seconds, end_seconds, annotations, carried_from_id, created_at
+  )
+  SELECT _to_version_id, f.user_id, f.guest_name, f.comment_text, f.timestamp_seconds, f.end_seconds, f.annotations, f.id, f.created_at
+  FROM public.video_feedback f
+  WHERE f.version_id = _from_version_id
+    AND f.parent_id IS NULL
+    AND f.is_resolved IS NOT TRUE
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _carried = ROW_COUNT;
+  RETURN _carried;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_manage_project(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_review_link(uuid, text, timestamp with time zone, boolean) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_link_password_matches(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_link_password_matches(uuid, text) TO service_role;
\ No newline at end of file
@@ -0,0 +1,329 @@
+-- Approval stages: each project can require its versions to be signed off stage by stage
+-- (e.g. internal lead, then client, then brand legal). A stage passes once every one of
+-- its named reviewers has approved, and a version only becomes approved when all stages
+-- have passed. Decisions are made through record_approval_decision and kept in an
+-- append-only log. Projects without stages keep the single client sign-off.
+
+CREATE TABLE IF NOT EXISTS public.approval_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL,
+  reviewer_ids uuid[] NOT NULL CHECK (cardinality(reviewer_ids) > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS approval_stages_project_id_idx ON public.approval_stages(project_id, position);
+
+CREATE TABLE IF NOT EXISTS public.approval_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid NOT NULL REFERENCES public.video_versions(id) ON DELETE CASCADE,
+  -- No foreign key: entries outlive the stage, and stage_name keeps what it was called
+  stage_id uuid,
+  stage_name text NOT NULL,
+  user_id uuid NOT NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected', 'corrections_needed')),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS approval_log_version_id_idx ON public.approval_log(version_id, created_at);
+
+-- Anyone named on one of the project's approval stages
+CREATE OR REPLACE FUNCTION public.is_approval_reviewer(_project_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.approval_stages
+    WHERE project_id = _project_id AND _user_id = ANY (reviewer_ids)
+  );
+$$;
+
+-- As before, plus approval reviewers, who need to watch and discuss what they sign off
+CREATE OR REPLACE FUNCTION public.is_project_member(_project_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    LEFT JOIN public.editors e ON e.id = p.editor_id
+    LEFT JOIN public.clients c ON c.id = p.client_id
+    WHERE p.id = _project_id
+      AND (p.creator_id = _user_id OR e.user_id = _user_id OR c.user_id = _user_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.project_clients pc
+    JOIN public.clients c ON c.id = pc.client_id
+    WHERE pc.project_id = _project_id AND c.user_id = _user_id
+  ) OR public.is_approval_reviewer(_project_id, _user_id);
+$$;
+
+CREATE POLICY "Approval reviewers can view projects"
+ON public.projects FOR SELECT
+USING (public.is_approval_reviewer(id, auth.uid()));
+
+CREATE POLICY "Approval reviewers can view video versions"
+ON public.video_versions FOR SELECT
+USING (public.is_approval_reviewer(project_id, auth.uid()));
+
+ALTER TABLE public.approval_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view approval stages"
+ON public.approval_stages FOR SELECT
+USING (public.is_project_member(project_id, auth.uid()));
+
+CREATE POLICY "Project managers can add approval stages"
+ON public.approval_stages FOR INSERT
+WITH CHECK (public.can_manage_project(project_id, auth.uid()));
+
+CREATE POLICY "Project managers can update approval stages"
+ON public.approval_stages FOR UPDATE
+USING (public.can_manage_project(project_id, auth.uid()));
+
+CREATE POLICY "Project managers can delete approval stages"
+ON public.approval_stages FOR DELETE
+USING (public.can_manage_project(project_id, auth.uid()));
+
+-- Read-only for everyone; entries are only written by record_approval_decision
+ALTER TABLE public.approval_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view the approval log"
+ON public.approval_log FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = approval_log.version_id
+    AND public.is_project_member(vv.project_id, auth.uid())
+  )
+);
+
+-- Not even the service role rewrites history; entries only go away with their version
+CREATE OR REPLACE FUNCTION public.prevent_approval_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.video_versions WHERE id = OLD.version_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Approval log entries cannot be changed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_approval_log_changes ON public.approval_log;
+CREATE TRIGGER prevent_approval_log_changes
+BEFORE UPDATE OR DELETE ON public.approval_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_approval_log_changes();
+
+-- The first stage, in order, that still waits on at least one of its reviewers
+CREATE OR REPLACE FUNCTION public.current_approval_stage(_version_id uuid)
+RETURNS public.approval_stages
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.approval_stages s
+  JOIN public.video_versions vv ON vv.project_id = s.project_id
+  WHERE vv.id = _version_id
+    AND EXISTS (
+      SELECT 1 FROM unnest(s.reviewer_ids) AS reviewer
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.approval_log l
+        WHERE l.version_id = _version_id
+          AND l.stage_id = s.id
+          AND l.user_id = reviewer
+          AND l.decision = 'approved'
+      )
+    )
+  ORDER BY s.position, s.created_at
+  LIMIT 1;
+$$;
+
+-- Tells the reviewers of a stage who have not approved yet that a version waits on them
+CREATE OR REPLACE FUNCTION public.notify_approval_stage(_version_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stage public.approval_stages%ROWTYPE;
+  _version public.video_versions%ROWTYPE;
+BEGIN
+  _stage := public.current_approval_stage(_version_id);
+  IF _stage.id IS NULL THEN
+    RETURN;
+  END IF;
+  SELECT * INTO _version FROM public.video_versions WHERE id = _version_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT DISTINCT reviewer, 'approval_requested',
+    'Version ' || _version.version_number || ' is waiting for your approval',
+    _stage.name,
+    '/projects/' || _version.project_id
+  FROM unnest(_stage.reviewer_ids) AS reviewer
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.approval_log l
+    WHERE l.version_id = _version_id AND l.stage_id = _stage.id AND l.user_id = reviewer AND l.decision = 'approved'
+  );
+END;
+$$;
+
+-- approval_status only becomes 'approved' through record_approval_decision, so a
+-- version cannot skip a stage
+CREATE OR REPLACE FUNCTION public.guard_version_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.approval_status = 'approved'
+    AND OLD.approval_status IS DISTINCT FROM 'approved'
+    AND coalesce(current_setting('app.recording_approval', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'A version is approved once every approval stage has signed off';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_version_approval ON public.video_versions;
+CREATE TRIGGER guard_version_approval
+BEFORE UPDATE OF approval_status ON public.video_versions
+FOR EACH ROW EXECUTE FUNCTION public.guard_version_approval();
+
+-- A new version puts a draft project into review and asks the first stage to sign off
+CREATE OR REPLACE FUNCTION public.start_version_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.projects SET status = 'in_review' WHERE id = NEW.project_id AND status = 'draft';
+  PERFORM public.notify_approval_stage(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS start_version_approval ON public.video_versions;
+CREATE TRIGGER start_version_approval
+AFTER INSERT ON public.video_versions
+FOR EACH ROW EXECUTE FUNCTION public.start_version_approval();
+
+-- approved:           the caller signs off their stage; the version is approved (and its
+--                     project moves to approved) when that was the last one outstanding.
+-- rejected /
+-- corrections_needed: any reviewer of the current stage stops the version there.
+-- Without stages the project's clients decide, as before.
+CREATE OR REPLACE FUNCTION public.record_approval_decision(_version_id uuid, _decision text, _notes text)
+RETURNS public.video_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version public.video_versions%ROWTYPE;
+  _stage public.approval_stages%ROWTYPE;
+  _stage_name text;
+  _actor text;
+  _finished boolean;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected', 'corrections_needed') THEN
+    RAISE EXCEPTION 'Unknown decision: %', _decision;
+  END IF;
+  IF _decision = 'corrections_needed' AND coalesce(trim(_notes), '') = '' THEN
+    RAISE EXCEPTION 'Please describe the corrections needed';
+  END IF;
+
+  SELECT * INTO _version FROM public.video_versions WHERE id = _version_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+  IF _version.approval_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'This version has already been decided';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.approval_stages WHERE project_id = _version.project_id) THEN
+    _stage := public.current_approval_stage(_version_id);
+    IF _stage.id IS NULL THEN
+      RAISE EXCEPTION 'Every approval stage has already signed off';
+    END IF;
+    IF NOT auth.uid() = ANY (_stage.reviewer_ids) THEN
+      RAISE EXCEPTION 'Only the reviewers of the % stage can decide now', _stage.name;
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.approval_log
+      WHERE version_id = _version_id AND stage_id = _stage.id AND user_id = auth.uid() AND decision = 'approved'
+    ) THEN
+      RAISE EXCEPTION 'You have already approved the % stage', _stage.name;
+    END IF;
+    _stage_name := _stage.name;
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM public.projects p
+      JOIN public.clients c ON c.id = p.client_id
+      WHERE p.id = _version.project_id AND c.user_id = auth.uid()
+    ) AND NOT EXISTS (
+      SELECT 1 FROM public.project_clients pc
+      JOIN public.clients c ON c.id = pc.client_id
+      WHERE pc.project_id = _version.project_id AND c.user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Only the project''s clients can approve its versions';
+    END IF;
+    _stage_name := 'Client approval';
+  END IF;
+
+  INSERT INTO public.approval_log (version_id, stage_id, stage_name, user_id, decision, notes)
+  VALUES (_version_id, _stage.id, _stage_name, auth.uid(), _decision, nullif(trim(_notes), ''));
+
+  _finished := _decision <> 'approved' OR (public.current_approval_stage(_version_id)).id IS NULL;
+
+  IF NOT _finished THEN
+    -- The stage may have just passed; the next one hears about it
+    PERFORM public.notify_approval_stage(_version_id);
+    RETURN _version;
+  END IF;
+
+  PERFORM set_config('app.recording_approval', 'on', true);
+  UPDATE public.video_versions
+  SET approval_status = _decision,
+      is_approved = _decision = 'approved',
+      final_link_requested = final_link_requested OR _decision = 'approved',
+      correction_notes = CASE WHEN _decision = 'corrections_needed' THEN trim(_notes) ELSE correction_notes END
+  WHERE id = _version_id
+  RETURNING * INTO _version;
+  PERFORM set_config('app.recording_approval', '', true);
+
+  IF _decision = 'approved' THEN
+    UPDATE public.projects SET status = 'approved'
+    WHERE id = _version.project_id AND status IN ('draft', 'in_review');
+  END IF;
+
+  -- The creator and editor hear the outcome
+  SELECT coalesce(full_name, email) INTO _actor FROM public.profiles WHERE id = auth.uid();
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT DISTINCT manager, 'approval_decision',
+    'Version ' || _version.version_number || ' ' ||
+      CASE _decision WHEN 'approved' THEN 'was approved' WHEN 'rejected' THEN 'was rejected' ELSE 'needs corrections' END,
+    coalesce(_actor, 'Someone') || ' · ' || _stage_name || coalesce(': ' || left(nullif(trim(_notes), ''), 140), ''),
+    '/projects/' || _version.project_id
+  FROM public.projects p
+  LEFT JOIN public.editors e ON e.id = p.editor_id
+  CROSS JOIN LATERAL (VALUES (p.creator_id), (e.user_id)) AS managers(manager)
+  WHERE p.id = _version.project_id AND manager IS NOT NULL AND manager <> auth.uid();
+
+  RETURN _version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_approval_reviewer(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_approval_stage(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_approval_decision(uuid, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_approval_stage(uuid) FROM PUBLIC, anon, authenticated;
\ No newline at end of file
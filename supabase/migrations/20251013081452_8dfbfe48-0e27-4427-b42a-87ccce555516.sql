@@ -0,0 +1,50 @@
+-- Pin-point comments on stills: where on the image the comment points, as fractions of
+-- its width and height so the pin stays put at any display size
+ALTER TABLE public.video_feedback
+ADD COLUMN IF NOT EXISTS pin_x numeric,
+ADD COLUMN IF NOT EXISTS pin_y numeric;
+
+ALTER TABLE public.video_feedback
+ADD CONSTRAINT video_feedback_pin_check CHECK (
+  (pin_x IS NULL AND pin_y IS NULL)
+  OR (pin_x BETWEEN 0 AND 1 AND pin_y BETWEEN 0 AND 1)
+);
+
+-- As before, plus the pins, so open comments on a revised still stay where they were
+CREATE OR REPLACE FUNCTION public.carry_forward_feedback(_from_version_id uuid, _to_version_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+  _carried integer;
+BEGIN
+  SELECT project_id INTO _project_id FROM public.video_versions WHERE id = _from_version_id;
+  IF _project_id IS NULL THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.video_versions WHERE id = _to_version_id AND project_id = _project_id) THEN
+    RAISE EXCEPTION 'Both versions must belong to the same project';
+  END IF;
+
+  IF NOT public.is_project_member(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of this project';
+  END IF;
+
+  INSERT INTO public.video_feedback (
+    version_id, user_id, guest_name, comment_text, timestamp_seconds, end_seconds, pin_x, pin_y, annotations, carried_from_id, created_at
+  )
+  SELECT _to_version_id, f.user_id, f.guest_name, f.comment_text, f.timestamp_seconds, f.end_seconds, f.pin_x, f.pin_y, f.annotations, f.id, f.created_at
+  FROM public.video_feedback f
+  WHERE f.version_id = _from_version_id
+    AND f.parent_id IS NULL
+    AND f.is_resolved IS NOT TRUE
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _carried = ROW_COUNT;
+  RETURN _carried;
+END;
+$$;
\ No newline at end of file
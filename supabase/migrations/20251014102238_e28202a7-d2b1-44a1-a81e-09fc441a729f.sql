@@ -0,0 +1,280 @@
+-- Feedback tasks: every top-level comment on a version becomes a task on that version's
+-- board (to do, in progress, done, or waived with a reason), with an optional assignee.
+-- Carried comments are the same request again, so they share the task of the comment
+-- they were copied from. A version only goes to review once every task on the versions
+-- before it is done or waived.
+
+ALTER TABLE public.video_versions
+ADD COLUMN IF NOT EXISTS ready_for_review_at timestamp with time zone;
+
+-- Versions added before this were sent to review straight away
+UPDATE public.video_versions SET ready_for_review_at = created_at WHERE ready_for_review_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.feedback_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  feedback_id uuid NOT NULL UNIQUE REFERENCES public.video_feedback(id) ON DELETE CASCADE,
+  version_id uuid NOT NULL REFERENCES public.video_versions(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'todo' CHECK (status IN ('todo', 'in_progress', 'done', 'waived')),
+  assignee_id uuid,
+  waived_reason text,
+  updated_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT feedback_tasks_waiver_check CHECK (status <> 'waived' OR coalesce(trim(waived_reason), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS feedback_tasks_version_id_idx ON public.feedback_tasks(version_id);
+
+ALTER TABLE public.feedback_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view feedback tasks"
+ON public.feedback_tasks FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = feedback_tasks.version_id
+    AND public.is_project_member(vv.project_id, auth.uid())
+  )
+);
+
+-- Tasks are created from comments; the creator and editor work through them
+CREATE POLICY "Project managers can update feedback tasks"
+ON public.feedback_tasks FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = feedback_tasks.version_id
+    AND public.can_manage_project(vv.project_id, auth.uid())
+  )
+);
+
+INSERT INTO public.feedback_tasks (feedback_id, version_id, status)
+SELECT f.id, f.version_id,
+  CASE
+    WHEN f.resolved_by IS NOT NULL OR f.is_resolved
+      OR EXISTS (
+        SELECT 1 FROM public.video_feedback c
+        WHERE c.carried_from_id = f.id AND (c.resolved_by IS NOT NULL OR c.is_resolved)
+      )
+    THEN 'done'
+    ELSE 'todo'
+  END
+FROM public.video_feedback f
+WHERE f.parent_id IS NULL AND f.carried_from_id IS NULL
+ON CONFLICT (feedback_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.create_feedback_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL AND NEW.carried_from_id IS NULL THEN
+    INSERT INTO public.feedback_tasks (feedback_id, version_id, status)
+    VALUES (NEW.id, NEW.version_id, CASE WHEN NEW.resolved_by IS NOT NULL OR NEW.is_resolved THEN 'done' ELSE 'todo' END)
+    ON CONFLICT (feedback_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_feedback_task ON public.video_feedback;
+CREATE TRIGGER create_feedback_task
+AFTER INSERT ON public.video_feedback
+FOR EACH ROW EXECUTE FUNCTION public.create_feedback_task();
+
+-- Marking a comment (or a carried copy of it) as done finishes its task, and reopening it
+-- puts a finished task back to do. Waived tasks stay waived.
+CREATE OR REPLACE FUNCTION public.sync_feedback_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL OR NEW.resolved_by IS NOT DISTINCT FROM OLD.resolved_by THEN
+    RETURN NEW;
+  END IF;
+
+  WITH RECURSIVE chain AS (
+    SELECT id, carried_from_id FROM public.video_feedback WHERE id = NEW.id
+    UNION
+    SELECT f.id, f.carried_from_id FROM public.video_feedback f JOIN chain ON f.id = chain.carried_from_id
+  )
+  UPDATE public.feedback_tasks
+  SET status = CASE WHEN NEW.resolved_by IS NOT NULL THEN 'done' ELSE 'todo' END
+  WHERE feedback_id IN (SELECT id FROM chain)
+    AND status <> 'waived'
+    AND (NEW.resolved_by IS NOT NULL OR status = 'done');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_feedback_task ON public.video_feedback;
+CREATE TRIGGER sync_feedback_task
+AFTER UPDATE OF resolved_by ON public.video_feedback
+FOR EACH ROW EXECUTE FUNCTION public.sync_feedback_task();
+
+-- Tasks stay on their comment, only project members can be assigned, and a waiver
+-- reason is only kept while the task is waived
+CREATE OR REPLACE FUNCTION public.prepare_feedback_task_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_id uuid;
+BEGIN
+  NEW.feedback_id := OLD.feedback_id;
+  NEW.version_id := OLD.version_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+  NEW.updated_by := coalesce(auth.uid(), OLD.updated_by);
+
+  IF NEW.status <> 'waived' THEN
+    NEW.waived_reason := NULL;
+  ELSE
+    NEW.waived_reason := trim(NEW.waived_reason);
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL AND NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    SELECT project_id INTO _project_id FROM public.video_versions WHERE id = NEW.version_id;
+    IF NOT public.is_project_member(_project_id, NEW.assignee_id) THEN
+      RAISE EXCEPTION 'Tasks can only be assigned to people on the project';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_feedback_task_update ON public.feedback_tasks;
+CREATE TRIGGER prepare_feedback_task_update
+BEFORE UPDATE ON public.feedback_tasks
+FOR EACH ROW EXECUTE FUNCTION public.prepare_feedback_task_update();
+
+-- The new assignee hears about the task
+CREATE OR REPLACE FUNCTION public.notify_feedback_task_assignee()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor text;
+  _comment text;
+BEGIN
+  IF NEW.assignee_id IS NULL OR NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id OR NEW.assignee_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(full_name, email) INTO _actor FROM public.profiles WHERE id = auth.uid();
+  SELECT comment_text INTO _comment FROM public.video_feedback WHERE id = NEW.feedback_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  VALUES (
+    NEW.assignee_id,
+    'task_assigned',
+    coalesce(_actor, 'Someone') || ' assigned you a feedback task',
+    left(_comment, 140),
+    '/video-preview/' || NEW.version_id || '?feedback=' || NEW.feedback_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_feedback_task_assignee ON public.feedback_tasks;
+CREATE TRIGGER notify_feedback_task_assignee
+AFTER UPDATE OF assignee_id ON public.feedback_tasks
+FOR EACH ROW EXECUTE FUNCTION public.notify_feedback_task_assignee();
+
+-- A version goes to review once, and only when nothing is left open on the versions before it
+CREATE OR REPLACE FUNCTION public.guard_version_ready()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _open integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.ready_for_review_at IS NOT NULL THEN
+    IF NEW.ready_for_review_at IS NULL THEN
+      RAISE EXCEPTION 'This version has already gone to review';
+    END IF;
+    NEW.ready_for_review_at := OLD.ready_for_review_at;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.ready_for_review_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO _open
+  FROM public.feedback_tasks t
+  JOIN public.video_versions v ON v.id = t.version_id
+  WHERE v.project_id = NEW.project_id
+    AND v.version_number < NEW.version_number
+    AND t.status IN ('todo', 'in_progress');
+
+  IF _open > 0 THEN
+    RAISE EXCEPTION '% feedback task% from earlier versions still open. Finish or waive them before sending this version to review',
+      _open, CASE WHEN _open = 1 THEN ' is' ELSE 's are' END;
+  END IF;
+
+  NEW.ready_for_review_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_version_ready ON public.video_versions;
+CREATE TRIGGER guard_version_ready
+BEFORE INSERT OR UPDATE OF ready_for_review_at ON public.video_versions
+FOR EACH ROW EXECUTE FUNCTION public.guard_version_ready();
+
+-- As before, but when the version goes to review rather than when it is added
+CREATE OR REPLACE FUNCTION public.start_version_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ready_for_review_at IS NULL OR (TG_OP = 'UPDATE' AND OLD.ready_for_review_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.projects SET status = 'in_review' WHERE id = NEW.project_id AND status = 'draft';
+  PERFORM public.notify_approval_stage(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS start_version_approval ON public.video_versions;
+CREATE TRIGGER start_version_approval
+AFTER INSERT OR UPDATE OF ready_for_review_at ON public.video_versions
+FOR EACH ROW EXECUTE FUNCTION public.start_version_approval();
+
+-- Nobody signs off a version that hasn't gone to review
+CREATE OR REPLACE FUNCTION public.guard_approval_readiness()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.video_versions WHERE id = NEW.version_id AND ready_for_review_at IS NULL) THEN
+    RAISE EXCEPTION 'This version is not ready for review yet';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_approval_readiness ON public.approval_log;
+CREATE TRIGGER guard_approval_readiness
+BEFORE INSERT ON public.approval_log
+FOR EACH ROW EXECUTE FUNCTION public.guard_approval_readiness();
\ No newline at end of file
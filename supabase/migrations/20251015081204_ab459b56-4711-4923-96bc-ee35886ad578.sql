@@ -0,0 +1,30 @@
+-- Feedback can only be written as yourself, and a comment's status stays with the
+-- functions that check who may change it. Authors can still edit their own text.
+
+-- These let any project member post as someone else, or change any comment
+DROP POLICY IF EXISTS "Project members can insert feedback" ON public.video_feedback;
+DROP POLICY IF EXISTS "Project members can update feedback" ON public.video_feedback;
+
+DROP POLICY IF EXISTS "Users can add feedback for their projects" ON public.video_feedback;
+CREATE POLICY "Users can add feedback for their projects"
+ON public.video_feedback FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.video_versions vv
+    WHERE vv.id = video_feedback.version_id
+    AND public.is_project_member(vv.project_id, auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users can update own feedback" ON public.video_feedback;
+CREATE POLICY "Users can update own feedback"
+ON public.video_feedback FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Direct updates may only touch the text. Resolving, confirming, reopening and marking
+-- a comment as addressed go through set_feedback_resolution and set_feedback_addressed,
+-- which run as the table owner and are not limited by these grants.
+REVOKE UPDATE ON public.video_feedback FROM anon, authenticated;
+GRANT UPDATE (comment_text) ON public.video_feedback TO authenticated;
\ No newline at end of file
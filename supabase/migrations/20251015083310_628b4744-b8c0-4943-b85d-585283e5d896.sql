@@ -0,0 +1,14 @@
+-- Who uploaded an object in project-videos, for verify-upload, which only deletes a
+-- file that fails its checksum when the caller is the one who uploaded it
+CREATE OR REPLACE FUNCTION public.project_video_owner(_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT owner FROM storage.objects WHERE bucket_id = 'project-videos' AND name = _name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.project_video_owner(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.project_video_owner(text) TO service_role;
\ No newline at end of file
@@ -0,0 +1,36 @@
+-- As before, but versions cannot be inserted already approved either, and is_approved and
+-- final_link_requested are held to the same rule as approval_status: they only turn on
+-- through record_approval_decision. Editors still clear final_link_requested once they
+-- deliver the final link. The service role may insert decided versions, which is how
+-- migrate-database copies them back from another provider.
+CREATE OR REPLACE FUNCTION public.guard_version_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.recording_approval', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF current_user <> 'service_role' AND (
+      NEW.approval_status = 'approved'
+      OR NEW.is_approved
+      OR coalesce(NEW.final_link_requested, false)
+    ) THEN
+      RAISE EXCEPTION 'A new version starts out pending approval';
+    END IF;
+  ELSIF (NEW.approval_status = 'approved' AND OLD.approval_status IS DISTINCT FROM 'approved')
+    OR (NEW.is_approved AND NOT OLD.is_approved)
+    OR (coalesce(NEW.final_link_requested, false) AND NOT coalesce(OLD.final_link_requested, false)) THEN
+    RAISE EXCEPTION 'A version is approved once every approval stage has signed off';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_version_approval ON public.video_versions;
+CREATE TRIGGER guard_version_approval
+BEFORE INSERT OR UPDATE OF approval_status, is_approved, final_link_requested ON public.video_versions
+FOR EACH ROW EXECUTE FUNCTION public.guard_version_approval();
\ No newline at end of file
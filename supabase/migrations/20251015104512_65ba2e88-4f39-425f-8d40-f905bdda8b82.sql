@@ -0,0 +1,63 @@
+-- Wrong review link passwords are counted per link, and a link stops accepting passwords
+-- for a while after too many of them, so a password cannot be guessed by trying many.
+
+CREATE TABLE IF NOT EXISTS public.review_link_password_failures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id uuid NOT NULL REFERENCES public.review_links(id) ON DELETE CASCADE,
+  failed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS review_link_password_failures_link_id_idx
+ON public.review_link_password_failures(link_id, failed_at);
+
+-- Only the guest-review edge function reads or writes these, with the service role
+ALTER TABLE public.review_link_password_failures ENABLE ROW LEVEL SECURITY;
+
+-- Replaces review_link_password_matches. Returns 'ok', 'incorrect', or 'locked' once
+-- the link has seen 5 wrong passwords in the last 15 minutes; 'locked' is returned
+-- without looking at the password. A right password clears the count.
+CREATE OR REPLACE FUNCTION public.check_review_link_password(_link_id uuid, _password text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hash text;
+BEGIN
+  -- One check per link at a time, so parallel guesses are all counted
+  SELECT password_hash INTO _hash FROM public.review_links WHERE id = _link_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'incorrect';
+  END IF;
+  IF _hash IS NULL THEN
+    RETURN 'ok';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.review_link_password_failures
+    WHERE link_id = _link_id AND failed_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RETURN 'locked';
+  END IF;
+
+  IF _hash = extensions.crypt(coalesce(_password, ''), _hash) THEN
+    DELETE FROM public.review_link_password_failures WHERE link_id = _link_id;
+    RETURN 'ok';
+  END IF;
+
+  INSERT INTO public.review_link_password_failures (link_id) VALUES (_link_id);
+  DELETE FROM public.review_link_password_failures
+  WHERE link_id = _link_id AND failed_at <= now() - interval '15 minutes';
+  RETURN 'incorrect';
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.review_link_password_matches(uuid, text);
+
+-- Guest comments are counted per link when rate limiting them
+CREATE INDEX IF NOT EXISTS video_feedback_review_link_id_idx
+ON public.video_feedback(review_link_id, created_at);
+
+REVOKE EXECUTE ON FUNCTION public.check_review_link_password(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_review_link_password(uuid, text) TO service_role;
\ No newline at end of file
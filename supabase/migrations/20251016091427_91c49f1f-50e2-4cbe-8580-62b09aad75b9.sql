@@ -0,0 +1,37 @@
+-- Approval stages decide who signs a version off, so the assigned editor must not be able
+-- to name themselves a reviewer of their own work: only the project creator edits them.
+DROP POLICY IF EXISTS "Project managers can add approval stages" ON public.approval_stages;
+DROP POLICY IF EXISTS "Project managers can update approval stages" ON public.approval_stages;
+DROP POLICY IF EXISTS "Project managers can delete approval stages" ON public.approval_stages;
+
+CREATE POLICY "Project creators can add approval stages"
+ON public.approval_stages FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.creator_id = auth.uid()));
+
+CREATE POLICY "Project creators can update approval stages"
+ON public.approval_stages FOR UPDATE
+USING (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.creator_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.creator_id = auth.uid()));
+
+CREATE POLICY "Project creators can delete approval stages"
+ON public.approval_stages FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.creator_id = auth.uid()));
+
+-- Which only holds while the creator stays who it is; the editor can update the project
+-- otherwise. The service role may still change it.
+CREATE OR REPLACE FUNCTION public.guard_project_creator()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.creator_id IS DISTINCT FROM OLD.creator_id AND current_user <> 'service_role' THEN
+    RAISE EXCEPTION 'The creator of a project cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_project_creator ON public.projects;
+CREATE TRIGGER guard_project_creator
+BEFORE UPDATE OF creator_id ON public.projects
+FOR EACH ROW EXECUTE FUNCTION public.guard_project_creator();
\ No newline at end of file
@@ -0,0 +1,335 @@
+-- Schema for a self-hosted PostgreSQL database behind the sql-gateway function.
+-- Apply it once before migrating (psql "$DATABASE_URL" -f postgresql.sql); every
+-- statement is idempotent. Tables match the ones the migrate-database function
+-- copies, without Supabase's auth schema, RLS and triggers: sql-gateway applies
+-- the per-user row rules itself.
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY,
+  email text NOT NULL,
+  full_name text,
+  avatar_url text,
+  user_category text NOT NULL DEFAULT 'editor',
+  subscription_tier text NOT NULL DEFAULT 'basic',
+  subscription_active boolean NOT NULL DEFAULT true,
+  trial_end_date timestamp with time zone,
+  subscription_start_date timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  role text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS editors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE,
+  full_name text NOT NULL,
+  email text NOT NULL,
+  specialty text,
+  employment_type text NOT NULL DEFAULT 'freelance',
+  hourly_rate numeric,
+  monthly_salary numeric,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS clients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE,
+  full_name text NOT NULL,
+  email text NOT NULL,
+  company text,
+  employment_type text NOT NULL DEFAULT 'freelance',
+  project_rate numeric,
+  monthly_rate numeric,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS project_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category text NOT NULL,
+  tier text NOT NULL,
+  price numeric NOT NULL,
+  billing_period text NOT NULL DEFAULT 'monthly',
+  features text[] NOT NULL DEFAULT '{}',
+  project_limit integer,
+  storage_limit integer,
+  is_active boolean NOT NULL DEFAULT true,
+  trial_days integer NOT NULL DEFAULT 30,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  project_type text,
+  creator_id uuid NOT NULL,
+  editor_id uuid,
+  client_id uuid,
+  parent_project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  is_subproject boolean DEFAULT false,
+  invoice_id uuid,
+  fee numeric,
+  status text DEFAULT 'draft',
+  raw_footage_link text,
+  assigned_date timestamp with time zone,
+  deadline timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS project_clients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (project_id, client_id)
+);
+
+CREATE TABLE IF NOT EXISTS approval_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL,
+  reviewer_ids uuid[] NOT NULL CHECK (cardinality(reviewer_ids) > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS video_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  preview_url text,
+  final_url text,
+  preview_sha256 text,
+  final_sha256 text,
+  media jsonb,
+  frame_rate numeric(6,3) NOT NULL DEFAULT 24,
+  is_approved boolean NOT NULL DEFAULT false,
+  approval_status text DEFAULT 'pending',
+  final_link_requested boolean DEFAULT false,
+  correction_notes text,
+  uploaded_by uuid NOT NULL REFERENCES profiles(id),
+  ready_for_review_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS review_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT md5(random()::text || clock_timestamp()::text),
+  password_hash text,
+  has_password boolean GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at timestamp with time zone,
+  allow_download boolean NOT NULL DEFAULT false,
+  created_by uuid NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  revoked_at timestamp with time zone
+);
+
+CREATE TABLE IF NOT EXISTS approval_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  stage_id uuid,
+  stage_name text NOT NULL,
+  user_id uuid NOT NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected', 'corrections_needed')),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS video_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  user_id uuid,
+  guest_name text,
+  review_link_id uuid REFERENCES review_links(id) ON DELETE SET NULL,
+  parent_id uuid REFERENCES video_feedback(id) ON DELETE CASCADE,
+  carried_from_id uuid REFERENCES video_feedback(id) ON DELETE SET NULL,
+  comment_text text NOT NULL,
+  timestamp_seconds numeric,
+  end_seconds numeric,
+  pin_x numeric,
+  pin_y numeric,
+  annotations jsonb,
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  is_resolved boolean NOT NULL DEFAULT false,
+  resolved_by uuid,
+  resolved_at timestamp with time zone,
+  addressed boolean,
+  addressed_by uuid,
+  addressed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (user_id IS NOT NULL OR guest_name IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS feedback_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  feedback_id uuid NOT NULL UNIQUE REFERENCES video_feedback(id) ON DELETE CASCADE,
+  version_id uuid NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'todo' CHECK (status IN ('todo', 'in_progress', 'done', 'waived')),
+  assignee_id uuid,
+  waived_reason text,
+  updated_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (status <> 'waived' OR coalesce(trim(waived_reason), '') <> '')
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL,
+  recipient_id uuid,
+  content text NOT NULL,
+  is_read boolean NOT NULL DEFAULT false,
+  reply_to_message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  attachment_url text,
+  attachment_type text,
+  edited boolean DEFAULT false,
+  reactions jsonb DEFAULT '{}',
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE SET NULL,
+  payer_id uuid NOT NULL,
+  recipient_id uuid NOT NULL,
+  amount numeric(10,2) NOT NULL,
+  payment_type text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  invoice_url text,
+  due_date timestamp with time zone,
+  paid_date timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  editor_id uuid NOT NULL,
+  invoice_number text UNIQUE,
+  month text NOT NULL,
+  total_amount numeric NOT NULL DEFAULT 0,
+  paid_amount numeric NOT NULL DEFAULT 0,
+  remaining_amount numeric NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending',
+  payment_method text,
+  proceed_date timestamp with time zone,
+  paid_date timestamp with time zone,
+  notes text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+DO $$
+BEGIN
+  -- projects is created before invoices, so this reference is added afterwards
+  ALTER TABLE projects ADD CONSTRAINT projects_invoice_id_fkey
+    FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE SET NULL;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS invoice_projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  project_fee numeric NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (invoice_id, project_id)
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  editor_id uuid NOT NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  amount numeric NOT NULL,
+  description text NOT NULL,
+  transaction_date date NOT NULL DEFAULT CURRENT_DATE,
+  transaction_type text NOT NULL,
+  payment_method text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ai_conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ai_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES ai_conversations(id) ON DELETE CASCADE,
+  role text NOT NULL,
+  content text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  provider text NOT NULL,
+  api_key text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  usage_limit integer,
+  current_usage integer NOT NULL DEFAULT 0,
+  environment text NOT NULL DEFAULT 'production',
+  last_used timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS admin_activity_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid NOT NULL,
+  action text NOT NULL,
+  resource_type text NOT NULL,
+  resource_id text NOT NULL,
+  details jsonb,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS projects_creator_id_idx ON projects(creator_id);
+CREATE INDEX IF NOT EXISTS projects_editor_id_idx ON projects(editor_id);
+CREATE INDEX IF NOT EXISTS approval_stages_project_id_idx ON approval_stages(project_id);
+CREATE INDEX IF NOT EXISTS video_versions_project_id_idx ON video_versions(project_id);
+CREATE INDEX IF NOT EXISTS video_feedback_version_id_idx ON video_feedback(version_id);
+CREATE INDEX IF NOT EXISTS feedback_tasks_version_id_idx ON feedback_tasks(version_id);
+CREATE INDEX IF NOT EXISTS messages_project_id_idx ON messages(project_id);
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS invoices_editor_id_idx ON invoices(editor_id);
+CREATE INDEX IF NOT EXISTS transactions_editor_id_idx ON transactions(editor_id);
+CREATE INDEX IF NOT EXISTS ai_messages_conversation_id_idx ON ai_messages(conversation_id);
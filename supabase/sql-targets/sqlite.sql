@@ -0,0 +1,326 @@
+-- Schema for a self-hosted SQLite database behind the sql-gateway function.
+-- Apply it once before migrating (sqlite3 /path/to/file.db < sqlite.sql); every
+-- statement is idempotent. Same tables as postgresql.sql, with ids and timestamps
+-- stored as ISO text, booleans as 0/1, and jsonb and array columns as JSON text.
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  avatar_url TEXT,
+  user_category TEXT NOT NULL DEFAULT 'editor',
+  subscription_tier TEXT NOT NULL DEFAULT 'basic',
+  subscription_active INTEGER NOT NULL DEFAULT 1,
+  trial_end_date TEXT,
+  subscription_start_date TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (user_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS editors (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  user_id TEXT UNIQUE,
+  full_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  specialty TEXT,
+  employment_type TEXT NOT NULL DEFAULT 'freelance',
+  hourly_rate NUMERIC,
+  monthly_salary NUMERIC,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS clients (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  user_id TEXT UNIQUE,
+  full_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  company TEXT,
+  employment_type TEXT NOT NULL DEFAULT 'freelance',
+  project_rate NUMERIC,
+  monthly_rate NUMERIC,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS project_types (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  name TEXT NOT NULL UNIQUE,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  tier TEXT NOT NULL,
+  price NUMERIC NOT NULL,
+  billing_period TEXT NOT NULL DEFAULT 'monthly',
+  features TEXT NOT NULL DEFAULT '[]',
+  project_limit INTEGER,
+  storage_limit INTEGER,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  trial_days INTEGER NOT NULL DEFAULT 30,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  name TEXT NOT NULL,
+  description TEXT,
+  project_type TEXT,
+  creator_id TEXT NOT NULL,
+  editor_id TEXT,
+  client_id TEXT,
+  parent_project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+  is_subproject INTEGER DEFAULT 0,
+  invoice_id TEXT REFERENCES invoices(id) ON DELETE SET NULL,
+  fee NUMERIC,
+  status TEXT DEFAULT 'draft',
+  raw_footage_link TEXT,
+  assigned_date TEXT,
+  deadline TEXT,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS project_clients (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (project_id, client_id)
+);
+
+CREATE TABLE IF NOT EXISTS approval_stages (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  reviewer_ids TEXT NOT NULL CHECK (json_array_length(reviewer_ids) > 0),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS video_versions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  preview_url TEXT,
+  final_url TEXT,
+  preview_sha256 TEXT,
+  final_sha256 TEXT,
+  media TEXT,
+  frame_rate NUMERIC NOT NULL DEFAULT 24,
+  is_approved INTEGER NOT NULL DEFAULT 0,
+  approval_status TEXT DEFAULT 'pending',
+  final_link_requested INTEGER DEFAULT 0,
+  correction_notes TEXT,
+  uploaded_by TEXT NOT NULL REFERENCES profiles(id),
+  ready_for_review_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS review_links (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  version_id TEXT NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT (lower(hex(randomblob(24)))),
+  password_hash TEXT,
+  has_password INTEGER GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at TEXT,
+  allow_download INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS approval_log (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  version_id TEXT NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  stage_id TEXT,
+  stage_name TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected', 'corrections_needed')),
+  notes TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS video_feedback (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  version_id TEXT NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  user_id TEXT,
+  guest_name TEXT,
+  review_link_id TEXT REFERENCES review_links(id) ON DELETE SET NULL,
+  parent_id TEXT REFERENCES video_feedback(id) ON DELETE CASCADE,
+  carried_from_id TEXT REFERENCES video_feedback(id) ON DELETE SET NULL,
+  comment_text TEXT NOT NULL,
+  timestamp_seconds NUMERIC,
+  end_seconds NUMERIC,
+  pin_x NUMERIC,
+  pin_y NUMERIC,
+  annotations TEXT,
+  mentions TEXT NOT NULL DEFAULT '[]',
+  is_resolved INTEGER NOT NULL DEFAULT 0,
+  resolved_by TEXT,
+  resolved_at TEXT,
+  addressed INTEGER,
+  addressed_by TEXT,
+  addressed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  CHECK (user_id IS NOT NULL OR guest_name IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS feedback_tasks (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  feedback_id TEXT NOT NULL UNIQUE REFERENCES video_feedback(id) ON DELETE CASCADE,
+  version_id TEXT NOT NULL REFERENCES video_versions(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'todo' CHECK (status IN ('todo', 'in_progress', 'done', 'waived')),
+  assignee_id TEXT,
+  waived_reason TEXT,
+  updated_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  CHECK (status <> 'waived' OR coalesce(trim(waived_reason), '') <> '')
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+  sender_id TEXT NOT NULL,
+  recipient_id TEXT,
+  content TEXT NOT NULL,
+  is_read INTEGER NOT NULL DEFAULT 0,
+  reply_to_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+  attachment_url TEXT,
+  attachment_type TEXT,
+  edited INTEGER DEFAULT 0,
+  reactions TEXT DEFAULT '{}',
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS payments (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+  payer_id TEXT NOT NULL,
+  recipient_id TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  payment_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  invoice_url TEXT,
+  due_date TEXT,
+  paid_date TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  editor_id TEXT NOT NULL,
+  invoice_number TEXT UNIQUE,
+  month TEXT NOT NULL,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  paid_amount NUMERIC NOT NULL DEFAULT 0,
+  remaining_amount NUMERIC NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending',
+  payment_method TEXT,
+  proceed_date TEXT,
+  paid_date TEXT,
+  notes TEXT,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS invoice_projects (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  invoice_id TEXT NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  project_fee NUMERIC NOT NULL,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (invoice_id, project_id)
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  editor_id TEXT NOT NULL,
+  invoice_id TEXT REFERENCES invoices(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL,
+  description TEXT NOT NULL,
+  transaction_date TEXT NOT NULL DEFAULT (date('now')),
+  transaction_type TEXT NOT NULL,
+  payment_method TEXT,
+  created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS ai_conversations (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  user_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS ai_messages (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  conversation_id TEXT NOT NULL REFERENCES ai_conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  api_key TEXT NOT NULL,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  usage_limit INTEGER,
+  current_usage INTEGER NOT NULL DEFAULT 0,
+  environment TEXT NOT NULL DEFAULT 'production',
+  last_used TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  read_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS admin_activity_logs (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4)) || '-' || hex(randomblob(2)) || '-4' || substr(hex(randomblob(2)), 2) || '-' || substr('89ab', 1 + (abs(random()) % 4), 1) || substr(hex(randomblob(2)), 2) || '-' || hex(randomblob(6)))),
+  admin_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  resource_type TEXT NOT NULL,
+  resource_id TEXT NOT NULL,
+  details TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS projects_creator_id_idx ON projects(creator_id);
+CREATE INDEX IF NOT EXISTS projects_editor_id_idx ON projects(editor_id);
+CREATE INDEX IF NOT EXISTS approval_stages_project_id_idx ON approval_stages(project_id);
+CREATE INDEX IF NOT EXISTS video_versions_project_id_idx ON video_versions(project_id);
+CREATE INDEX IF NOT EXISTS video_feedback_version_id_idx ON video_feedback(version_id);
+CREATE INDEX IF NOT EXISTS feedback_tasks_version_id_idx ON feedback_tasks(version_id);
+CREATE INDEX IF NOT EXISTS messages_project_id_idx ON messages(project_id);
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id);
+CREATE INDEX IF NOT EXISTS invoices_editor_id_idx ON invoices(editor_id);
+CREATE INDEX IF NOT EXISTS transactions_editor_id_idx ON transactions(editor_id);
+CREATE INDEX IF NOT EXISTS ai_messages_conversation_id_idx ON ai_messages(conversation_id);